@@ -3,38 +3,70 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { AuthProvider } from "@/components/AuthProvider";
+import { RequireAuth } from "@/components/RequireAuth";
+import { SessionExpiryDialog } from "@/components/SessionExpiryDialog";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
+import VerifyEmail from "./pages/VerifyEmail";
 import Jobs from "./pages/Jobs";
 import JobDetails from "./pages/JobDetails";
 import SavedJobs from "./pages/SavedJobs";
+import SavedSearches from "./pages/SavedSearches";
 import Applications from "./pages/Applications";
 import RecruiterDashboard from "./pages/RecruiterDashboard";
 import RecruiterApplications from "./pages/RecruiterApplications";
+import Account from "./pages/Account";
+import CandidateProfile from "./pages/CandidateProfile";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+// apiCall already retries idempotent requests with backoff, so React Query doesn't retry on top of it
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: { retry: false, staleTime: 30_000 },
+    mutations: { retry: false },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/auth" element={<Auth />} />
-          <Route path="/jobs" element={<Jobs />} />
-          <Route path="/jobs/:id" element={<JobDetails />} />
-          <Route path="/saved" element={<SavedJobs />} />
-          <Route path="/applications" element={<Applications />} />
-          <Route path="/recruiter/dashboard" element={<RecruiterDashboard />} />
-          {/* <Route path="/recruiter/applications" element={<RecruiterApplications />} /> */}
-          <Route path="/recruiter/applications/:jobId" element={<RecruiterApplications />} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    {/* One session for the whole app; pages read it with useAuth() */}
+    <AuthProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <SessionExpiryDialog />
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/auth/forgot-password" element={<ForgotPassword />} />
+            <Route path="/auth/reset-password" element={<ResetPassword />} />
+            <Route path="/auth/verify-email" element={<VerifyEmail />} />
+            <Route path="/jobs" element={<Jobs />} />
+            <Route path="/jobs/:id" element={<JobDetails />} />
+            {/* Guarded routes: RequireAuth handles loading, signed-out and wrong-role visitors */}
+            <Route element={<RequireAuth />}>
+              <Route path="/account" element={<Account />} />
+            </Route>
+            <Route element={<RequireAuth role="candidate" />}>
+              <Route path="/saved" element={<SavedJobs />} />
+              <Route path="/saved-searches" element={<SavedSearches />} />
+              <Route path="/applications" element={<Applications />} />
+              <Route path="/profile" element={<CandidateProfile />} />
+            </Route>
+            <Route element={<RequireAuth role="recruiter" />}>
+              <Route path="/recruiter/dashboard" element={<RecruiterDashboard />} />
+              {/* <Route path="/recruiter/applications" element={<RecruiterApplications />} /> */}
+              <Route path="/recruiter/applications/:jobId" element={<RecruiterApplications />} />
+            </Route>
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
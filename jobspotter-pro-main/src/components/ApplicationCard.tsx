@@ -1,6 +1,12 @@
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { StatusBadge } from '@/components/StatusBadge';
-import { Application } from '@/lib/api';
+import { CandidateProfileSheet } from '@/components/CandidateProfileSheet';
+import { ResumeLink } from '@/components/ResumeLink';
+import { ResumeViewerSheet } from '@/components/ResumeViewerSheet';
+import { SkillMatchBadge } from '@/components/SkillMatchBadge';
+import { useApplicantMatch } from '@/hooks/use-skill-match';
+import { Application, CandidateProfile } from '@/lib/api';
 import { 
   FileText, 
   Calendar, 
@@ -9,13 +15,17 @@ import {
   Edit,
   Trash2,
   ExternalLink,
-  User
+  User,
+  IdCard,
+  Eye
 } from 'lucide-react';
 import { formatDistanceToNow, format } from 'date-fns';
 
 interface ApplicationCardProps {
   application: Application;
   isRecruiter?: boolean;
+  // Applicant's profile, fetched by the list for all its cards; used for the match badge
+  applicantProfile?: CandidateProfile;
   // 🔥 Add the new prop
   canEdit: boolean;
   onEdit?: (application: Application) => void;
@@ -26,12 +36,19 @@ interface ApplicationCardProps {
 export function ApplicationCard({ 
   application, 
   isRecruiter = false,
+  applicantProfile,
   canEdit, // 🔥 Destructure the new prop
   onEdit,
   onWithdraw,
   onStatusChange
 }: ApplicationCardProps) {
-  
+  // Recruiters read the candidate's profile in a side panel
+  const [profileOpen, setProfileOpen] = useState(false);
+  // ...and its resume in the in-app viewer
+  const [resumeOpen, setResumeOpen] = useState(false);
+  // Applicant's skills against the job's requirements
+  const match = useApplicantMatch(application, isRecruiter ? applicantProfile : undefined);
+
   return (
     <div className="rounded-xl border border-border bg-card p-6 shadow-card transition-all duration-300 hover:shadow-card-hover">
       <div className="flex items-start justify-between gap-4">
@@ -59,7 +76,7 @@ export function ApplicationCard({
           )}
 
           {isRecruiter && application.candidate_name && ( // 🔥 TWEAK 1: Only need to check for name to display the card
-            <div className="mb-3 rounded-lg bg-secondary p-3">
+            <div className="mb-3 flex flex-wrap items-center justify-between gap-2 rounded-lg bg-secondary p-3">
               <div className="flex items-center gap-2 text-sm">
                 <User className="h-4 w-4 text-muted-foreground" />
                 <span className="font-medium text-foreground">
@@ -72,7 +89,12 @@ export function ApplicationCard({
                     ({application.candidate_email})
                   </span>
                 )}
+                <SkillMatchBadge match={match} />
               </div>
+              <Button variant="ghost" size="sm" onClick={() => setProfileOpen(true)}>
+                <IdCard className="h-4 w-4" />
+                View Profile
+              </Button>
             </div>
           )}
 
@@ -81,17 +103,22 @@ export function ApplicationCard({
               <Calendar className="h-4 w-4" />
               Applied {formatDistanceToNow(new Date(application.applied_at), { addSuffix: true })}
             </div>
-            {application.resume_url && (
-              <a
-                href={application.resume_url}
-                target="_blank"
-                rel="noopener noreferrer"
+            {application.resume_url && isRecruiter && (
+              <button
+                type="button"
+                onClick={() => setResumeOpen(true)}
                 className="flex items-center gap-1 text-primary hover:underline"
               >
+                <Eye className="h-4 w-4" />
+                Preview Resume
+              </button>
+            )}
+            {application.resume_url && !isRecruiter && (
+              <ResumeLink reference={application.resume_url} className="flex items-center gap-1">
                 <FileText className="h-4 w-4" />
                 View Resume
                 <ExternalLink className="h-3 w-3" />
-              </a>
+              </ResumeLink>
             )}
           </div>
 
@@ -165,6 +192,22 @@ export function ApplicationCard({
           </>
         )}
       </div>
+
+      {isRecruiter && (
+        <CandidateProfileSheet
+          candidateId={profileOpen ? application.candidate_id : null}
+          candidateName={application.candidate_name}
+          onClose={() => setProfileOpen(false)}
+        />
+      )}
+
+      {isRecruiter && (
+        <ResumeViewerSheet
+          reference={resumeOpen ? application.resume_url : null}
+          candidateName={application.candidate_name}
+          onClose={() => setResumeOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -1,6 +1,8 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import {
@@ -11,8 +13,16 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { VerifyEmailNotice } from '@/components/VerifyEmailNotice';
+import { LoadingState } from '@/components/LoadingState';
+import { ResumeLink } from '@/components/ResumeLink';
+import { ResumeUpload } from '@/components/ResumeUpload';
 import { Job } from '@/lib/api';
-import { Loader2, Send, Building2, MapPin } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useFormDraft } from '@/hooks/use-form-draft';
+import { useMyCandidateProfileQuery, useUpdateCandidateProfileMutation } from '@/hooks/use-api-queries';
+import { ApiError, FieldErrors } from '@/lib/errors';
+import { Loader2, Send, Building2, MapPin, FileText, ExternalLink, Zap } from 'lucide-react';
 
 interface ApplyModalProps {
   job: Job | null;
@@ -22,6 +32,11 @@ interface ApplyModalProps {
   isSubmitting?: boolean;
 }
 
+interface ApplyDraft {
+  resumeUrl: string;
+  coverLetter: string;
+}
+
 export function ApplyModal({ 
   job, 
   isOpen, 
@@ -32,26 +47,95 @@ export function ApplyModal({
   const [resumeUrl, setResumeUrl] = useState('');
   const [coverLetter, setCoverLetter] = useState('');
   const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const { user, isCandidate } = useAuth();
+  // The backend rejects applications from unverified accounts, so don't offer the form
+  const needsVerification = user?.email_verified === false;
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // With a default resume on the candidate's profile the modal opens on one-click apply;
+  // "Add a cover letter" switches to the full form, pre-filled from the profile
+  const { data: profile, isLoading: profileLoading } = useMyCandidateProfileQuery({ enabled: isOpen && isCandidate });
+  const updateProfile = useUpdateCandidateProfileMutation();
+  const defaultResume = profile?.resume_url ?? '';
+  const [customizing, setCustomizing] = useState(false);
+  const [saveAsDefault, setSaveAsDefault] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const quickApply = !!defaultResume && !customizing;
+
+  // Unsent answers are kept per job, e.g. across a forced re-login after the session expires
+  const { loadDraft, saveDraft, clearDraft } = useFormDraft<ApplyDraft>(isOpen && job ? `apply:${job.id}` : null);
+  const [restoredDraft, setRestoredDraft] = useState(false);
+
+  useEffect(() => {
+    const draft = loadDraft();
+    if (draft) {
+      setResumeUrl(draft.resumeUrl);
+      setCoverLetter(draft.coverLetter);
+    }
+    setRestoredDraft(!!draft);
+    setCustomizing(!!draft);
+    setSaveAsDefault(false);
+    setError('');
+    setFieldErrors({});
+  }, [loadDraft]);
+
+  const updateDraft = (changes: Partial<ApplyDraft>) => {
+    const next = { resumeUrl, coverLetter, ...changes };
+    setResumeUrl(next.resumeUrl);
+    setCoverLetter(next.coverLetter);
+    saveDraft(next);
+  };
+
+  const startCustomizing = () => {
+    if (!resumeUrl) setResumeUrl(defaultResume);
+    setCustomizing(true);
+  };
+
+  const handleCancel = () => {
+    clearDraft();
+    onClose();
+  };
+
+  const submitApplication = async (resume: string, letter: string) => {
     setError('');
+    setFieldErrors({});
 
-    if (!resumeUrl.trim()) {
-      setError('Please provide a resume URL');
+    if (!resume.trim()) {
+      setError('Please upload your resume or paste a link to it');
       return;
     }
 
     try {
-      await onSubmit(resumeUrl, coverLetter);
+      await onSubmit(resume, letter);
+      // Best effort: the application went through either way
+      if (saveAsDefault && profile && !quickApply) {
+        updateProfile.mutate({ ...profile, resume_url: resume.trim() });
+      }
+      clearDraft();
       setResumeUrl('');
       setCoverLetter('');
       onClose();
     } catch (err) {
-      setError('Failed to submit application. Please try again.');
+      if (err instanceof ApiError) {
+        setFieldErrors(err.fieldErrors);
+        if (err.isNetworkError) {
+          setError('You appear to be offline. Your answers are kept, so try again once you are reconnected.');
+        } else if (!err.hasFieldErrors) {
+          setError(err.message);
+        }
+      } else {
+        setError('Failed to submit application. Please try again.');
+      }
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitApplication(resumeUrl, coverLetter);
+  };
+
+  const handleQuickApply = () => submitApplication(defaultResume, '');
+
   if (!job) return null;
 
   return (
@@ -76,58 +160,138 @@ export function ApplyModal({
           </DialogDescription>
         </DialogHeader>
 
-        <form onSubmit={handleSubmit} className="space-y-4">
-          {error && (
-            <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive">
-              {error}
-            </div>
-          )}
-
-          <div className="space-y-2">
-            <Label htmlFor="resumeUrl">Resume URL *</Label>
-            <Input
-              id="resumeUrl"
-              type="url"
-              placeholder="https://drive.google.com/your-resume.pdf"
-              value={resumeUrl}
-              onChange={(e) => setResumeUrl(e.target.value)}
-              required
-            />
-            <p className="text-xs text-muted-foreground">
-              Provide a link to your resume (Google Drive, Dropbox, etc.)
-            </p>
+        {needsVerification ? (
+          <div className="space-y-4">
+            <VerifyEmailNotice />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Close
+              </Button>
+            </DialogFooter>
           </div>
+        ) : profileLoading ? (
+          <LoadingState message="Loading your profile..." />
+        ) : quickApply ? (
+          <div className="space-y-4">
+            {(error || fieldErrors.resume_url) && (
+              <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive">
+                {error || fieldErrors.resume_url}
+              </div>
+            )}
+
+            <div className="space-y-3 rounded-lg border border-border p-4">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium text-foreground">Apply with your profile</p>
+                <Link to="/profile" className="text-xs text-primary hover:underline" onClick={onClose}>
+                  Edit profile
+                </Link>
+              </div>
+              {profile?.headline && <p className="text-sm text-muted-foreground">{profile.headline}</p>}
+              <ResumeLink reference={defaultResume} className="flex items-center gap-1 text-sm">
+                <FileText className="h-4 w-4" />
+                Your default resume
+                <ExternalLink className="h-3 w-3" />
+              </ResumeLink>
+              {profile && profile.skills.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {profile.skills.slice(0, 6).map((skill) => (
+                    <Badge key={skill} variant="secondary">{skill}</Badge>
+                  ))}
+                </div>
+              )}
+            </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="coverLetter">Cover Letter (Optional)</Label>
-            <Textarea
-              id="coverLetter"
-              placeholder="Tell us why you're the perfect fit for this role..."
-              value={coverLetter}
-              onChange={(e) => setCoverLetter(e.target.value)}
-              rows={5}
-            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={startCustomizing}>
+                Add a cover letter
+              </Button>
+              <Button type="button" onClick={handleQuickApply} disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Submitting...
+                  </>
+                ) : (
+                  <>
+                    <Zap className="h-4 w-4" />
+                    Apply now
+                  </>
+                )}
+              </Button>
+            </DialogFooter>
           </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {restoredDraft && (
+              <div className="rounded-lg bg-primary/10 p-3 text-sm text-primary">
+                We restored the answers you hadn't sent yet.
+              </div>
+            )}
+            {error && (
+              <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="resumeUrl">Resume *</Label>
+              <ResumeUpload
+                id="resumeUrl"
+                value={resumeUrl}
+                onChange={(reference) => updateDraft({ resumeUrl: reference })}
+                onUploadingChange={setUploading}
+              />
+              {fieldErrors.resume_url && (
+                <p className="text-xs text-destructive">{fieldErrors.resume_url}</p>
+              )}
+              {profile && resumeUrl.trim() && resumeUrl.trim() !== defaultResume && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="saveAsDefaultResume"
+                    checked={saveAsDefault}
+                    onCheckedChange={(checked) => setSaveAsDefault(checked === true)}
+                  />
+                  <Label htmlFor="saveAsDefaultResume" className="text-sm font-normal">
+                    {defaultResume ? 'Make this my default resume' : 'Save to my profile for one-click apply next time'}
+                  </Label>
+                </div>
+              )}
+            </div>
 
-          <DialogFooter>
-            <Button type="button" variant="outline" onClick={onClose}>
-              Cancel
-            </Button>
-            <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? (
-                <>
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                  Submitting...
-                </>
-              ) : (
-                <>
-                  <Send className="h-4 w-4" />
-                  Submit Application
-                </>
+            <div className="space-y-2">
+              <Label htmlFor="coverLetter">Cover Letter (Optional)</Label>
+              <Textarea
+                id="coverLetter"
+                placeholder="Tell us why you're the perfect fit for this role..."
+                value={coverLetter}
+                onChange={(e) => updateDraft({ coverLetter: e.target.value })}
+                rows={5}
+              />
+              {fieldErrors.cover_letter && (
+                <p className="text-xs text-destructive">{fieldErrors.cover_letter}</p>
               )}
-            </Button>
-          </DialogFooter>
-        </form>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleCancel}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting || uploading}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Submitting...
+                  </>
+                ) : (
+                  <>
+                    <Send className="h-4 w-4" />
+                    Submit Application
+                  </>
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
       </DialogContent>
     </Dialog>
   );
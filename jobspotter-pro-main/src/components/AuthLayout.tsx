@@ -0,0 +1,56 @@
+import { ReactNode } from 'react';
+import { Briefcase } from 'lucide-react';
+
+// Branding panel plus a centred column, shared by sign-in, password reset and email verification
+export function AuthLayout({ children }: { children: ReactNode }) {
+  return (
+    <div className="flex min-h-screen">
+      {/* Left Side - Branding */}
+      <div className="hidden gradient-hero lg:flex lg:w-1/2 lg:flex-col lg:justify-center lg:p-12">
+        <div className="mx-auto max-w-md">
+          <div className="mb-8 flex items-center gap-3">
+            <div className="rounded-xl bg-primary-foreground/20 p-3">
+              <Briefcase className="h-8 w-8 text-primary-foreground" />
+            </div>
+            <span className="font-display text-3xl font-bold text-primary-foreground">
+              JobBoard
+            </span>
+          </div>
+          <h1 className="font-display text-4xl font-bold leading-tight text-primary-foreground">
+            Find your dream job or the perfect candidate
+          </h1>
+          <p className="mt-4 text-lg text-primary-foreground/80">
+            Connect with top companies and talented professionals. 
+            Your next opportunity is just a click away.
+          </p>
+          <div className="mt-8 grid grid-cols-2 gap-4">
+            <div className="rounded-lg bg-primary-foreground/10 p-4">
+              <p className="text-3xl font-bold text-primary-foreground">10k+</p>
+              <p className="text-sm text-primary-foreground/70">Active Jobs</p>
+            </div>
+            <div className="rounded-lg bg-primary-foreground/10 p-4">
+              <p className="text-3xl font-bold text-primary-foreground">5k+</p>
+              <p className="text-sm text-primary-foreground/70">Companies</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Right Side - Auth Form */}
+      <div className="flex w-full flex-col justify-center p-8 lg:w-1/2">
+        <div className="mx-auto w-full max-w-md">
+          <div className="mb-8 lg:hidden">
+            <div className="flex items-center gap-2">
+              <div className="gradient-hero rounded-lg p-2">
+                <Briefcase className="h-5 w-5 text-primary-foreground" />
+              </div>
+              <span className="font-display text-xl font-bold text-foreground">JobBoard</span>
+            </div>
+          </div>
+
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+}
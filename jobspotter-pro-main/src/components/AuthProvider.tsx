@@ -0,0 +1,341 @@
+// src/components/AuthProvider.tsx
+import { ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  LoginResponse,
+  apiLogin,
+  apiRefreshToken,
+  apiSignup,
+  getMyProfile,
+  isTwoFactorChallenge,
+  verifyTwoFactorLogin,
+} from '@/lib/api';
+import { ApiError } from '@/lib/errors';
+import { clearFormDrafts } from '@/hooks/use-form-draft';
+import { AuthContext, AuthContextValue, AuthState, FlaskUser, SignInResult, UserRole } from '@/hooks/useAuth';
+
+const TOKEN_KEY = 'flask_access_token';
+
+// Helper function to decode JWT payload (only needs base64 decoding)
+const decodeJwt = (token: string): any | null => {
+  try {
+    // A JWT is header.payload.signature
+    const payload = token.split('.')[1];
+    // Base64 decode, replace URL-safe chars, and parse JSON
+    return JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+  } catch (e) {
+    console.error("Failed to decode JWT:", e);
+    return null;
+  }
+};
+
+// Expiry time of a token in ms, or null when it can't be read
+const tokenExpiry = (token: string): number | null => {
+  const decoded = decodeJwt(token);
+  return decoded && decoded.exp ? decoded.exp * 1000 : null;
+};
+
+// A backend without POST /auth/refresh answers 404 or 405; the session can't be extended there
+const isRefreshUnsupported = (error: ApiError) => error.status === 404 || error.status === 405;
+
+const SIGNED_OUT: AuthState = { user: null, session: null, role: null, loading: false };
+
+// Holds the session for the whole app. Mounted once in App.tsx, so the profile is fetched
+// and the expiry timer scheduled once per session; every useAuth() reads from here.
+// Tabs stay in sync through the storage event on the token key: signing in, out or
+// extending the session in one tab is picked up by the others.
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [authState, setAuthState] = useState<AuthState>({
+    user: null,
+    session: null,
+    role: null,
+    loading: true,
+  });
+  // When the current token stops working (ms); SessionExpiryDialog counts down to it
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  // The last session ended because its token ran out rather than by signing out
+  const [sessionExpired, setSessionExpired] = useState(false);
+  // Cleared once the backend turns out not to support refreshing, so the option is no longer offered
+  const [canExtendSession, setCanExtendSession] = useState(true);
+  const queryClient = useQueryClient();
+
+  // One timer for the whole app (a ref, so re-renders don't lose track of it)
+  const expiryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Read by the storage listener, which is registered once
+  const currentUserId = useRef<string | null>(null);
+  const currentExpiresAt = useRef<number | null>(null);
+
+  useEffect(() => {
+    currentUserId.current = authState.user?.id ?? null;
+    currentExpiresAt.current = expiresAt;
+  }, [authState.user, expiresAt]);
+
+  const clearExpiryTimer = useCallback(() => {
+    if (expiryTimer.current) {
+      clearTimeout(expiryTimer.current);
+      expiryTimer.current = null;
+    }
+  }, []);
+
+  // Drops the session in this tab. Other tabs follow through the storage event.
+  const endSession = useCallback((reason: 'signed_out' | 'expired') => {
+    clearExpiryTimer();
+    localStorage.removeItem(TOKEN_KEY);
+    setAuthState(SIGNED_OUT);
+    setExpiresAt(null);
+    setSessionExpired(reason === 'expired');
+
+    // Drop the previous user's cached saved jobs, applications etc.
+    queryClient.removeQueries();
+  }, [clearExpiryTimer, queryClient]);
+
+  // --- Expiration Mechanism ---
+  // Rather than refreshing in the background, the session asks before it ends
+  // (SessionExpiryDialog), so a tab left open on a shared machine signs itself out.
+  const scheduleExpiry = useCallback((token: string) => {
+    clearExpiryTimer();
+
+    const expiry = tokenExpiry(token);
+    if (!expiry) {
+      setExpiresAt(null);
+      return;
+    }
+
+    const expiresInMs = expiry - Date.now();
+    if (expiresInMs <= 0) {
+      console.log("Token already expired. Logging out.");
+      endSession('expired');
+      return;
+    }
+
+    setExpiresAt(expiry);
+    expiryTimer.current = setTimeout(() => endSession('expired'), expiresInMs);
+  }, [clearExpiryTimer, endSession]);
+
+  // Loads a token's user and only then stores the token and schedules its expiry, so a
+  // token the backend rejects never reaches localStorage (or, through it, the other tabs)
+  const adoptToken = useCallback(async (token: string): Promise<boolean> => {
+    const { data: profileData, error: profileError } = await getMyProfile({ accessToken: token });
+    if (profileError || !profileData) {
+      console.warn("Could not load the profile for the new token.", profileError);
+      return false;
+    }
+
+    localStorage.setItem(TOKEN_KEY, token);
+
+    if (currentUserId.current && currentUserId.current !== profileData.id) {
+      // Another account signed in from a different tab
+      queryClient.removeQueries();
+    }
+
+    setAuthState({
+      user: profileData,
+      session: { access_token: token } as any,
+      role: profileData.role,
+      loading: false,
+    });
+    setSessionExpired(false);
+    scheduleExpiry(token);
+    return true;
+  }, [queryClient, scheduleExpiry]);
+
+  // --- Token Refresh Mechanism ---
+  // Used by "Stay signed in", while the current token is still valid: Flask's refresh
+  // endpoint authenticates with it. Leaves the session alone on failure; the expiry
+  // timer still ends it on time.
+  const refreshAccessToken = useCallback(async (): Promise<boolean> => {
+    try {
+      console.log("Attempting to refresh token...");
+      const { data, error } = await apiRefreshToken();
+      if (error || !data) {
+        if (error && isRefreshUnsupported(error)) setCanExtendSession(false);
+        console.error("Token refresh failed.", error);
+        return false;
+      }
+      const success = await adoptToken(data.access_token);
+      if (success) {
+        console.log("Token successfully refreshed and validated.");
+      }
+      return success;
+    } catch (e) {
+      console.error("Token refresh failed.", e);
+      return false;
+    }
+  }, [adoptToken]);
+
+  // --- useEffect (Initial Load/Cleanup) ---
+  useEffect(() => {
+
+    const checkLocalSession = async () => {
+      const token = localStorage.getItem(TOKEN_KEY);
+
+      if (token) {
+        try {
+          // 1. Try to validate current token with the backend
+          const { data: profileData, error: profileError } = await getMyProfile();
+
+          if (profileData) {
+            // Success: Token is valid, set state and schedule the expiry timer
+            setAuthState({
+              user: profileData,
+              session: { access_token: token } as any,
+              role: profileData.role,
+              loading: false
+            });
+            scheduleExpiry(token);
+            return;
+          } else if (profileError) {
+            // 2. Token expired or invalid (e.g., error from Flask). Refreshing needs a valid
+            // token too, so there is nothing to retry: the user signs in again.
+            console.warn("Initial token check failed. Clearing token.", profileError);
+          }
+
+        } catch (e) {
+            console.error("Initial check failed due to exception. Clearing token.", e);
+        }
+      }
+
+      // If no token, or initial check/refresh failed
+      localStorage.removeItem(TOKEN_KEY);
+      setAuthState(SIGNED_OUT);
+    };
+
+    checkLocalSession();
+
+    // Cleanup function: CRITICAL to clear the timer when the provider unmounts
+    return clearExpiryTimer;
+
+  }, [scheduleExpiry, clearExpiryTimer]);
+
+  // --- Cross-tab sync ---
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      // key is null when another tab cleared all of localStorage
+      if (event.key !== TOKEN_KEY && event.key !== null) return;
+      const token = localStorage.getItem(TOKEN_KEY);
+
+      if (!token) {
+        if (!currentUserId.current) return;
+        // Tokens expire at the same moment in every tab, so tell expiry apart from a sign-out
+        const expired = currentExpiresAt.current !== null && currentExpiresAt.current <= Date.now() + 1000;
+        endSession(expired ? 'expired' : 'signed_out');
+        return;
+      }
+
+      // Signed in, switched account or extended the session in another tab
+      adoptToken(token);
+    };
+
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, [adoptToken, endSession]);
+
+  // --- Auth Actions ---
+
+  const signUp = useCallback(async (email: string, password: string, role: UserRole, firstName: string,
+    lastName: string) => {
+    const { data, error } = await apiSignup(email, password, role, firstName, lastName);
+    return { data, error };
+  }, []);
+
+  // Stores the token from a successful login and starts the session
+  const startSession = useCallback((data: LoginResponse | null): SignInResult => {
+    if (data && data.access_token && data.user) {
+      localStorage.setItem(TOKEN_KEY, data.access_token);
+
+      const flaskUser: FlaskUser = data.user;
+
+      setAuthState({
+        user: flaskUser,
+        session: { access_token: data.access_token } as any,
+        role: flaskUser.role,
+        loading: false,
+      });
+      setSessionExpired(false);
+
+      // 🔥 CRITICAL: Schedule the expiry check immediately after successful sign-in
+      scheduleExpiry(data.access_token);
+
+      return { user: flaskUser, error: null };
+    } else {
+      return { user: null, error: new ApiError('Login failed: Server response missing token or user data.') };
+    }
+  }, [scheduleExpiry]);
+
+  const signIn = useCallback(async (email: string, password: string): Promise<SignInResult> => {
+    const { data, error } = await apiLogin(email, password);
+
+    if (error) {
+      return { user: null, error };
+    }
+
+    // Password accepted, but the session only starts once the second factor is checked
+    if (data && isTwoFactorChallenge(data)) {
+      return { user: null, error: null, twoFactorChallenge: data.challenge_token };
+    }
+
+    return startSession(data as LoginResponse | null);
+  }, [startSession]);
+
+  const completeTwoFactorSignIn = useCallback(async (challengeToken: string, code: string): Promise<SignInResult> => {
+    const { data, error } = await verifyTwoFactorLogin(challengeToken, code);
+
+    if (error) {
+      return { user: null, error };
+    }
+
+    return startSession(data);
+  }, [startSession]);
+
+  const signOut = useCallback(async () => {
+    endSession('signed_out');
+
+    // Drafts are kept for a forced re-login, not after choosing to sign out
+    clearFormDrafts();
+
+    // Note: You might want to call supabase.auth.signOut() here too,
+    // to destroy the refresh token and session on the server.
+
+    return { error: null };
+  }, [endSession]);
+
+  const reloadUser = useCallback(async () => {
+    if (!localStorage.getItem(TOKEN_KEY)) return;
+    const { data: profileData } = await getMyProfile();
+    if (profileData) {
+      setAuthState((current) => ({ ...current, user: profileData, role: profileData.role }));
+    }
+  }, []);
+
+  const dismissSessionExpired = useCallback(() => setSessionExpired(false), []);
+
+  const value = useMemo<AuthContextValue>(() => ({
+    ...authState,
+    signUp,
+    signIn,
+    completeTwoFactorSignIn,
+    signOut,
+    reloadUser,
+    isCandidate: authState.role === 'candidate',
+    isRecruiter: authState.role === 'recruiter',
+    expiresAt,
+    extendSession: refreshAccessToken,
+    canExtendSession,
+    sessionExpired,
+    dismissSessionExpired,
+  }), [
+    authState,
+    signUp,
+    signIn,
+    completeTwoFactorSignIn,
+    signOut,
+    reloadUser,
+    expiresAt,
+    refreshAccessToken,
+    canExtendSession,
+    sessionExpired,
+    dismissSessionExpired,
+  ]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ArrowUp } from 'lucide-react';
+
+// Floating button for long continuous-scroll lists; shows up two screens down
+export function BackToTopButton() {
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    const onScroll = () => setVisible(window.scrollY > window.innerHeight * 2);
+    onScroll();
+    window.addEventListener('scroll', onScroll, { passive: true });
+    return () => window.removeEventListener('scroll', onScroll);
+  }, []);
+
+  if (!visible) return null;
+
+  return (
+    <Button
+      variant="secondary"
+      size="icon"
+      className="fixed bottom-6 right-6 z-40 rounded-full shadow-lg"
+      onClick={() => window.scrollTo({ top: 0, behavior: 'smooth' })}
+      aria-label="Back to top"
+    >
+      <ArrowUp className="h-5 w-5" />
+    </Button>
+  );
+}
@@ -0,0 +1,53 @@
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { Copy, Download } from 'lucide-react';
+
+interface BackupCodesListProps {
+  codes: string[];
+}
+
+// Freshly issued backup codes. The server never shows them again, so offer copy and download.
+export function BackupCodesList({ codes }: BackupCodesListProps) {
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: 'Backup codes copied' });
+    } catch {
+      toast({ title: 'Could not copy', description: 'Select the codes and copy them manually.', variant: 'destructive' });
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([`JobBoard backup codes\n\n${text}\n`], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'jobboard-backup-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2 rounded-lg bg-secondary p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Each code signs you in once if you lose your authenticator. Keep them somewhere safe; they won't be shown again.
+      </p>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+          <Copy className="h-4 w-4" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="h-4 w-4" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
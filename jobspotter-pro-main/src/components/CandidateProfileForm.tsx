@@ -0,0 +1,367 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ResumeUpload } from '@/components/ResumeUpload';
+import { SkillsInput } from '@/components/SkillsInput';
+import { useUpdateCandidateProfileMutation } from '@/hooks/use-api-queries';
+import { toast } from '@/hooks/use-toast';
+import { CandidateProfile, CandidateProfileInput, Education, ProfileLink, WorkExperience } from '@/lib/api';
+import { ApiError, describeApiError, FieldErrors } from '@/lib/errors';
+import { Briefcase, FileText, GraduationCap, Link as LinkIcon, Loader2, Plus, Sparkles, Trash2, UserRound } from 'lucide-react';
+
+interface CandidateProfileFormProps {
+  profile: CandidateProfile;
+}
+
+type ListKey = 'experience' | 'education' | 'links';
+
+const EMPTY_ENTRY = {
+  experience: { title: '', company: '', start_date: '' } as WorkExperience,
+  education: { school: '', degree: '' } as Education,
+  links: { label: '', url: '' } as ProfileLink,
+};
+
+const toInput = ({ candidate_id, name, updated_at, ...input }: CandidateProfile): CandidateProfileInput => input;
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-xs text-destructive">{message}</p>;
+}
+
+// Editor for the candidate's own profile (see pages/CandidateProfile.tsx).
+// The whole profile is saved at once; the backend reports list errors as "experience.0.title".
+export function CandidateProfileForm({ profile }: CandidateProfileFormProps) {
+  const updateProfile = useUpdateCandidateProfileMutation();
+  const saved = useMemo(() => toInput(profile), [profile]);
+  const [form, setForm] = useState<CandidateProfileInput>(saved);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [uploading, setUploading] = useState(false);
+
+  // A save (here or in ApplyModal) replaces the cached profile
+  useEffect(() => setForm(saved), [saved]);
+
+  const dirty = JSON.stringify(form) !== JSON.stringify(saved);
+
+  const update = (changes: Partial<CandidateProfileInput>) => setForm((current) => ({ ...current, ...changes }));
+
+  const updateEntry = <K extends ListKey>(key: K, index: number, changes: Partial<CandidateProfileInput[K][number]>) =>
+    setForm((current) => ({
+      ...current,
+      [key]: current[key].map((entry, i) => (i === index ? { ...entry, ...changes } : entry)),
+    }));
+
+  const addEntry = (key: ListKey) =>
+    setForm((current) => ({ ...current, [key]: [...current[key], { ...EMPTY_ENTRY[key] }] }));
+
+  const removeEntry = (key: ListKey, index: number) =>
+    setForm((current) => ({ ...current, [key]: current[key].filter((_, i) => i !== index) }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFieldErrors({});
+
+    try {
+      await updateProfile.mutateAsync(form);
+      toast({ title: 'Profile saved', description: 'Recruiters see these details when you apply.' });
+    } catch (err) {
+      const apiError = err instanceof ApiError ? err : new ApiError('Failed to save your profile.');
+      setFieldErrors(apiError.fieldErrors);
+      toast({ ...describeApiError(apiError), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <UserRound className="h-5 w-5 text-primary" />
+            About you
+          </CardTitle>
+          <CardDescription>The first thing recruiters read when they open your application.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="profileHeadline">Headline</Label>
+            <Input
+              id="profileHeadline"
+              placeholder="e.g. Frontend engineer focused on React and design systems"
+              value={form.headline}
+              onChange={(e) => update({ headline: e.target.value })}
+            />
+            <FieldError message={fieldErrors.headline} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profileSummary">Summary</Label>
+            <Textarea
+              id="profileSummary"
+              placeholder="A few sentences about your experience and what you're looking for"
+              value={form.summary}
+              onChange={(e) => update({ summary: e.target.value })}
+              rows={4}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <FileText className="h-5 w-5 text-primary" />
+            Default resume
+          </CardTitle>
+          <CardDescription>Used when you apply in one click. You can still attach a different one per job.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Label htmlFor="profileResumeUrl">Resume</Label>
+          <ResumeUpload
+            id="profileResumeUrl"
+            value={form.resume_url}
+            onChange={(resume_url) => update({ resume_url })}
+            onUploadingChange={setUploading}
+          />
+          <FieldError message={fieldErrors.resume_url} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Sparkles className="h-5 w-5 text-primary" />
+            Skills
+          </CardTitle>
+          <CardDescription>Tools, languages and strengths you want to be found for.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <SkillsInput id="profileSkills" value={form.skills} onChange={(skills) => update({ skills })} />
+          <FieldError message={fieldErrors.skills} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Briefcase className="h-5 w-5 text-primary" />
+            Experience
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {form.experience.map((entry, index) => (
+            <div key={index} className="space-y-3 rounded-lg border border-border p-4">
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor={`experience-${index}-title`}>Job title</Label>
+                  <Input
+                    id={`experience-${index}-title`}
+                    value={entry.title}
+                    onChange={(e) => updateEntry('experience', index, { title: e.target.value })}
+                  />
+                  <FieldError message={fieldErrors[`experience.${index}.title`]} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`experience-${index}-company`}>Company</Label>
+                  <Input
+                    id={`experience-${index}-company`}
+                    value={entry.company}
+                    onChange={(e) => updateEntry('experience', index, { company: e.target.value })}
+                  />
+                  <FieldError message={fieldErrors[`experience.${index}.company`]} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`experience-${index}-start`}>Start</Label>
+                  <Input
+                    id={`experience-${index}-start`}
+                    type="month"
+                    value={entry.start_date}
+                    onChange={(e) => updateEntry('experience', index, { start_date: e.target.value })}
+                  />
+                  <FieldError message={fieldErrors[`experience.${index}.start_date`]} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`experience-${index}-end`}>End</Label>
+                  <Input
+                    id={`experience-${index}-end`}
+                    type="month"
+                    value={entry.end_date ?? ''}
+                    onChange={(e) => updateEntry('experience', index, { end_date: e.target.value || undefined })}
+                    disabled={entry.end_date === undefined}
+                  />
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`experience-${index}-current`}
+                      checked={entry.end_date === undefined}
+                      onCheckedChange={(checked) =>
+                        updateEntry('experience', index, { end_date: checked ? undefined : '' })
+                      }
+                    />
+                    <Label htmlFor={`experience-${index}-current`} className="text-sm font-normal">
+                      I currently work here
+                    </Label>
+                  </div>
+                  <FieldError message={fieldErrors[`experience.${index}.end_date`]} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`experience-${index}-description`}>What you did (optional)</Label>
+                <Textarea
+                  id={`experience-${index}-description`}
+                  value={entry.description ?? ''}
+                  onChange={(e) => updateEntry('experience', index, { description: e.target.value })}
+                  rows={2}
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button type="button" variant="ghost" size="sm" onClick={() => removeEntry('experience', index)}>
+                  <Trash2 className="h-4 w-4" />
+                  Remove
+                </Button>
+              </div>
+            </div>
+          ))}
+          <Button type="button" variant="outline" size="sm" onClick={() => addEntry('experience')}>
+            <Plus className="h-4 w-4" />
+            Add experience
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <GraduationCap className="h-5 w-5 text-primary" />
+            Education
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {form.education.map((entry, index) => (
+            <div key={index} className="space-y-3 rounded-lg border border-border p-4">
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor={`education-${index}-school`}>School</Label>
+                  <Input
+                    id={`education-${index}-school`}
+                    value={entry.school}
+                    onChange={(e) => updateEntry('education', index, { school: e.target.value })}
+                  />
+                  <FieldError message={fieldErrors[`education.${index}.school`]} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`education-${index}-degree`}>Degree</Label>
+                  <Input
+                    id={`education-${index}-degree`}
+                    placeholder="e.g. B.Tech"
+                    value={entry.degree}
+                    onChange={(e) => updateEntry('education', index, { degree: e.target.value })}
+                  />
+                  <FieldError message={fieldErrors[`education.${index}.degree`]} />
+                </div>
+                <div className="space-y-2 sm:col-span-2">
+                  <Label htmlFor={`education-${index}-field`}>Field of study (optional)</Label>
+                  <Input
+                    id={`education-${index}-field`}
+                    value={entry.field_of_study ?? ''}
+                    onChange={(e) => updateEntry('education', index, { field_of_study: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`education-${index}-start`}>Start year</Label>
+                  <Input
+                    id={`education-${index}-start`}
+                    type="number"
+                    min={1950}
+                    value={entry.start_year ?? ''}
+                    onChange={(e) =>
+                      updateEntry('education', index, { start_year: e.target.value ? Number(e.target.value) : undefined })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`education-${index}-end`}>End year (or expected)</Label>
+                  <Input
+                    id={`education-${index}-end`}
+                    type="number"
+                    min={1950}
+                    value={entry.end_year ?? ''}
+                    onChange={(e) =>
+                      updateEntry('education', index, { end_year: e.target.value ? Number(e.target.value) : undefined })
+                    }
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button type="button" variant="ghost" size="sm" onClick={() => removeEntry('education', index)}>
+                  <Trash2 className="h-4 w-4" />
+                  Remove
+                </Button>
+              </div>
+            </div>
+          ))}
+          <Button type="button" variant="outline" size="sm" onClick={() => addEntry('education')}>
+            <Plus className="h-4 w-4" />
+            Add education
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <LinkIcon className="h-5 w-5 text-primary" />
+            Links
+          </CardTitle>
+          <CardDescription>Portfolio, GitHub, LinkedIn or anything else worth a look.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {form.links.map((link, index) => (
+            <div key={index} className="flex flex-wrap items-start gap-2 sm:flex-nowrap">
+              <Input
+                aria-label="Link label"
+                placeholder="GitHub"
+                className="sm:w-40"
+                value={link.label}
+                onChange={(e) => updateEntry('links', index, { label: e.target.value })}
+              />
+              <div className="flex-1 space-y-1">
+                <Input
+                  aria-label="Link URL"
+                  type="url"
+                  placeholder="https://github.com/you"
+                  value={link.url}
+                  onChange={(e) => updateEntry('links', index, { url: e.target.value })}
+                />
+                <FieldError message={fieldErrors[`links.${index}.url`]} />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => removeEntry('links', index)}
+                aria-label="Remove link"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button type="button" variant="outline" size="sm" onClick={() => addEntry('links')}>
+            <Plus className="h-4 w-4" />
+            Add link
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={() => setForm(saved)} disabled={!dirty || updateProfile.isPending}>
+          Discard changes
+        </Button>
+        <Button type="submit" disabled={!dirty || uploading || updateProfile.isPending}>
+          {updateProfile.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+          Save profile
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,36 @@
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { CandidateProfileView } from '@/components/CandidateProfileView';
+import { ErrorBanner } from '@/components/ErrorBanner';
+import { LoadingState } from '@/components/LoadingState';
+import { useCandidateProfileQuery } from '@/hooks/use-api-queries';
+
+interface CandidateProfileSheetProps {
+  // Loaded only while open
+  candidateId: string | null;
+  candidateName?: string;
+  onClose: () => void;
+}
+
+// Side panel recruiters open from an application to read the candidate's profile
+export function CandidateProfileSheet({ candidateId, candidateName, onClose }: CandidateProfileSheetProps) {
+  const { data: profile, isLoading, error, refetch } = useCandidateProfileQuery(candidateId ?? undefined);
+
+  return (
+    <Sheet open={!!candidateId} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-lg">
+        <SheetHeader className="mb-6">
+          <SheetTitle className="font-display text-xl">{profile?.name || candidateName || 'Candidate profile'}</SheetTitle>
+          <SheetDescription>Candidate profile</SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <LoadingState message="Loading profile..." />
+        ) : error ? (
+          <ErrorBanner error={error} onRetry={() => refetch()} />
+        ) : profile ? (
+          <CandidateProfileView profile={profile} />
+        ) : null}
+      </SheetContent>
+    </Sheet>
+  );
+}
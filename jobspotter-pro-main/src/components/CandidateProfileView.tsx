@@ -0,0 +1,121 @@
+import { Badge } from '@/components/ui/badge';
+import { ResumeLink } from '@/components/ResumeLink';
+import { CandidateProfile } from '@/lib/api';
+import { format } from 'date-fns';
+import { Briefcase, ExternalLink, FileText, GraduationCap, Link as LinkIcon } from 'lucide-react';
+
+interface CandidateProfileViewProps {
+  profile: CandidateProfile;
+}
+
+// "2021-06" -> "Jun 2021"
+const formatMonth = (month: string) => {
+  const date = new Date(`${month}-01T00:00:00`);
+  return Number.isNaN(date.getTime()) ? month : format(date, 'MMM yyyy');
+};
+
+const isEmpty = (profile: CandidateProfile) =>
+  !profile.headline && !profile.summary && profile.skills.length === 0 && profile.experience.length === 0 &&
+  profile.education.length === 0 && profile.links.length === 0 && !profile.resume_url;
+
+// Read-only candidate profile, as recruiters see it from an application
+export function CandidateProfileView({ profile }: CandidateProfileViewProps) {
+  if (isEmpty(profile)) {
+    return <p className="text-sm text-muted-foreground">This candidate hasn't filled in their profile yet.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {(profile.headline || profile.summary) && (
+        <div className="space-y-2">
+          {profile.headline && <p className="font-medium text-foreground">{profile.headline}</p>}
+          {profile.summary && <p className="whitespace-pre-line text-sm text-muted-foreground">{profile.summary}</p>}
+        </div>
+      )}
+
+      {profile.skills.length > 0 && (
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-foreground">Skills</h3>
+          <div className="flex flex-wrap gap-2">
+            {profile.skills.map((skill) => (
+              <Badge key={skill} variant="secondary">{skill}</Badge>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {profile.experience.length > 0 && (
+        <section className="space-y-3">
+          <h3 className="flex items-center gap-2 text-sm font-semibold text-foreground">
+            <Briefcase className="h-4 w-4 text-muted-foreground" />
+            Experience
+          </h3>
+          <ul className="space-y-3">
+            {profile.experience.map((entry, index) => (
+              <li key={index} className="border-l-2 border-border pl-3">
+                <p className="font-medium text-foreground">{entry.title}</p>
+                <p className="text-sm text-muted-foreground">
+                  {entry.company} · {formatMonth(entry.start_date)} – {entry.end_date ? formatMonth(entry.end_date) : 'Present'}
+                </p>
+                {entry.description && <p className="mt-1 text-sm text-muted-foreground">{entry.description}</p>}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {profile.education.length > 0 && (
+        <section className="space-y-3">
+          <h3 className="flex items-center gap-2 text-sm font-semibold text-foreground">
+            <GraduationCap className="h-4 w-4 text-muted-foreground" />
+            Education
+          </h3>
+          <ul className="space-y-3">
+            {profile.education.map((entry, index) => (
+              <li key={index} className="border-l-2 border-border pl-3">
+                <p className="font-medium text-foreground">{entry.school}</p>
+                <p className="text-sm text-muted-foreground">
+                  {[entry.degree, entry.field_of_study].filter(Boolean).join(', ')}
+                  {(entry.start_year || entry.end_year) && ` · ${[entry.start_year, entry.end_year].filter(Boolean).join(' – ')}`}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {(profile.links.length > 0 || profile.resume_url) && (
+        <section className="space-y-2">
+          <h3 className="flex items-center gap-2 text-sm font-semibold text-foreground">
+            <LinkIcon className="h-4 w-4 text-muted-foreground" />
+            Links
+          </h3>
+          <ul className="space-y-1 text-sm">
+            {profile.resume_url && (
+              <li>
+                <ResumeLink reference={profile.resume_url} className="inline-flex items-center gap-1">
+                  <FileText className="h-4 w-4" />
+                  Default resume
+                  <ExternalLink className="h-3 w-3" />
+                </ResumeLink>
+              </li>
+            )}
+            {profile.links.map((link) => (
+              <li key={link.url}>
+                <a
+                  href={link.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-primary hover:underline"
+                >
+                  {link.label}
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useExportAccountDataMutation } from '@/hooks/use-api-queries';
+import { toast } from '@/hooks/use-toast';
+import { ApiError, describeApiError } from '@/lib/errors';
+import { Download, FileJson, Loader2 } from 'lucide-react';
+
+// Data section of the account page: download everything stored about the user as JSON
+export function DataExportSettings() {
+  const exportData = useExportAccountDataMutation();
+
+  const handleExport = async () => {
+    try {
+      const data = await exportData.mutateAsync();
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `jobboard-data-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast({ title: 'Export ready', description: 'Your data has been downloaded.' });
+    } catch (err) {
+      const apiError = err instanceof ApiError ? err : new ApiError('Failed to export your data.');
+      toast({ ...describeApiError(apiError), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <FileJson className="h-5 w-5 text-primary" />
+          Export your data
+        </CardTitle>
+        <CardDescription>
+          Download your profile, preferences, saved jobs, applications and posted jobs as a JSON file.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button variant="outline" onClick={handleExport} disabled={exportData.isPending}>
+          {exportData.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          Download my data
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
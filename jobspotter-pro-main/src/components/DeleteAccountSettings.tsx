@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ReauthFields } from '@/components/ReauthFields';
+import { useDeleteAccountMutation } from '@/hooks/use-api-queries';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { Reauthentication } from '@/lib/api';
+import { ApiError, describeApiError, FieldErrors } from '@/lib/errors';
+import { Loader2, Trash2 } from 'lucide-react';
+
+// Typed into the confirmation dialog, so the account can't be deleted by a stray click
+const CONFIRMATION_WORD = 'DELETE';
+
+// Danger zone of the account page. Deletion is permanent: the session ends and
+// the user lands on the home page.
+export function DeleteAccountSettings() {
+  const { isRecruiter, signOut } = useAuth();
+  const navigate = useNavigate();
+  const deleteAccount = useDeleteAccountMutation();
+
+  const [open, setOpen] = useState(false);
+  const [confirmation, setConfirmation] = useState('');
+  const [reauth, setReauth] = useState<Reauthentication>({ current_password: '' });
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  const openDialog = () => {
+    setConfirmation('');
+    setReauth({ current_password: '' });
+    setFieldErrors({});
+    setOpen(true);
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (confirmation !== CONFIRMATION_WORD) return;
+    setFieldErrors({});
+
+    try {
+      await deleteAccount.mutateAsync(reauth);
+      setOpen(false);
+      await signOut();
+      navigate('/', { replace: true });
+      toast({ title: 'Account deleted', description: 'Your account and its data have been removed.' });
+    } catch (err) {
+      const apiError = err instanceof ApiError ? err : new ApiError('Failed to delete your account.');
+      setFieldErrors(apiError.fieldErrors);
+      if (!apiError.hasFieldErrors) {
+        toast({ ...describeApiError(apiError), variant: 'destructive' });
+      }
+    }
+  };
+
+  const consequences = isRecruiter
+    ? 'Your account, your job postings and every application to them will be permanently deleted.'
+    : 'Your account, saved jobs and applications will be permanently deleted.';
+
+  return (
+    <Card className="border-destructive/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg text-destructive">
+          <Trash2 className="h-5 w-5" />
+          Delete account
+        </CardTitle>
+        <CardDescription>{consequences} This cannot be undone.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button variant="destructive" onClick={openDialog}>
+          Delete my account
+        </Button>
+      </CardContent>
+
+      <Dialog open={open} onOpenChange={(next) => !deleteAccount.isPending && setOpen(next)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-display">Delete your account?</DialogTitle>
+            <DialogDescription>
+              {consequences} Consider downloading your data first.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleDelete} className="space-y-4">
+            <ReauthFields id="delete" value={reauth} onChange={setReauth} fieldErrors={fieldErrors} />
+            <div className="space-y-2">
+              <Label htmlFor="deleteConfirmation">
+                Type <span className="font-mono font-semibold">{CONFIRMATION_WORD}</span> to confirm
+              </Label>
+              <Input
+                id="deleteConfirmation"
+                autoComplete="off"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={deleteAccount.isPending}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant="destructive"
+                disabled={confirmation !== CONFIRMATION_WORD || !reauth.current_password || deleteAccount.isPending}
+              >
+                {deleteAccount.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                Delete permanently
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
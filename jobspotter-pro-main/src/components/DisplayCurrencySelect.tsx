@@ -0,0 +1,36 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useDisplayCurrency } from '@/hooks/use-display-currency';
+import { CURRENCIES, CURRENCY_LABELS, isCurrencyCode } from '@/lib/salary';
+import { cn } from '@/lib/utils';
+
+// Select value for "show each job in the currency it was posted in"
+const AS_POSTED = 'as-posted';
+
+export function DisplayCurrencySelect({ className }: { className?: string }) {
+  const { displayCurrency, setDisplayCurrency } = useDisplayCurrency();
+
+  return (
+    <Select
+      value={displayCurrency ?? AS_POSTED}
+      onValueChange={(value) => setDisplayCurrency(isCurrencyCode(value) ? value : null)}
+    >
+      <SelectTrigger className={cn('h-9 w-[150px]', className)} aria-label="Display salaries in">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={AS_POSTED}>Salary as posted</SelectItem>
+        {CURRENCIES.map((currency) => (
+          <SelectItem key={currency} value={currency}>
+            {CURRENCY_LABELS[currency]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,6 +1,5 @@
 import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import {
@@ -11,7 +10,9 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { ResumeUpload } from '@/components/ResumeUpload';
 import { Application } from '@/lib/api';
+import { ApiError, FieldErrors } from '@/lib/errors';
 import { Loader2, Save } from 'lucide-react';
 
 interface EditApplicationModalProps {
@@ -32,6 +33,8 @@ export function EditApplicationModal({
   const [resumeUrl, setResumeUrl] = useState('');
   const [coverLetter, setCoverLetter] = useState('');
   const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [uploading, setUploading] = useState(false);
 
   useEffect(() => {
     if (application) {
@@ -43,9 +46,10 @@ export function EditApplicationModal({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setFieldErrors({});
 
     if (!resumeUrl.trim()) {
-      setError('Please provide a resume URL');
+      setError('Please upload your resume or paste a link to it');
       return;
     }
 
@@ -53,7 +57,16 @@ export function EditApplicationModal({
       await onSubmit(resumeUrl, coverLetter);
       onClose();
     } catch (err) {
-      setError('Failed to update application. Please try again.');
+      if (err instanceof ApiError) {
+        setFieldErrors(err.fieldErrors);
+        if (err.isNetworkError) {
+          setError('You appear to be offline. Your answers are kept, so try again once you are reconnected.');
+        } else if (!err.hasFieldErrors) {
+          setError(err.message);
+        }
+      } else {
+        setError('Failed to update application. Please try again.');
+      }
     }
   };
 
@@ -77,15 +90,16 @@ export function EditApplicationModal({
           )}
 
           <div className="space-y-2">
-            <Label htmlFor="resumeUrl">Resume URL *</Label>
-            <Input
+            <Label htmlFor="resumeUrl">Resume *</Label>
+            <ResumeUpload
               id="resumeUrl"
-              type="url"
-              placeholder="https://drive.google.com/your-resume.pdf"
               value={resumeUrl}
-              onChange={(e) => setResumeUrl(e.target.value)}
-              required
+              onChange={setResumeUrl}
+              onUploadingChange={setUploading}
             />
+            {fieldErrors.resume_url && (
+              <p className="text-xs text-destructive">{fieldErrors.resume_url}</p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -97,13 +111,16 @@ export function EditApplicationModal({
               onChange={(e) => setCoverLetter(e.target.value)}
               rows={5}
             />
+            {fieldErrors.cover_letter && (
+              <p className="text-xs text-destructive">{fieldErrors.cover_letter}</p>
+            )}
           </div>
 
           <DialogFooter>
             <Button type="button" variant="outline" onClick={onClose}>
               Cancel
             </Button>
-            <Button type="submit" disabled={isSubmitting}>
+            <Button type="submit" disabled={isSubmitting || uploading}>
               {isSubmitting ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
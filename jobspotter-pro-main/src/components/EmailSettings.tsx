@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ReauthFields } from '@/components/ReauthFields';
+import { VerifyEmailNotice } from '@/components/VerifyEmailNotice';
+import { useChangeEmailMutation } from '@/hooks/use-api-queries';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { Reauthentication } from '@/lib/api';
+import { ApiError, describeApiError, FieldErrors } from '@/lib/errors';
+import { Loader2, Mail } from 'lucide-react';
+
+// Email section of the account page. The new address starts unverified, so applying
+// is blocked again until the link sent to it is opened.
+export function EmailSettings() {
+  const { user, reloadUser } = useAuth();
+  const changeEmail = useChangeEmailMutation();
+
+  const [newEmail, setNewEmail] = useState('');
+  const [reauth, setReauth] = useState<Reauthentication>({ current_password: '' });
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFieldErrors({});
+
+    try {
+      const updated = await changeEmail.mutateAsync({ reauth, newEmail: newEmail.trim() });
+      setNewEmail('');
+      setReauth({ current_password: '' });
+      await reloadUser();
+      toast({
+        title: 'Email address changed',
+        description: `We sent a verification link to ${updated.email}. Open it to confirm the new address.`,
+      });
+    } catch (err) {
+      const apiError = err instanceof ApiError ? err : new ApiError('Failed to change your email address.');
+      setFieldErrors(apiError.fieldErrors);
+      if (!apiError.hasFieldErrors) {
+        toast({ ...describeApiError(apiError), variant: 'destructive' });
+      }
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Mail className="h-5 w-5 text-primary" />
+            Email address
+          </CardTitle>
+          <Badge variant={user?.email_verified === false ? 'pending' : 'success'}>
+            {user?.email_verified === false ? 'Unverified' : 'Verified'}
+          </Badge>
+        </div>
+        <CardDescription>
+          You sign in with <span className="font-medium text-foreground">{user?.email}</span>. Changing it
+          sends a verification link to the new address.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {user?.email_verified === false && <VerifyEmailNotice />}
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="newEmail">New email address</Label>
+            <Input
+              id="newEmail"
+              type="email"
+              autoComplete="email"
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              required
+            />
+            {fieldErrors.new_email && <p className="text-xs text-destructive">{fieldErrors.new_email}</p>}
+          </div>
+          <ReauthFields id="email" value={reauth} onChange={setReauth} fieldErrors={fieldErrors} />
+          <div className="flex justify-end">
+            <Button type="submit" disabled={!newEmail.trim() || !reauth.current_password || changeEmail.isPending}>
+              {changeEmail.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Change email
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
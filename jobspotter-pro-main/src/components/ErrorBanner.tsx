@@ -1,24 +1,58 @@
-import { AlertCircle, X } from 'lucide-react';
+import { Link, useLocation } from 'react-router-dom';
+import { AlertCircle, WifiOff, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { ApiError } from '@/lib/errors';
+import { cn } from '@/lib/utils';
 
 interface ErrorBannerProps {
-  message: string;
+  // Either a plain message or a structured ApiError; the error wins when both are given
+  message?: string;
+  error?: ApiError | null;
   onDismiss?: () => void;
   onRetry?: () => void;
 }
 
-export function ErrorBanner({ message, onDismiss, onRetry }: ErrorBannerProps) {
+// Retrying these won't change the outcome, so the "Try again" link is hidden
+const NON_RETRYABLE_CODES = ['unauthorized', 'forbidden', 'not_found', 'validation', 'invalid_response'];
+
+export function ErrorBanner({ message, error, onDismiss, onRetry }: ErrorBannerProps) {
+  const location = useLocation();
+  const isOffline = error?.isNetworkError ?? false;
+  const Icon = isOffline ? WifiOff : AlertCircle;
+  const canRetry = onRetry && !(error && NON_RETRYABLE_CODES.includes(error.code));
+
   return (
-    <div className="rounded-lg border border-destructive/20 bg-destructive/10 p-4">
+    <div
+      className={cn(
+        'rounded-lg border p-4',
+        isOffline ? 'border-warning/30 bg-warning/10' : 'border-destructive/20 bg-destructive/10'
+      )}
+    >
       <div className="flex items-start gap-3">
-        <AlertCircle className="h-5 w-5 text-destructive shrink-0 mt-0.5" />
+        <Icon className={cn('h-5 w-5 shrink-0 mt-0.5', isOffline ? 'text-warning' : 'text-destructive')} />
         <div className="flex-1">
-          <p className="text-sm font-medium text-destructive">{message}</p>
-          {onRetry && (
-            <Button 
-              variant="link" 
-              size="sm" 
-              className="mt-1 h-auto p-0 text-destructive"
+          {isOffline && (
+            <p className="text-sm font-semibold text-foreground">You appear to be offline</p>
+          )}
+          <p className={cn('text-sm font-medium', isOffline ? 'text-muted-foreground' : 'text-destructive')}>
+            {error?.message ?? message}
+          </p>
+          {error?.code === 'rate_limited' && error.retryAfterMs && (
+            <p className="mt-1 text-xs text-muted-foreground">
+              You can try again in {Math.ceil(error.retryAfterMs / 1000)} seconds.
+            </p>
+          )}
+          {error?.code === 'unauthorized' && (
+            // Auth sends the user back to this page after signing in
+            <Link to="/auth" state={{ from: location }} className="mt-1 inline-block text-sm font-medium text-destructive underline">
+              Sign in again
+            </Link>
+          )}
+          {canRetry && (
+            <Button
+              variant="link"
+              size="sm"
+              className={cn('mt-1 h-auto p-0', isOffline ? 'text-foreground' : 'text-destructive')}
               onClick={onRetry}
             >
               Try again
@@ -1,14 +1,20 @@
 import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { getConfig } from '@/lib/config';
+import { DisplayCurrencySelect } from '@/components/DisplayCurrencySelect';
+import { SavedSearchAlerts } from '@/components/SavedSearchAlerts';
 // 🔥 FIX 3: Import FlaskUser from useAuth
 import { useAuth, FlaskUser } from '@/hooks/useAuth'; 
 import { 
   Briefcase, 
   Bookmark, 
   FileText, 
+  IdCard,
   LayoutDashboard, 
   LogOut, 
   User,
+  Settings,
   Menu,
   X
 } from 'lucide-react';
@@ -29,6 +35,7 @@ const getDisplayName = (user: FlaskUser) => {
 
 export function Header() {
   const { user, role, signOut, loading } = useAuth();
+  const { environment, apiBaseUrl, useMockApi } = getConfig();
   const navigate = useNavigate();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
@@ -41,6 +48,7 @@ export function Header() {
     { href: '/jobs', label: 'Browse Jobs', icon: Briefcase },
     { href: '/saved', label: 'Saved Jobs', icon: Bookmark },
     { href: '/applications', label: 'My Applications', icon: FileText },
+    { href: '/profile', label: 'My Profile', icon: IdCard },
   ];
 
   const recruiterLinks = [
@@ -59,6 +67,17 @@ export function Header() {
             <Briefcase className="h-5 w-5 text-primary-foreground" />
           </div>
           <span className="font-display text-xl font-bold text-foreground">JobBoard</span>
+          {/* Environment badge: hidden on production so users never see it */}
+          {environment !== 'production' && (
+            <Badge variant="warning" className="uppercase" title={`API: ${apiBaseUrl}`}>
+              {environment}
+            </Badge>
+          )}
+          {useMockApi && (
+            <Badge variant="under-review" className="uppercase" title="Requests are served by the in-browser mock backend">
+              mock api
+            </Badge>
+          )}
         </Link>
 
         {/* Desktop Navigation */}
@@ -81,8 +100,18 @@ export function Header() {
             <div className="h-10 w-24 animate-pulse rounded-lg bg-secondary" />
           ) : user ? (
             <>
-              {/* User Profile Display Logic */}
-              <div className="flex items-center gap-2 rounded-lg bg-secondary px-3 py-2">
+              {/* New jobs for saved searches */}
+              {role === 'candidate' && <SavedSearchAlerts />}
+
+              {/* Candidates choose the currency salaries are shown in */}
+              {role === 'candidate' && <DisplayCurrencySelect />}
+
+              {/* User Profile Display Logic - opens account settings */}
+              <Link
+                to="/account"
+                className="flex items-center gap-2 rounded-lg bg-secondary px-3 py-2 transition-colors hover:bg-secondary/80"
+                title="Account settings"
+              >
                 
                 <User className="h-4 w-4 text-muted-foreground" />
                 
@@ -93,7 +122,7 @@ export function Header() {
                 <span className="rounded-full bg-primary/10 px-2 py-0.5 text-xs font-medium text-primary">
                   {role}
                 </span>
-              </div>
+              </Link>
               
               <Button variant="ghost" size="sm" onClick={handleSignOut}>
                 <LogOut className="h-4 w-4" />
@@ -110,12 +139,15 @@ export function Header() {
         </div>
 
         {/* Mobile Menu Button */}
-        <button
-          className="rounded-lg p-2 text-muted-foreground hover:bg-secondary md:hidden"
-          onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-        >
-          {mobileMenuOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
-        </button>
+        <div className="flex items-center gap-1 md:hidden">
+          {user && role === 'candidate' && <SavedSearchAlerts />}
+          <button
+            className="rounded-lg p-2 text-muted-foreground hover:bg-secondary"
+            onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+          >
+            {mobileMenuOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
+          </button>
+        </div>
       </div>
 
       {/* Mobile Menu */}
@@ -133,6 +165,17 @@ export function Header() {
                 {link.label}
               </Link>
             ))}
+            {role === 'candidate' && <DisplayCurrencySelect className="w-full" />}
+            {user && (
+              <Link
+                to="/account"
+                className="flex items-center gap-2 rounded-lg px-3 py-2 text-sm font-medium text-muted-foreground transition-colors hover:bg-secondary hover:text-foreground"
+                onClick={() => setMobileMenuOpen(false)}
+              >
+                <Settings className="h-4 w-4" />
+                Account Settings
+              </Link>
+            )}
             {user ? (
               <Button variant="ghost" size="sm" onClick={handleSignOut} className="justify-start">
                 <LogOut className="h-4 w-4" />
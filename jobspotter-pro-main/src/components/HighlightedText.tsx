@@ -0,0 +1,28 @@
+import { useMemo } from 'react';
+import { findMatchRanges } from '@/lib/fuzzySearch';
+
+interface HighlightedTextProps {
+  text: string;
+  // The search to highlight; typo-tolerant like the search itself
+  query?: string;
+}
+
+// Marks the words of `text` that matched the job search
+export function HighlightedText({ text, query }: HighlightedTextProps) {
+  const ranges = useMemo(() => (query ? findMatchRanges(text, query) : []), [text, query]);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="rounded-sm bg-warning/25 px-0.5 text-inherit">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  }
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+}
@@ -15,6 +15,11 @@ import { formatDistanceToNow, parseISO } from 'date-fns';
 // Import the hook and toast
 import { useApplicationStatus } from '@/hooks/use-application-status'; 
 import { toast } from '@/hooks/use-toast';
+import { useDisplayCurrency } from '@/hooks/use-display-currency';
+import { useJobMatch } from '@/hooks/use-skill-match';
+import { SkillMatchBadge } from '@/components/SkillMatchBadge';
+import { HighlightedText } from '@/components/HighlightedText';
+import { formatSalary } from '@/lib/salary';
 
 interface JobCardProps {
   job: Job;
@@ -24,6 +29,8 @@ interface JobCardProps {
   onApply?: (job: Job) => void;
   showActions?: boolean;
   savedJobId?: string;
+  // Search text whose matches are marked in the card
+  highlight?: string;
 }
 
 export function JobCard({ 
@@ -33,20 +40,19 @@ export function JobCard({
   onUnsave, 
   onApply,
   showActions = true,
-  savedJobId 
+  savedJobId,
+  highlight
 }: JobCardProps) {
 
   // Use the new hook to check application status
   const { status, isApplied, isLoading } = useApplicationStatus(job.id);
   
-  const formatSalary = (min?: number, max?: number) => {
-    if (!min && !max) return null;
-    if (min && max) return `$${(min / 1000).toFixed(0)}k - $${(max / 1000).toFixed(0)}k`;
-    if (min) return `From $${(min / 1000).toFixed(0)}k`;
-    if (max) return `Up to $${(max / 1000).toFixed(0)}k`;
-  };
-
-  const salary = formatSalary(job.salary_min, job.salary_max);
+  const { displayCurrency } = useDisplayCurrency();
+  const salary = formatSalary(job.salary, { displayCurrency });
+  // Hovering a converted salary shows it as posted
+  const postedSalary = formatSalary(job.salary);
+  // Only candidates with skills on their profile get a score
+  const match = useJobMatch(job);
 
   // New handler for the Apply button click
   const handleApplyClick = () => {
@@ -79,25 +85,26 @@ export function JobCard({
           <div className="mb-2 flex flex-wrap items-center gap-2">
             <Badge variant="secondary">{job.job_type}</Badge>
             <Badge variant="outline">{job.experience_level}</Badge>
+            <SkillMatchBadge match={match} />
           </div>
           
           <Link to={`/jobs/${job.id}`} className="group/link">
             <h3 className="mb-1 text-lg font-semibold text-foreground transition-colors group-hover/link:text-primary line-clamp-1">
-              {job.title}
+              <HighlightedText text={job.title} query={highlight} />
             </h3>
           </Link>
           
           <div className="mb-3 flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
             <span className="flex items-center gap-1">
               <Building2 className="h-4 w-4" />
-              {job.company || job.company_name} 
+              <HighlightedText text={job.company} query={highlight} />
             </span>
             <span className="flex items-center gap-1">
               <MapPin className="h-4 w-4" />
-              {job.location}
+              <HighlightedText text={job.location} query={highlight} />
             </span>
             {salary && (
-              <span className="flex items-center gap-1 text-success">
+              <span className="flex items-center gap-1 text-success" title={postedSalary ?? undefined}>
                 {/* <DollarSign className="h-4 w-4" /> */}
                 {salary}
               </span>
@@ -105,7 +112,7 @@ export function JobCard({
           </div>
 
           <p className="mb-4 text-sm text-muted-foreground line-clamp-2">
-            {job.description}
+            <HighlightedText text={job.description} query={highlight} />
           </p>
 
           <div className="flex items-center gap-2 text-xs text-muted-foreground">
@@ -0,0 +1,264 @@
+import { ReactNode, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Slider } from '@/components/ui/slider';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { JobFacets, JobFilters } from '@/lib/api';
+import {
+  EXPERIENCE_LEVEL_OPTIONS,
+  FilterOption,
+  JOB_TYPE_OPTIONS,
+  POSTED_WITHIN_OPTIONS,
+  SALARY_FILTER_RANGE,
+  countActiveFilters,
+  facetCount,
+  isPostedWithin,
+} from '@/lib/jobFilters';
+import { CurrencyCode, formatAmount } from '@/lib/salary';
+import { cn } from '@/lib/utils';
+import { MapPin } from 'lucide-react';
+
+interface JobFiltersPanelProps {
+  filters: JobFilters;
+  // Missing until the first page loads, or when the backend doesn't send facets
+  facets?: JobFacets;
+  // Salary slider currency when no salary filter is set yet
+  currency: CurrencyCode;
+  onChange: (filters: JobFilters) => void;
+  // Starts every control id. The Jobs page renders the panel twice (sidebar and mobile
+  // sheet), and each label has to point at a control in its own copy.
+  idPrefix: string;
+  className?: string;
+}
+
+// Locations offered as one-click picks under the location field
+const TOP_LOCATIONS = 5;
+// Typing a location waits this long before the list updates, like the search box
+const LOCATION_DEBOUNCE_MS = 300;
+
+function FilterSection({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <fieldset className="space-y-3">
+      <legend className="mb-3 text-sm font-semibold text-foreground">{title}</legend>
+      {children}
+    </fieldset>
+  );
+}
+
+function CountLabel({ count }: { count: number | null }) {
+  if (count === null) return null;
+  return <span className="ml-auto text-xs tabular-nums text-muted-foreground">{count}</span>;
+}
+
+interface CheckboxFacetProps {
+  id: string;
+  options: FilterOption[];
+  selected: string[] | undefined;
+  counts: Record<string, number> | undefined;
+  onChange: (selected: string[]) => void;
+}
+
+function CheckboxFacet({ id, options, selected = [], counts, onChange }: CheckboxFacetProps) {
+  return (
+    <div className="space-y-2">
+      {options.map((option) => {
+        const checked = selected.includes(option.value);
+        const count = facetCount(counts, option.value);
+        return (
+          <div key={option.value} className={cn('flex items-center gap-2', !checked && count === 0 && 'opacity-50')}>
+            <Checkbox
+              id={`${id}-${option.value}`}
+              checked={checked}
+              onCheckedChange={(value) =>
+                onChange(value ? [...selected, option.value] : selected.filter((v) => v !== option.value))
+              }
+            />
+            <Label htmlFor={`${id}-${option.value}`} className="flex flex-1 cursor-pointer items-center font-normal">
+              {option.label}
+              <CountLabel count={count} />
+            </Label>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+interface LocationInputProps {
+  // The location the list is filtered by (from the URL)
+  value: string;
+  onChange: (location: string) => void;
+}
+
+// Free-text location filter, applied once typing pauses
+function LocationInput({ value, onChange }: LocationInputProps) {
+  const [text, setText] = useState(value);
+  const debouncedText = useDebouncedValue(text.trim(), LOCATION_DEBOUNCE_MS);
+
+  // The last location sent, to tell this field's own URL updates from a pick or Back/Forward
+  const sentRef = useRef(value);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (value !== sentRef.current) {
+      sentRef.current = value;
+      setText(value);
+    }
+  }, [value]);
+
+  useEffect(() => {
+    if (debouncedText !== sentRef.current) {
+      sentRef.current = debouncedText;
+      onChangeRef.current(debouncedText);
+    }
+  }, [debouncedText]);
+
+  return (
+    <div className="relative">
+      <MapPin className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        placeholder="City or Remote"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        className="h-9 pl-9"
+        aria-label="Location"
+      />
+    </div>
+  );
+}
+
+// Filter sidebar for the Jobs page. Counts come from the backend's facets and show how
+// many jobs each value would return alongside the other active filters.
+export function JobFiltersPanel({
+  filters,
+  facets,
+  currency: preferredCurrency,
+  onChange,
+  idPrefix,
+  className,
+}: JobFiltersPanelProps) {
+  const currency = filters.salaryCurrency ?? preferredCurrency;
+  const { max, step } = SALARY_FILTER_RANGE[currency];
+
+  // The slider moves freely and only filters when released
+  const [salary, setSalary] = useState<[number, number]>([filters.salaryMin ?? 0, filters.salaryMax ?? max]);
+  useEffect(() => {
+    setSalary([filters.salaryMin ?? 0, filters.salaryMax ?? max]);
+  }, [filters.salaryMin, filters.salaryMax, max]);
+
+  const update = (changes: Partial<JobFilters>) => onChange({ ...filters, ...changes });
+
+  const commitSalary = ([low, high]: number[]) =>
+    update({
+      salaryMin: low > 0 ? low : undefined,
+      salaryMax: high < max ? high : undefined,
+      salaryCurrency: low > 0 || high < max ? currency : undefined,
+    });
+
+  const activeCount = countActiveFilters(filters);
+  const topLocations = Object.entries(facets?.location ?? {})
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, TOP_LOCATIONS);
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      <div className="flex items-center justify-between">
+        <h2 className="font-display text-lg font-semibold text-foreground">Filters</h2>
+        {activeCount > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ search: filters.search })}
+          >
+            Clear all
+          </Button>
+        )}
+      </div>
+
+      <FilterSection title="Job type">
+        <CheckboxFacet
+          id={`${idPrefix}-job-type`}
+          options={JOB_TYPE_OPTIONS}
+          selected={filters.jobTypes}
+          counts={facets?.job_type}
+          onChange={(jobTypes) => update({ jobTypes })}
+        />
+      </FilterSection>
+
+      <FilterSection title="Experience level">
+        <CheckboxFacet
+          id={`${idPrefix}-experience`}
+          options={EXPERIENCE_LEVEL_OPTIONS}
+          selected={filters.experienceLevels}
+          counts={facets?.experience_level}
+          onChange={(experienceLevels) => update({ experienceLevels })}
+        />
+      </FilterSection>
+
+      <FilterSection title="Location">
+        <LocationInput value={filters.location ?? ''} onChange={(location) => update({ location: location || undefined })} />
+        {topLocations.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {topLocations.map(([location, count]) => (
+              <button
+                key={location}
+                type="button"
+                onClick={() => update({ location: filters.location === location ? undefined : location })}
+                className={cn(
+                  'rounded-full border px-2.5 py-0.5 text-xs transition-colors',
+                  filters.location === location
+                    ? 'border-primary bg-primary/10 text-primary'
+                    : 'border-border text-muted-foreground hover:border-primary/50 hover:text-foreground'
+                )}
+              >
+                {location} <span className="tabular-nums">({count})</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </FilterSection>
+
+      <FilterSection title="Salary per year">
+        <Slider
+          min={0}
+          max={max}
+          step={step}
+          value={salary}
+          onValueChange={(value) => setSalary([value[0], value[1]])}
+          onValueCommit={commitSalary}
+          aria-label="Salary range"
+        />
+        <p className="text-xs text-muted-foreground">
+          {salary[0] === 0 && salary[1] === max
+            ? 'Any salary'
+            : `${formatAmount(salary[0], currency)} – ${formatAmount(salary[1], currency)}${salary[1] === max ? '+' : ''}`}
+        </p>
+      </FilterSection>
+
+      <FilterSection title="Date posted">
+        <RadioGroup
+          value={filters.postedWithin ?? 'any'}
+          onValueChange={(value) => update({ postedWithin: isPostedWithin(value) ? value : undefined })}
+        >
+          <div className="flex items-center gap-2">
+            <RadioGroupItem id={`${idPrefix}-posted-any`} value="any" />
+            <Label htmlFor={`${idPrefix}-posted-any`} className="flex-1 cursor-pointer font-normal">Any time</Label>
+          </div>
+          {POSTED_WITHIN_OPTIONS.map((option) => (
+            <div key={option.value} className="flex items-center gap-2">
+              <RadioGroupItem id={`${idPrefix}-posted-${option.value}`} value={option.value} />
+              <Label htmlFor={`${idPrefix}-posted-${option.value}`} className="flex flex-1 cursor-pointer items-center font-normal">
+                {option.label}
+                <CountLabel count={facetCount(facets?.posted_within, option.value)} />
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      </FilterSection>
+    </div>
+  );
+}
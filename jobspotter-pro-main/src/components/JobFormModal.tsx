@@ -18,8 +18,20 @@ import {
   SelectTrigger, 
   SelectValue,
 } from '@/components/ui/select';
-import { createJob, updateJob, Job } from '@/lib/api';
+import { Job } from '@/lib/api';
+import { useCreateJobMutation, useUpdateJobMutation } from '@/hooks/use-api-queries';
 import { toast } from '@/hooks/use-toast';
+import { useFormDraft } from '@/hooks/use-form-draft';
+import { ApiError, describeApiError, FieldErrors } from '@/lib/errors';
+import {
+  CURRENCIES,
+  CurrencyCode,
+  SALARY_PERIODS,
+  SalaryPeriod,
+  SalaryUnit,
+  UNIT_LABELS,
+  defaultSalaryUnit,
+} from '@/lib/salary';
 import { Loader2 } from 'lucide-react';
 
 interface JobFormModalProps {
@@ -29,8 +41,42 @@ interface JobFormModalProps {
   onSuccess: () => void;
 }
 
+// The backend reports validation errors under its own field names; map them to the form inputs
+const BACKEND_FIELD_MAP: Record<string, string> = {
+  salary_range: 'salary_min',
+  skills_required: 'requirements',
+  company_name: 'company',
+};
+
+function toFormFieldErrors(fieldErrors: FieldErrors): FieldErrors {
+  const mapped: FieldErrors = {};
+  for (const [field, message] of Object.entries(fieldErrors)) {
+    mapped[BACKEND_FIELD_MAP[field] || field] = message;
+  }
+  return mapped;
+}
+
+// Amounts are entered in the salary's unit, e.g. "12" for 12 lakh
+function salaryInputLabel(currency: CurrencyCode, period: SalaryPeriod, unit: SalaryUnit) {
+  return [currency, UNIT_LABELS[unit]].filter(Boolean).join(' ') + ` / ${period}`;
+}
+
+const SALARY_PLACEHOLDERS: Record<SalaryUnit, [string, string]> = {
+  lakh: ['e.g. 10', 'e.g. 15'],
+  thousand: ['e.g. 80', 'e.g. 120'],
+  one: ['e.g. 4000', 'e.g. 6000'],
+};
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-xs text-destructive">{message}</p>;
+}
+
 export function JobFormModal({ job, isOpen, onClose, onSuccess }: JobFormModalProps) {
-  const [loading, setLoading] = useState(false);
+  const createJobMutation = useCreateJobMutation();
+  const updateJobMutation = useUpdateJobMutation();
+  const loading = createJobMutation.isPending || updateJobMutation.isPending;
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [formData, setFormData] = useState({
     title: '',
     company: '',
@@ -39,11 +85,20 @@ export function JobFormModal({ job, isOpen, onClose, onSuccess }: JobFormModalPr
     experience_level: 'Mid-level',
     salary_min: '',
     salary_max: '',
+    salary_currency: 'INR' as CurrencyCode,
+    salary_period: 'year' as SalaryPeriod,
+    salary_unit: 'lakh' as SalaryUnit,
     description: '',
     // 🔥 FIX 1: Add state for requirements (will be a comma-separated string)
     requirements: '',
   });
 
+  // Unsaved edits are kept per job (or for the new listing), e.g. across a forced re-login
+  const { loadDraft, saveDraft, clearDraft } = useFormDraft<typeof formData>(
+    isOpen ? `job-form:${job?.id ?? 'new'}` : null
+  );
+  const [restoredDraft, setRestoredDraft] = useState(false);
+
   useEffect(() => {
     if (job) {
       setFormData({
@@ -52,8 +107,12 @@ export function JobFormModal({ job, isOpen, onClose, onSuccess }: JobFormModalPr
         location: job.location,
         job_type: job.job_type,
         experience_level: job.experience_level,
-        salary_min: job.salary_min?.toString() || '',
-        salary_max: job.salary_max?.toString() || '',
+        salary_min: job.salary?.min?.toString() || '',
+        salary_max: job.salary?.max?.toString() || '',
+        // Keep the posted unit so saving an unchanged job writes the same salary_range back
+        salary_currency: job.salary?.currency ?? 'INR',
+        salary_period: job.salary?.period ?? 'year',
+        salary_unit: job.salary?.unit ?? 'lakh',
         description: job.description,
         // 🔥 FIX 2: Load requirements from job data (convert array to comma-separated string)
         requirements: (job.requirements || []).join(', '),
@@ -67,15 +126,35 @@ export function JobFormModal({ job, isOpen, onClose, onSuccess }: JobFormModalPr
         experience_level: 'Mid-level',
         salary_min: '',
         salary_max: '',
+        salary_currency: 'INR',
+        salary_period: 'year',
+        salary_unit: 'lakh',
         description: '',
         requirements: '', // Set default empty string
       });
     }
-  }, [job, isOpen]);
+    const draft = loadDraft();
+    if (draft) {
+      setFormData(draft);
+    }
+    setRestoredDraft(!!draft);
+    setFieldErrors({});
+  }, [job, isOpen, loadDraft]);
+
+  const updateForm = (changes: Partial<typeof formData>) => {
+    const next = { ...formData, ...changes };
+    setFormData(next);
+    saveDraft(next);
+  };
+
+  const handleCancel = () => {
+    clearDraft();
+    onClose();
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setLoading(true);
+    setFieldErrors({});
 
     // Helper to clean and split the requirements string into an array
     const parsedRequirements = formData.requirements
@@ -90,35 +169,44 @@ export function JobFormModal({ job, isOpen, onClose, onSuccess }: JobFormModalPr
       // 🔥 FIX: Convert job_type to lowercase before sending to match SQL check constraint
       job_type: formData.job_type.toLowerCase(),
       experience_level: formData.experience_level,
-      salary_min: formData.salary_min ? parseInt(formData.salary_min) : undefined,
-      salary_max: formData.salary_max ? parseInt(formData.salary_max) : undefined,
+      salary: {
+        min: formData.salary_min ? parseFloat(formData.salary_min) : undefined,
+        max: formData.salary_max ? parseFloat(formData.salary_max) : undefined,
+        currency: formData.salary_currency,
+        period: formData.salary_period,
+        unit: formData.salary_unit,
+      },
       description: formData.description,
       // 🔥 FIX 3: Include the parsed requirements array
       requirements: parsedRequirements,
     };
 
-    let result;
-    if (job) {
-      result = await updateJob(job.id, payload);
-    } else {
-      result = await createJob(payload);
+    try {
+      if (job) {
+        await updateJobMutation.mutateAsync({ id: job.id, job: payload });
+      } else {
+        await createJobMutation.mutateAsync(payload);
+      }
+    } catch (error) {
+      const apiError = ApiError.from(error);
+      // Validation errors with field details are shown inline; everything else goes to a toast
+      if (apiError.code === 'validation' && apiError.hasFieldErrors) {
+        setFieldErrors(toFormFieldErrors(apiError.fieldErrors));
+      } else {
+        toast({
+          ...describeApiError(apiError),
+          variant: 'destructive',
+        });
+      }
+      return;
     }
 
-    setLoading(false);
-
-    if (result.error) {
-      toast({
-        title: 'Error',
-        description: result.error,
-        variant: 'destructive',
-      });
-    } else {
-      toast({
-        title: job ? 'Job updated' : 'Job created',
-        description: job ? 'The job listing has been updated' : 'Your new job listing is live',
-      });
-      onSuccess();
-    }
+    toast({
+      title: job ? 'Job updated' : 'Job created',
+      description: job ? 'The job listing has been updated' : 'Your new job listing is live',
+    });
+    clearDraft();
+    onSuccess();
   };
 
   return (
@@ -134,26 +222,34 @@ export function JobFormModal({ job, isOpen, onClose, onSuccess }: JobFormModalPr
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          {restoredDraft && (
+            <div className="rounded-lg bg-primary/10 p-3 text-sm text-primary">
+              We restored the changes you hadn't saved yet.
+            </div>
+          )}
+
           <div className="grid gap-4 sm:grid-cols-2">
             <div className="space-y-2">
               <Label htmlFor="title">Job Title *</Label>
               <Input
                 id="title"
                 value={formData.title}
-                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                onChange={(e) => updateForm({ title: e.target.value })}
                 placeholder="e.g. Senior Software Engineer"
                 required
               />
+              <FieldError message={fieldErrors.title} />
             </div>
             <div className="space-y-2">
               <Label htmlFor="company">Company *</Label>
               <Input
                 id="company"
                 value={formData.company}
-                onChange={(e) => setFormData({ ...formData, company: e.target.value })}
+                onChange={(e) => updateForm({ company: e.target.value })}
                 placeholder="e.g. Acme Inc."
                 required
               />
+              <FieldError message={fieldErrors.company} />
             </div>
           </div>
 
@@ -163,16 +259,17 @@ export function JobFormModal({ job, isOpen, onClose, onSuccess }: JobFormModalPr
               <Input
                 id="location"
                 value={formData.location}
-                onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                onChange={(e) => updateForm({ location: e.target.value })}
                 placeholder="e.g. San Francisco, CA or Remote"
                 required
               />
+              <FieldError message={fieldErrors.location} />
             </div>
             <div className="space-y-2">
               <Label htmlFor="job_type">Job Type</Label>
               <Select
                 value={formData.job_type}
-                onValueChange={(value) => setFormData({ ...formData, job_type: value })}
+                onValueChange={(value) => updateForm({ job_type: value })}
               >
                 <SelectTrigger>
                   <SelectValue />
@@ -194,7 +291,7 @@ export function JobFormModal({ job, isOpen, onClose, onSuccess }: JobFormModalPr
               <Label htmlFor="experience_level">Experience Level</Label>
               <Select
                 value={formData.experience_level}
-                onValueChange={(value) => setFormData({ ...formData, experience_level: value })}
+                onValueChange={(value) => updateForm({ experience_level: value })}
               >
                 <SelectTrigger>
                   <SelectValue />
@@ -209,24 +306,76 @@ export function JobFormModal({ job, isOpen, onClose, onSuccess }: JobFormModalPr
               </Select>
             </div>
             <div className="space-y-2">
-              <Label htmlFor="salary_min">Min Salary ($)</Label>
+              <Label htmlFor="salary_currency">Salary Currency</Label>
+              <Select
+                value={formData.salary_currency}
+                onValueChange={(value: CurrencyCode) =>
+                  updateForm({
+                    salary_currency: value,
+                    salary_unit: defaultSalaryUnit(value, formData.salary_period),
+                  })
+                }
+              >
+                <SelectTrigger id="salary_currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map((currency) => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="salary_period">Salary Period</Label>
+              <Select
+                value={formData.salary_period}
+                onValueChange={(value: SalaryPeriod) =>
+                  updateForm({
+                    salary_period: value,
+                    salary_unit: defaultSalaryUnit(formData.salary_currency, value),
+                  })
+                }
+              >
+                <SelectTrigger id="salary_period">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SALARY_PERIODS.map((period) => (
+                    <SelectItem key={period} value={period}>Per {period}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="salary_min">
+                Min Salary ({salaryInputLabel(formData.salary_currency, formData.salary_period, formData.salary_unit)})
+              </Label>
               <Input
                 id="salary_min"
                 type="number"
+                step="any"
+                min="0"
                 value={formData.salary_min}
-                onChange={(e) => setFormData({ ...formData, salary_min: e.target.value })}
-                placeholder="e.g. 80000"
+                onChange={(e) => updateForm({ salary_min: e.target.value })}
+                placeholder={SALARY_PLACEHOLDERS[formData.salary_unit][0]}
               />
+              <FieldError message={fieldErrors.salary_min} />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="salary_max">Max Salary ($)</Label>
+              <Label htmlFor="salary_max">
+                Max Salary ({salaryInputLabel(formData.salary_currency, formData.salary_period, formData.salary_unit)})
+              </Label>
               <Input
                 id="salary_max"
                 type="number"
+                step="any"
+                min="0"
                 value={formData.salary_max}
-                onChange={(e) => setFormData({ ...formData, salary_max: e.target.value })}
-                placeholder="e.g. 120000"
+                onChange={(e) => updateForm({ salary_max: e.target.value })}
+                placeholder={SALARY_PLACEHOLDERS[formData.salary_unit][1]}
               />
+              <FieldError message={fieldErrors.salary_max} />
             </div>
           </div>
 
@@ -236,9 +385,10 @@ export function JobFormModal({ job, isOpen, onClose, onSuccess }: JobFormModalPr
               id="requirements"
               value={formData.requirements}
               // 🔥 FIX 4: Bind input to the new requirements state field
-              onChange={(e) => setFormData({ ...formData, requirements: e.target.value })}
+              onChange={(e) => updateForm({ requirements: e.target.value })}
               placeholder="e.g. React, TypeScript, Python, Flask"
             />
+            <FieldError message={fieldErrors.requirements} />
           </div>
 
           <div className="space-y-2">
@@ -246,15 +396,16 @@ export function JobFormModal({ job, isOpen, onClose, onSuccess }: JobFormModalPr
             <Textarea
               id="description"
               value={formData.description}
-              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              onChange={(e) => updateForm({ description: e.target.value })}
               placeholder="Describe the role, responsibilities, and what you're looking for..."
               rows={6}
               required
             />
+            <FieldError message={fieldErrors.description} />
           </div>
 
           <DialogFooter>
-            <Button type="button" variant="outline" onClick={onClose}>
+            <Button type="button" variant="outline" onClick={handleCancel}>
               Cancel
             </Button>
             <Button type="submit" disabled={loading}>
@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from 'react';
+import { Command as CommandPrimitive } from 'cmdk';
+import { Command, CommandGroup, CommandItem, CommandList, CommandShortcut } from '@/components/ui/command';
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover';
+import { HighlightedText } from '@/components/HighlightedText';
+import { useJobSuggestionsQuery } from '@/hooks/use-api-queries';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useRecentSearches } from '@/hooks/use-recent-searches';
+import { JobSuggestion } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { Briefcase, Building2, History, MapPin, Search, Sparkles, X } from 'lucide-react';
+
+interface JobSearchBoxProps {
+  // The search the list is showing (from the URL)
+  value: string;
+  onSearch: (search: string) => void;
+  className?: string;
+}
+
+// Typing waits this long before the list (and the suggestions) update
+const SEARCH_DEBOUNCE_MS = 300;
+const MAX_RECENT_SHOWN = 5;
+
+const SUGGESTION_ICONS = {
+  title: Briefcase,
+  company: Building2,
+  location: MapPin,
+  skill: Sparkles,
+};
+
+const SUGGESTION_LABELS = {
+  title: 'Title',
+  company: 'Company',
+  location: 'Location',
+  skill: 'Skill',
+};
+
+// Search field for the Jobs page with recent searches and suggestions from the listings.
+// The list follows the text as it's typed (debounced); Enter or picking an entry searches
+// straight away and remembers the search.
+export function JobSearchBox({ value, onSearch, className }: JobSearchBoxProps) {
+  const [text, setText] = useState(value);
+  const [open, setOpen] = useState(false);
+  const debouncedText = useDebouncedValue(text.trim(), SEARCH_DEBOUNCE_MS);
+  const { recentSearches, addRecentSearch, removeRecentSearch, clearRecentSearches } = useRecentSearches();
+  const { data: suggestions = [] } = useJobSuggestionsQuery(debouncedText, { enabled: open });
+
+  // The last search this box sent, to tell its own URL updates from Back/Forward or a new link
+  const sentRef = useRef(value);
+  const anchorRef = useRef<HTMLDivElement>(null);
+  const onSearchRef = useRef(onSearch);
+  onSearchRef.current = onSearch;
+
+  useEffect(() => {
+    if (value !== sentRef.current) {
+      sentRef.current = value;
+      setText(value);
+    }
+  }, [value]);
+
+  useEffect(() => {
+    if (debouncedText !== sentRef.current) {
+      sentRef.current = debouncedText;
+      onSearchRef.current(debouncedText);
+    }
+  }, [debouncedText]);
+
+  const run = (search: string) => {
+    const trimmed = search.trim();
+    setText(trimmed);
+    sentRef.current = trimmed;
+    onSearch(trimmed);
+    addRecentSearch(trimmed);
+    setOpen(false);
+  };
+
+  const typed = text.trim();
+  const recent = recentSearches
+    .filter((entry) => !typed || (entry.toLowerCase().includes(typed.toLowerCase()) && entry !== typed))
+    .slice(0, MAX_RECENT_SHOWN);
+  // Suggestions answer the debounced text; hide them while they're for something else
+  const shownSuggestions: JobSuggestion[] = typed && debouncedText === typed ? suggestions : [];
+  const hasItems = !!typed || recent.length > 0;
+
+  return (
+    <Command shouldFilter={false} loop className={cn('overflow-visible bg-transparent', className)}>
+      <Popover open={open && hasItems} onOpenChange={setOpen}>
+        <PopoverAnchor asChild>
+          <div ref={anchorRef} className="relative w-full">
+            <Search className="absolute left-4 top-1/2 h-5 w-5 -translate-y-1/2 text-muted-foreground" />
+            <CommandPrimitive.Input
+              value={text}
+              onValueChange={(next) => {
+                setText(next);
+                setOpen(true);
+              }}
+              onFocus={() => setOpen(true)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') setOpen(false);
+                // Enter with the list closed still searches
+                if (e.key === 'Enter' && !(open && hasItems)) run(text);
+              }}
+              placeholder="Search by title, company, location or skill..."
+              aria-label="Search jobs"
+              className="flex h-12 w-full rounded-md border border-input bg-background pl-12 pr-10 text-base ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            />
+            {text && (
+              <button
+                type="button"
+                onClick={() => run('')}
+                className="absolute right-3 top-1/2 -translate-y-1/2 rounded-sm p-1 text-muted-foreground hover:text-foreground"
+                aria-label="Clear search"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        </PopoverAnchor>
+
+        <PopoverContent
+          align="start"
+          className="w-[var(--radix-popover-trigger-width)] p-0"
+          // Focus stays in the search field while the list is open
+          onOpenAutoFocus={(e) => e.preventDefault()}
+          onInteractOutside={(e) => {
+            if (anchorRef.current?.contains(e.target as Node)) e.preventDefault();
+          }}
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          <CommandList>
+            {typed && (
+              <CommandGroup>
+                <CommandItem value={`search:${typed}`} onSelect={() => run(typed)}>
+                  <Search className="mr-2 h-4 w-4 text-muted-foreground" />
+                  Search for “{typed}”
+                </CommandItem>
+              </CommandGroup>
+            )}
+
+            {recent.length > 0 && (
+              <CommandGroup
+                heading={
+                  <span className="flex items-center justify-between">
+                    Recent searches
+                    <button type="button" className="font-normal hover:text-foreground" onClick={clearRecentSearches}>
+                      Clear
+                    </button>
+                  </span>
+                }
+              >
+                {recent.map((entry) => (
+                  <CommandItem key={entry} value={`recent:${entry}`} onSelect={() => run(entry)} className="group">
+                    <History className="mr-2 h-4 w-4 text-muted-foreground" />
+                    <span className="flex-1 truncate">{entry}</span>
+                    <button
+                      type="button"
+                      className="ml-2 rounded-sm p-0.5 text-muted-foreground opacity-0 hover:text-foreground group-data-[selected=true]:opacity-100"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeRecentSearch(entry);
+                      }}
+                      aria-label={`Remove “${entry}” from recent searches`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {shownSuggestions.length > 0 && (
+              <CommandGroup heading="Suggestions">
+                {shownSuggestions.map((suggestion) => {
+                  const Icon = SUGGESTION_ICONS[suggestion.type];
+                  return (
+                    <CommandItem
+                      key={`${suggestion.type}:${suggestion.value}`}
+                      value={`${suggestion.type}:${suggestion.value}`}
+                      onSelect={() => run(suggestion.value)}
+                    >
+                      <Icon className="mr-2 h-4 w-4 text-muted-foreground" />
+                      <span className="flex-1 truncate">
+                        <HighlightedText text={suggestion.value} query={typed} />
+                      </span>
+                      <CommandShortcut className="tracking-normal">{SUGGESTION_LABELS[suggestion.type]}</CommandShortcut>
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </PopoverContent>
+      </Popover>
+    </Command>
+  );
+}
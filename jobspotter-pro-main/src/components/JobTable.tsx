@@ -0,0 +1,320 @@
+import { ReactNode, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNowStrict, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { HighlightedText } from '@/components/HighlightedText';
+import { useApplicationStatus } from '@/hooks/use-application-status';
+import { useDisplayCurrency } from '@/hooks/use-display-currency';
+import { useWindowVirtualizer } from '@/hooks/use-window-virtualizer';
+import { toast } from '@/hooks/use-toast';
+import { Job } from '@/lib/api';
+import { EXPERIENCE_LEVEL_OPTIONS, JOB_TYPE_OPTIONS, optionLabel } from '@/lib/jobFilters';
+import { JobColumn, SortDirection, sortJobsByColumn } from '@/lib/jobSort';
+import { formatSalary } from '@/lib/salary';
+import { cn } from '@/lib/utils';
+import { ArrowDown, ArrowUp, ArrowUpDown, Bookmark, BookmarkCheck } from 'lucide-react';
+
+interface JobTableProps {
+  jobs: Job[];
+  isJobSaved: (jobId: string) => boolean;
+  onSave?: (jobId: string) => void;
+  onApply?: (job: Job) => void;
+  // Search text whose matches are marked in the rows
+  highlight?: string;
+  // Set in continuous scroll mode, where `jobs` is everything loaded so far: only the rows
+  // near the screen are rendered, and coming back to the list restores its scroll position
+  restoreKey?: string;
+}
+
+interface ColumnSort {
+  column: JobColumn;
+  direction: SortDirection;
+}
+
+const COLUMNS: { column: JobColumn; label: string; className?: string }[] = [
+  { column: 'title', label: 'Title', className: 'min-w-[200px]' },
+  { column: 'company', label: 'Company' },
+  { column: 'location', label: 'Location' },
+  { column: 'type', label: 'Type' },
+  { column: 'level', label: 'Level' },
+  { column: 'salary', label: 'Salary' },
+  { column: 'posted', label: 'Posted' },
+];
+
+// Salary and date start highest and newest first; text starts A to Z and levels junior first
+const FIRST_DIRECTION: Record<JobColumn, SortDirection> = {
+  title: 'asc',
+  company: 'asc',
+  location: 'asc',
+  type: 'asc',
+  level: 'asc',
+  salary: 'desc',
+  posted: 'desc',
+};
+
+// Row height until the real one is measured
+const ESTIMATED_ROW_HEIGHT = 69;
+
+function postedAgo(dateString: string): string {
+  const date = parseISO(dateString);
+  return isNaN(date.getTime()) ? '—' : formatDistanceToNowStrict(date, { addSuffix: true });
+}
+
+interface JobTableRowProps {
+  job: Job;
+  // Position and ref callback when the row is virtualized
+  index?: number;
+  rowRef?: (element: HTMLTableRowElement | null) => void;
+  isSaved: boolean;
+  onSave?: (jobId: string) => void;
+  onApply?: (job: Job) => void;
+  highlight?: string;
+}
+
+function JobTableRow({ job, index, rowRef, isSaved, onSave, onApply, highlight }: JobTableRowProps) {
+  const { status, isApplied, isLoading } = useApplicationStatus(job.id);
+  const { displayCurrency } = useDisplayCurrency();
+  const salary = formatSalary(job.salary, { displayCurrency });
+  const postedSalary = formatSalary(job.salary);
+  const statusLabel = status.charAt(0).toUpperCase() + status.slice(1);
+
+  // Same rules as JobCard: one application per job
+  const handleApplyClick = () => {
+    if (!onApply || isLoading) return;
+    if (isApplied) {
+      toast({
+        title: 'Already Applied',
+        description: `You have already applied for this job. Current status: ${statusLabel}.`,
+      });
+      return;
+    }
+    onApply(job);
+  };
+
+  return (
+    <TableRow ref={rowRef} data-index={index}>
+      <TableCell className="font-medium">
+        <Link to={`/jobs/${job.id}`} className="text-foreground hover:text-primary hover:underline">
+          <HighlightedText text={job.title} query={highlight} />
+        </Link>
+      </TableCell>
+      <TableCell className="text-muted-foreground">
+        <HighlightedText text={job.company} query={highlight} />
+      </TableCell>
+      <TableCell className="text-muted-foreground">
+        <HighlightedText text={job.location} query={highlight} />
+      </TableCell>
+      <TableCell>
+        <Badge variant="secondary" className="whitespace-nowrap font-normal">
+          {optionLabel(JOB_TYPE_OPTIONS, job.job_type)}
+        </Badge>
+      </TableCell>
+      <TableCell className="whitespace-nowrap text-muted-foreground">
+        {optionLabel(EXPERIENCE_LEVEL_OPTIONS, job.experience_level)}
+      </TableCell>
+      <TableCell className="whitespace-nowrap text-success" title={postedSalary ?? undefined}>
+        {salary ?? <span className="text-muted-foreground">—</span>}
+      </TableCell>
+      <TableCell className="whitespace-nowrap text-muted-foreground">{postedAgo(job.created_at)}</TableCell>
+      <TableCell>
+        <div className="flex items-center justify-end gap-1">
+          {onApply && (
+            <Button
+              size="sm"
+              variant={isApplied ? 'secondary' : 'default'}
+              onClick={handleApplyClick}
+              disabled={isLoading}
+              title={isApplied ? `Applied (${statusLabel})` : undefined}
+            >
+              {isApplied ? 'Applied' : 'Apply'}
+            </Button>
+          )}
+          {onSave && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => onSave(job.id)}
+              disabled={isSaved}
+              aria-label={isSaved ? `${job.title} is saved` : `Save ${job.title}`}
+            >
+              {isSaved ? <BookmarkCheck className="h-4 w-4 text-primary" /> : <Bookmark className="h-4 w-4" />}
+            </Button>
+          )}
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+interface VirtualTableBodyProps {
+  count: number;
+  columnCount: number;
+  restoreKey: string;
+  renderRow: (index: number, rowRef: (element: HTMLTableRowElement | null) => void) => ReactNode;
+}
+
+// Table rows can't be offset with padding, so spacer rows stand in for the ones not rendered
+function VirtualTableBody({ count, columnCount, restoreKey, renderRow }: VirtualTableBodyProps) {
+  const { containerRef, rows, paddingTop, paddingBottom, measureElement } = useWindowVirtualizer<HTMLTableSectionElement>({
+    count,
+    estimateSize: ESTIMATED_ROW_HEIGHT,
+    overscan: 8,
+    restoreKey: `${restoreKey}:table`,
+  });
+
+  return (
+    <TableBody ref={containerRef}>
+      {paddingTop > 0 && (
+        <tr aria-hidden="true" style={{ height: paddingTop }}>
+          <td colSpan={columnCount} className="p-0" />
+        </tr>
+      )}
+      {rows.map(({ index }) => renderRow(index, measureElement))}
+      {paddingBottom > 0 && (
+        <tr aria-hidden="true" style={{ height: paddingBottom }}>
+          <td colSpan={columnCount} className="p-0" />
+        </tr>
+      )}
+    </TableBody>
+  );
+}
+
+// Column widths of a virtualized table. The browser sizes columns to the rows in the DOM,
+// which change while scrolling, so the widths from the first layout are kept (until a resize).
+function useLockedColumnWidths(enabled: boolean, hasRows: boolean) {
+  const headerRefs = useRef<(HTMLTableCellElement | null)[]>([]);
+  const [widths, setWidths] = useState<number[] | null>(null);
+
+  useLayoutEffect(() => {
+    if (enabled && hasRows && !widths) {
+      setWidths(headerRefs.current.map((cell) => cell?.offsetWidth ?? 0));
+    }
+  }, [enabled, hasRows, widths]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const remeasure = () => setWidths(null);
+    window.addEventListener('resize', remeasure);
+    return () => window.removeEventListener('resize', remeasure);
+  }, [enabled]);
+
+  return { headerRefs, widths: enabled ? widths : null };
+}
+
+// Dense view of the Jobs page for scanning many listings. Clicking a header sorts the rows
+// already here by that column; a third click goes back to the list's own order. Column sorts
+// never reach the backend, so a note says so while one is on; the page's Sort menu orders
+// the whole result. In continuous scroll mode (restoreKey set) the body is virtualized
+// like VirtualJobGrid.
+export function JobTable({ jobs, isJobSaved, onSave, onApply, highlight, restoreKey }: JobTableProps) {
+  const [sort, setSort] = useState<ColumnSort | null>(null);
+
+  const rows = useMemo(
+    () => (sort ? sortJobsByColumn(jobs, sort.column, sort.direction) : jobs),
+    [jobs, sort]
+  );
+
+  const toggleSort = (column: JobColumn) => {
+    setSort((current) => {
+      const first = FIRST_DIRECTION[column];
+      if (current?.column !== column) return { column, direction: first };
+      if (current.direction === first) return { column, direction: first === 'asc' ? 'desc' : 'asc' };
+      return null;
+    });
+  };
+
+  const sortedLabel = sort && COLUMNS.find(({ column }) => column === sort.column)?.label;
+  const { headerRefs, widths } = useLockedColumnWidths(!!restoreKey, rows.length > 0);
+
+  const renderRow = (job: Job, index?: number, rowRef?: (element: HTMLTableRowElement | null) => void) => (
+    <JobTableRow
+      key={job.id}
+      job={job}
+      index={index}
+      rowRef={rowRef}
+      isSaved={isJobSaved(job.id)}
+      onSave={onSave}
+      onApply={onApply}
+      highlight={highlight}
+    />
+  );
+
+  return (
+    <div className="rounded-xl border border-border bg-card shadow-card">
+      {sortedLabel && (
+        <div
+          role="status"
+          className="flex flex-wrap items-center justify-between gap-2 border-b border-border px-4 py-2 text-sm text-muted-foreground"
+        >
+          <span>
+            Sorted by {sortedLabel} within the {jobs.length} {jobs.length === 1 ? 'job' : 'jobs'}{' '}
+            {restoreKey ? 'loaded so far' : 'on this page'}. Use the sort menu to order all results.
+          </span>
+          <Button variant="ghost" size="sm" className="h-7" onClick={() => setSort(null)}>
+            Clear
+          </Button>
+        </div>
+      )}
+      <Table className={cn(widths && 'table-fixed')}>
+        {widths && (
+          <colgroup>
+            {widths.map((width, i) => (
+              <col key={i} style={{ width }} />
+            ))}
+          </colgroup>
+        )}
+        <TableHeader>
+          <TableRow className="hover:bg-transparent">
+            {COLUMNS.map(({ column, label, className }, i) => {
+              const direction = sort?.column === column ? sort.direction : undefined;
+              const Icon = direction === 'asc' ? ArrowUp : direction === 'desc' ? ArrowDown : ArrowUpDown;
+              return (
+                <TableHead
+                  key={column}
+                  ref={(cell) => {
+                    headerRefs.current[i] = cell;
+                  }}
+                  className={className}
+                  aria-sort={direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : 'none'}
+                >
+                  <button
+                    type="button"
+                    onClick={() => toggleSort(column)}
+                    title={`Sort the jobs shown here by ${label.toLowerCase()}`}
+                    className={cn(
+                      '-ml-2 inline-flex items-center gap-1 whitespace-nowrap rounded px-2 py-1 transition-colors hover:bg-secondary hover:text-foreground',
+                      direction && 'text-foreground'
+                    )}
+                  >
+                    {label}
+                    <Icon className={cn('h-3.5 w-3.5', !direction && 'opacity-50')} />
+                  </button>
+                </TableHead>
+              );
+            })}
+            <TableHead
+              ref={(cell) => {
+                headerRefs.current[COLUMNS.length] = cell;
+              }}
+            >
+              <span className="sr-only">Actions</span>
+            </TableHead>
+          </TableRow>
+        </TableHeader>
+        {restoreKey ? (
+          <VirtualTableBody
+            count={rows.length}
+            columnCount={COLUMNS.length + 1}
+            restoreKey={restoreKey}
+            renderRow={(index, rowRef) => renderRow(rows[index], index, rowRef)}
+          />
+        ) : (
+          <TableBody>{rows.map((job) => renderRow(job))}</TableBody>
+        )}
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+
+interface LoadMoreFooterProps {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  // The last attempt to load more failed; loading stops until the user retries
+  loadMoreFailed: boolean;
+  fetchNextPage: () => void;
+  // Changes whenever more items are shown, so the end is checked for again
+  itemCount: number;
+}
+
+// Start loading the next page this far before the end of the list comes into view
+const PREFETCH_MARGIN = '800px';
+
+// End of a list that keeps loading as you scroll. Also offers a button, for keyboards
+// and for retrying after a failed load.
+export function LoadMoreFooter({
+  hasNextPage,
+  isFetchingNextPage,
+  loadMoreFailed,
+  fetchNextPage,
+  itemCount,
+}: LoadMoreFooterProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const canAutoLoad = hasNextPage && !isFetchingNextPage && !loadMoreFailed;
+  const fetchNextPageRef = useRef(fetchNextPage);
+  fetchNextPageRef.current = fetchNextPage;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !canAutoLoad) return;
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) fetchNextPageRef.current();
+      },
+      { rootMargin: `0px 0px ${PREFETCH_MARGIN} 0px` }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [canAutoLoad, itemCount]);
+
+  return (
+    <>
+      <div ref={sentinelRef} aria-hidden />
+
+      <div className="mt-6 flex flex-col items-center gap-2 text-sm text-muted-foreground">
+        {loadMoreFailed ? (
+          <>
+            <p>Couldn't load more jobs.</p>
+            <Button variant="outline" onClick={fetchNextPage}>
+              Try again
+            </Button>
+          </>
+        ) : hasNextPage ? (
+          <Button variant="outline" onClick={fetchNextPage} disabled={isFetchingNextPage}>
+            {isFetchingNextPage && <Loader2 className="h-4 w-4 animate-spin" />}
+            {isFetchingNextPage ? 'Loading...' : 'Load more jobs'}
+          </Button>
+        ) : (
+          <p>You've reached the end of the list.</p>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,106 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { LoadingState } from '@/components/LoadingState';
+import {
+  useNotificationPreferencesQuery,
+  useUpdateNotificationPreferencesMutation,
+} from '@/hooks/use-api-queries';
+import { useAuth, UserRole } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { NotificationPreferences } from '@/lib/api';
+import { ApiError, describeApiError } from '@/lib/errors';
+import { Bell } from 'lucide-react';
+
+type PreferenceKey = keyof NotificationPreferences;
+
+const PREFERENCES: Record<UserRole, { key: PreferenceKey; label: string; description: string }[]> = {
+  candidate: [
+    {
+      key: 'application_updates',
+      label: 'Application updates',
+      description: 'When a recruiter shortlists, interviews or responds to one of your applications.',
+    },
+    {
+      key: 'job_recommendations',
+      label: 'Job recommendations',
+      description: 'New jobs that match the roles you have applied for.',
+    },
+    { key: 'product_news', label: 'Product news', description: 'Occasional announcements about new features.' },
+  ],
+  recruiter: [
+    {
+      key: 'application_updates',
+      label: 'New applications',
+      description: 'When a candidate applies to or updates an application for one of your jobs.',
+    },
+    {
+      key: 'job_recommendations',
+      label: 'Candidate recommendations',
+      description: 'Candidates whose applications match the jobs you have posted.',
+    },
+    { key: 'product_news', label: 'Product news', description: 'Occasional announcements about new features.' },
+  ],
+};
+
+// Email notification section of the account page. Each switch saves on its own.
+export function NotificationSettings() {
+  const { role } = useAuth();
+  const { data: preferences, isLoading, error, refetch } = useNotificationPreferencesQuery();
+  const updatePreferences = useUpdateNotificationPreferencesMutation();
+
+  const handleToggle = (key: PreferenceKey, enabled: boolean) => {
+    if (!preferences) return;
+    updatePreferences.mutate(
+      { ...preferences, [key]: enabled },
+      {
+        onError: (err) => {
+          const apiError = err instanceof ApiError ? err : new ApiError('Failed to save your preferences.');
+          toast({ ...describeApiError(apiError), variant: 'destructive' });
+        },
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Bell className="h-5 w-5 text-primary" />
+          Email notifications
+        </CardTitle>
+        <CardDescription>Choose which emails we send you. Security emails are always sent.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <LoadingState message="Loading your preferences..." />
+        ) : error || !preferences ? (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-destructive">Could not load your notification preferences.</p>
+            <Button variant="outline" size="sm" onClick={() => refetch()}>
+              Try again
+            </Button>
+          </div>
+        ) : (
+          <div className="divide-y divide-border">
+            {PREFERENCES[role ?? 'candidate'].map(({ key, label, description }) => (
+              <div key={key} className="flex items-center justify-between gap-4 py-3 first:pt-0 last:pb-0">
+                <div className="space-y-1">
+                  <Label htmlFor={`notify-${key}`}>{label}</Label>
+                  <p className="text-sm text-muted-foreground">{description}</p>
+                </div>
+                <Switch
+                  id={`notify-${key}`}
+                  checked={preferences[key]}
+                  onCheckedChange={(checked) => handleToggle(key, checked)}
+                  disabled={updatePreferences.isPending}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
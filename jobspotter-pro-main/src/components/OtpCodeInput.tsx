@@ -0,0 +1,43 @@
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from '@/components/ui/input-otp';
+
+interface OtpCodeInputProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  // Called once all six digits are in, e.g. to submit without an extra click
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+  autoFocus?: boolean;
+}
+
+export const OTP_LENGTH = 6;
+
+// Six-digit authenticator code, split 3 + 3 the way authenticator apps show it
+export function OtpCodeInput({ id, value, onChange, onComplete, disabled, autoFocus }: OtpCodeInputProps) {
+  return (
+    <InputOTP
+      id={id}
+      maxLength={OTP_LENGTH}
+      pattern={REGEXP_ONLY_DIGITS}
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      autoFocus={autoFocus}
+      autoComplete="one-time-code"
+    >
+      <InputOTPGroup>
+        <InputOTPSlot index={0} />
+        <InputOTPSlot index={1} />
+        <InputOTPSlot index={2} />
+      </InputOTPGroup>
+      <InputOTPSeparator />
+      <InputOTPGroup>
+        <InputOTPSlot index={3} />
+        <InputOTPSlot index={4} />
+        <InputOTPSlot index={5} />
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
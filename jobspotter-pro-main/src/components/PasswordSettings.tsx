@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ReauthFields } from '@/components/ReauthFields';
+import { useChangePasswordMutation } from '@/hooks/use-api-queries';
+import { toast } from '@/hooks/use-toast';
+import { Reauthentication } from '@/lib/api';
+import { ApiError, describeApiError, FieldErrors } from '@/lib/errors';
+import { KeyRound, Loader2 } from 'lucide-react';
+
+// Password section of the account page
+export function PasswordSettings() {
+  const changePassword = useChangePasswordMutation();
+
+  const [reauth, setReauth] = useState<Reauthentication>({ current_password: '' });
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword !== confirmPassword) {
+      setFieldErrors({ confirm_password: 'Passwords do not match.' });
+      return;
+    }
+    setFieldErrors({});
+
+    try {
+      await changePassword.mutateAsync({ reauth, newPassword });
+      setReauth({ current_password: '' });
+      setNewPassword('');
+      setConfirmPassword('');
+      toast({ title: 'Password changed', description: 'Use your new password next time you sign in.' });
+    } catch (err) {
+      const apiError = err instanceof ApiError ? err : new ApiError('Failed to change your password.');
+      setFieldErrors(apiError.fieldErrors);
+      if (!apiError.hasFieldErrors) {
+        toast({ ...describeApiError(apiError), variant: 'destructive' });
+      }
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <KeyRound className="h-5 w-5 text-primary" />
+          Password
+        </CardTitle>
+        <CardDescription>Use at least 6 characters. You stay signed in on this device.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <ReauthFields id="password" value={reauth} onChange={setReauth} fieldErrors={fieldErrors} />
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="newPassword">New password</Label>
+              <Input
+                id="newPassword"
+                type="password"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                required
+              />
+              {fieldErrors.new_password && <p className="text-xs text-destructive">{fieldErrors.new_password}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">Confirm new password</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+              />
+              {fieldErrors.confirm_password && (
+                <p className="text-xs text-destructive">{fieldErrors.confirm_password}</p>
+              )}
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              disabled={!reauth.current_password || !newPassword || !confirmPassword || changePassword.isPending}
+            >
+              {changePassword.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Change password
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask, TextLayer } from 'pdfjs-dist';
+import { LoadingState } from '@/components/LoadingState';
+import { ErrorBanner } from '@/components/ErrorBanner';
+import { loadPdfJs } from '@/lib/pdf';
+import { findMatchOffsets } from '@/lib/resumeDocument';
+
+interface PdfResumeViewProps {
+  data: Uint8Array;
+  // 1 = page fits the panel width
+  zoom: number;
+  // 1-based
+  page: number;
+  query: string;
+  onPageCount: (count: number) => void;
+  // The page of every search match, in document order
+  onMatchPages: (pages: number[]) => void;
+}
+
+// Renders one page of a PDF at a time: a canvas for the page itself and pdf.js' text
+// layer on top, so text can be selected and search matches highlighted.
+export function PdfResumeView({ data, zoom, page, query, onPageCount, onMatchPages }: PdfResumeViewProps) {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageTexts, setPageTexts] = useState<string[]>([]);
+  const [failed, setFailed] = useState(false);
+  const [width, setWidth] = useState(0);
+  // Bumped after each page render so highlights are reapplied to the new text layer
+  const [renderCount, setRenderCount] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+
+  // Open the document and collect each page's text for search
+  useEffect(() => {
+    let cancelled = false;
+    let opened: PDFDocumentProxy | null = null;
+    setPdf(null);
+    setPageTexts([]);
+    setFailed(false);
+
+    (async () => {
+      const pdfjs = await loadPdfJs();
+      // pdf.js hands the buffer to its worker, which would leave the cached document empty
+      opened = await pdfjs.getDocument({ data: data.slice() }).promise;
+      if (cancelled) return;
+      setPdf(opened);
+      onPageCount(opened.numPages);
+
+      const texts: string[] = [];
+      for (let number = 1; number <= opened.numPages; number++) {
+        const content = await (await opened.getPage(number)).getTextContent();
+        texts.push(content.items.map((item) => ('str' in item ? item.str : '')).join(' '));
+      }
+      if (!cancelled) setPageTexts(texts);
+    })().catch((error) => {
+      if (!cancelled) {
+        console.error('Could not open the PDF.', error);
+        setFailed(true);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      opened?.destroy();
+    };
+  }, [data, onPageCount]);
+
+  // Fit-to-width follows the panel as it is resized
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.floor(entry.contentRect.width)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Draw the current page
+  useEffect(() => {
+    if (!pdf || !width) return;
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    let textLayer: TextLayer | null = null;
+
+    (async () => {
+      const pdfjs = await loadPdfJs();
+      const pdfPage = await pdf.getPage(Math.min(page, pdf.numPages));
+      const canvas = canvasRef.current;
+      const layer = textLayerRef.current;
+      if (cancelled || !canvas || !layer) return;
+
+      const viewport = pdfPage.getViewport({ scale: (width / pdfPage.getViewport({ scale: 1 }).width) * zoom });
+      // Sharp on high-density screens
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      canvas.style.width = `${Math.floor(viewport.width)}px`;
+      canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+      renderTask = pdfPage.render({
+        canvasContext: canvas.getContext('2d')!,
+        viewport,
+        transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined,
+      });
+
+      layer.replaceChildren();
+      layer.style.setProperty('--scale-factor', String(viewport.scale));
+      textLayer = new pdfjs.TextLayer({ textContentSource: pdfPage.streamTextContent(), container: layer, viewport });
+
+      await Promise.all([renderTask.promise, textLayer.render()]);
+      if (!cancelled) setRenderCount((count) => count + 1);
+    })().catch((error) => {
+      // Zooming or paging cancels the render in progress
+      if (error?.name !== 'RenderingCancelledException' && !cancelled) {
+        console.error('Could not render the PDF page.', error);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayer?.cancel();
+    };
+  }, [pdf, page, zoom, width]);
+
+  const matchPages = useMemo(
+    () => pageTexts.flatMap((text, index) => findMatchOffsets(text, query).map(() => index + 1)),
+    [pageTexts, query]
+  );
+
+  useEffect(() => {
+    onMatchPages(matchPages);
+  }, [matchPages, onMatchPages]);
+
+  // Highlight the text layer spans containing the query and bring the first into view
+  useEffect(() => {
+    const layer = textLayerRef.current;
+    if (!layer) return;
+    const needle = query.trim().toLowerCase();
+    let first: Element | null = null;
+    layer.querySelectorAll('span').forEach((span) => {
+      const matches = !!needle && (span.textContent ?? '').toLowerCase().includes(needle);
+      span.classList.toggle('resume-search-match', matches);
+      if (matches) first ??= span;
+    });
+    first?.scrollIntoView({ block: 'center' });
+  }, [query, renderCount]);
+
+  if (failed) {
+    return <ErrorBanner message="This PDF could not be opened. Try opening it in a new tab instead." />;
+  }
+
+  return (
+    <div ref={containerRef} className="w-full">
+      {!pdf && <LoadingState message="Opening resume..." />}
+      <div className={pdf ? 'relative mx-auto w-fit bg-white shadow-card' : 'hidden'}>
+        <canvas ref={canvasRef} className="block" />
+        <div ref={textLayerRef} className="textLayer" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useUpdateProfileNameMutation } from '@/hooks/use-api-queries';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { ApiError, describeApiError, FieldErrors } from '@/lib/errors';
+import { Loader2, UserRound } from 'lucide-react';
+
+// Profile section of the account page: the name shown to recruiters and on applications
+export function ProfileSettings() {
+  const { user, role, reloadUser } = useAuth();
+  const updateName = useUpdateProfileNameMutation();
+
+  const [firstName, setFirstName] = useState(user?.first_name ?? '');
+  const [lastName, setLastName] = useState(user?.last_name ?? '');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  // Follow the session when the name changes elsewhere (another tab, reloadUser)
+  useEffect(() => {
+    setFirstName(user?.first_name ?? '');
+    setLastName(user?.last_name ?? '');
+  }, [user?.first_name, user?.last_name]);
+
+  const changed = firstName.trim() !== (user?.first_name ?? '') || lastName.trim() !== (user?.last_name ?? '');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFieldErrors({});
+
+    try {
+      await updateName.mutateAsync({ firstName: firstName.trim(), lastName: lastName.trim() });
+      await reloadUser();
+      toast({ title: 'Profile updated', description: 'Your name has been saved.' });
+    } catch (err) {
+      const apiError = err instanceof ApiError ? err : new ApiError('Failed to update your profile.');
+      setFieldErrors(apiError.fieldErrors);
+      if (!apiError.hasFieldErrors) {
+        toast({ ...describeApiError(apiError), variant: 'destructive' });
+      }
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <UserRound className="h-5 w-5 text-primary" />
+            Profile
+          </CardTitle>
+          {role && <Badge variant="secondary" className="capitalize">{role}</Badge>}
+        </div>
+        <CardDescription>
+          {role === 'recruiter'
+            ? 'Your name is shown to candidates on the jobs you post.'
+            : 'Your name is shown to recruiters on your applications.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="profileFirstName">First name</Label>
+              <Input
+                id="profileFirstName"
+                autoComplete="given-name"
+                value={firstName}
+                onChange={(e) => setFirstName(e.target.value)}
+                required
+              />
+              {fieldErrors.first_name && <p className="text-xs text-destructive">{fieldErrors.first_name}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profileLastName">Last name</Label>
+              <Input
+                id="profileLastName"
+                autoComplete="family-name"
+                value={lastName}
+                onChange={(e) => setLastName(e.target.value)}
+                required
+              />
+              {fieldErrors.last_name && <p className="text-xs text-destructive">{fieldErrors.last_name}</p>}
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={!changed || !firstName.trim() || !lastName.trim() || updateName.isPending}>
+              {updateName.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save name
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
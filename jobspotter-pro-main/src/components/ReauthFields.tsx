@@ -0,0 +1,50 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Reauthentication } from '@/lib/api';
+import { FieldErrors } from '@/lib/errors';
+import { useAuth } from '@/hooks/useAuth';
+
+interface ReauthFieldsProps {
+  // Prefix for input ids, so several forms on one page don't clash
+  id: string;
+  value: Reauthentication;
+  onChange: (value: Reauthentication) => void;
+  fieldErrors: FieldErrors;
+}
+
+// "Confirm it's you" inputs for sensitive account changes: the current password,
+// plus an authenticator or backup code when two-factor authentication is on
+export function ReauthFields({ id, value, onChange, fieldErrors }: ReauthFieldsProps) {
+  const { user } = useAuth();
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-current-password`}>Current password</Label>
+        <Input
+          id={`${id}-current-password`}
+          type="password"
+          autoComplete="current-password"
+          value={value.current_password}
+          onChange={(e) => onChange({ ...value, current_password: e.target.value })}
+          required
+        />
+        {fieldErrors.current_password && <p className="text-xs text-destructive">{fieldErrors.current_password}</p>}
+      </div>
+      {user?.two_factor_enabled && (
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-code`}>Authenticator or backup code</Label>
+          <Input
+            id={`${id}-code`}
+            autoComplete="one-time-code"
+            placeholder="123456"
+            value={value.code ?? ''}
+            onChange={(e) => onChange({ ...value, code: e.target.value })}
+            required
+          />
+          {fieldErrors.code && <p className="text-xs text-destructive">{fieldErrors.code}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { Header } from '@/components/Header';
+import { LoadingState } from '@/components/LoadingState';
+import { useAuth, UserRole } from '@/hooks/useAuth';
+
+interface RequireAuthProps {
+  // Leave out to allow any signed-in user
+  role?: UserRole;
+}
+
+// Where each role lands when it opens a page meant for the other one
+const ROLE_HOME: Record<UserRole, string> = {
+  candidate: '/jobs',
+  recruiter: '/recruiter/dashboard',
+};
+
+/**
+ * Layout route that guards its child routes (see App.tsx). Nothing protected renders until
+ * the session is known, so pages can assume a signed-in user with the right role.
+ * Signed-out visitors go to /auth, which sends them back to the requested URL afterwards.
+ */
+export function RequireAuth({ role }: RequireAuthProps) {
+  const { user, role: userRole, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container py-8">
+          <LoadingState message="Checking your session..." />
+        </main>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace state={{ from: location }} />;
+  }
+
+  if (role && userRole !== role) {
+    return <Navigate to={userRole ? ROLE_HOME[userRole] : '/'} replace />;
+  }
+
+  return <Outlet />;
+}
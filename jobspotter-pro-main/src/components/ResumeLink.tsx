@@ -0,0 +1,90 @@
+import { MouseEvent, ReactNode, useEffect, useState } from 'react';
+import { isLocalFileReference, isStoredFileReference, resolveFileUrl } from '@/lib/storage';
+import { cn } from '@/lib/utils';
+
+interface ResumeLinkProps {
+  // resume_url as stored: an uploaded file reference or a pasted link
+  reference: string;
+  className?: string;
+  children: ReactNode;
+}
+
+// Opens a resume in a new tab. Files from the local storage stand-in only have a URL
+// once they are read back from IndexedDB, so the href is filled in after mount. Files in
+// Supabase storage get a signed URL when clicked, since those stop working after a few minutes.
+export function ResumeLink({ reference, className, children }: ResumeLinkProps) {
+  const local = isLocalFileReference(reference);
+  const stored = isStoredFileReference(reference);
+  const [href, setHref] = useState<string | null>(local || stored ? null : reference);
+  const [missing, setMissing] = useState(false);
+  const [opening, setOpening] = useState(false);
+
+  useEffect(() => {
+    setMissing(false);
+    if (!isLocalFileReference(reference)) {
+      setHref(isStoredFileReference(reference) ? null : reference);
+      return;
+    }
+    let cancelled = false;
+    setHref(null);
+    resolveFileUrl(reference)
+      .then((url) => !cancelled && setHref(url))
+      .catch(() => !cancelled && setMissing(true));
+    return () => {
+      cancelled = true;
+    };
+  }, [reference]);
+
+  const openStored = async (event: MouseEvent<HTMLAnchorElement>) => {
+    event.preventDefault();
+    // Opened before the await so the popup blocker sees it come from the click
+    const tab = window.open('about:blank', '_blank');
+    if (tab) tab.opener = null;
+    setOpening(true);
+    try {
+      const url = await resolveFileUrl(reference);
+      if (tab) tab.location.href = url;
+      else window.location.assign(url);
+    } catch {
+      tab?.close();
+      setMissing(true);
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  if (missing) {
+    return (
+      <span
+        className={cn('text-muted-foreground', className)}
+        title={stored ? "You don't have access to this file, or it was removed" : 'This file was uploaded in another browser'}
+      >
+        {children} {stored ? '(unavailable)' : '(not available in this browser)'}
+      </span>
+    );
+  }
+
+  if (stored) {
+    return (
+      <a
+        href="#"
+        onClick={openStored}
+        aria-busy={opening}
+        className={cn('text-primary hover:underline', opening && 'pointer-events-none opacity-60', className)}
+      >
+        {children}
+      </a>
+    );
+  }
+
+  return (
+    <a
+      href={href ?? undefined}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={cn('text-primary hover:underline', !href && 'pointer-events-none opacity-60', className)}
+    >
+      {children}
+    </a>
+  );
+}
@@ -0,0 +1,200 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { ResumeLink } from '@/components/ResumeLink';
+import { useAuth } from '@/hooks/useAuth';
+import { ApiError } from '@/lib/errors';
+import {
+  MAX_RESUME_SIZE_BYTES,
+  RESUME_ACCEPT,
+  fileNameFromReference,
+  formatFileSize,
+  uploadResume,
+  validateResumeFile,
+} from '@/lib/storage';
+import { cn } from '@/lib/utils';
+import { FileText, Link as LinkIcon, Loader2, UploadCloud, X } from 'lucide-react';
+
+interface ResumeUploadProps {
+  id: string;
+  // The stored reference (uploaded file or pasted link); empty when there's no resume
+  value: string;
+  onChange: (reference: string) => void;
+  // Lets the surrounding form hold its submit button until the file is stored
+  onUploadingChange?: (uploading: boolean) => void;
+}
+
+interface UploadState {
+  name: string;
+  size: number;
+  percent: number;
+}
+
+// Drag-and-drop PDF/DOCX upload through the storage adapter (lib/storage.ts).
+// A pasted link still works, for resumes that already live on Drive or Dropbox.
+export function ResumeUpload({ id, value, onChange, onUploadingChange }: ResumeUploadProps) {
+  const { user } = useAuth();
+  const [dragging, setDragging] = useState(false);
+  const [upload, setUpload] = useState<UploadState | null>(null);
+  const [problem, setProblem] = useState('');
+  const [pasting, setPasting] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the dialog mid-upload cancels it
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const startUpload = async (file: File) => {
+    const invalid = validateResumeFile(file);
+    if (invalid) {
+      setProblem(invalid);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProblem('');
+    setUpload({ name: file.name, size: file.size, percent: 0 });
+    onUploadingChange?.(true);
+
+    try {
+      const reference = await uploadResume(file, user?.id ?? 'anonymous', {
+        signal: controller.signal,
+        onProgress: (fraction) =>
+          setUpload((current) => current && { ...current, percent: Math.round(fraction * 100) }),
+      });
+      setPasting(false);
+      onChange(reference);
+    } catch (err) {
+      if (!(err instanceof ApiError && err.code === 'aborted')) {
+        setProblem(err instanceof ApiError && !err.isNetworkError
+          ? err.message
+          : 'The upload failed. Check your connection and try again.');
+      }
+    } finally {
+      abortRef.current = null;
+      setUpload(null);
+      onUploadingChange?.(false);
+    }
+  };
+
+  const handleFiles = (files: FileList | null) => {
+    const file = files?.[0];
+    if (file) startUpload(file);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    handleFiles(e.dataTransfer.files);
+  };
+
+  const fileInput = (
+    <input
+      ref={inputRef}
+      id={id}
+      type="file"
+      accept={RESUME_ACCEPT}
+      className="sr-only"
+      onChange={(e) => {
+        handleFiles(e.target.files);
+        // Picking the same file again should still trigger a change
+        e.target.value = '';
+      }}
+    />
+  );
+
+  if (upload) {
+    return (
+      <div className="space-y-2 rounded-lg border border-border p-4">
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="flex min-w-0 items-center gap-2">
+            <Loader2 className="h-4 w-4 shrink-0 animate-spin text-primary" />
+            <span className="truncate">{upload.name}</span>
+          </span>
+          <Button type="button" variant="ghost" size="sm" onClick={() => abortRef.current?.abort()}>
+            Cancel
+          </Button>
+        </div>
+        <Progress value={upload.percent} className="h-2" aria-label="Upload progress" />
+        <p className="text-xs text-muted-foreground">
+          {upload.percent}% of {formatFileSize(upload.size)}
+        </p>
+      </div>
+    );
+  }
+
+  if (value && !pasting) {
+    const fileName = fileNameFromReference(value);
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2 rounded-lg border border-border p-3">
+          <span className="flex min-w-0 items-center gap-2 text-sm">
+            {fileName ? <FileText className="h-4 w-4 shrink-0 text-primary" /> : <LinkIcon className="h-4 w-4 shrink-0 text-primary" />}
+            <ResumeLink reference={value} className="truncate">
+              {fileName || value}
+            </ResumeLink>
+          </span>
+          <div className="flex shrink-0 gap-1">
+            <Button type="button" variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+              Replace
+            </Button>
+            <Button type="button" variant="ghost" size="icon" onClick={() => onChange('')} aria-label="Remove resume">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        {fileInput}
+        {problem && <p className="text-xs text-destructive">{problem}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {pasting ? (
+        <Input
+          id={`${id}-link`}
+          type="url"
+          placeholder="https://drive.google.com/your-resume.pdf"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          autoFocus
+        />
+      ) : (
+        <label
+          htmlFor={id}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={handleDrop}
+          className={cn(
+            'flex cursor-pointer flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-6 text-center transition-colors',
+            dragging ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50'
+          )}
+        >
+          <UploadCloud className="h-8 w-8 text-muted-foreground" />
+          <span className="text-sm font-medium text-foreground">Drop your resume here or click to browse</span>
+          <span className="text-xs text-muted-foreground">
+            PDF or Word (.docx), up to {formatFileSize(MAX_RESUME_SIZE_BYTES)}
+          </span>
+        </label>
+      )}
+      {fileInput}
+      {problem && <p className="text-xs text-destructive">{problem}</p>}
+      <button
+        type="button"
+        className="text-xs text-primary hover:underline"
+        onClick={() => {
+          setPasting(!pasting);
+          setProblem('');
+        }}
+      >
+        {pasting ? 'Upload a file instead' : 'Or paste a link to your resume'}
+      </button>
+    </div>
+  );
+}
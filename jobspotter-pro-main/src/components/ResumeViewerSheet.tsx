@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ErrorBanner } from '@/components/ErrorBanner';
+import { LoadingState } from '@/components/LoadingState';
+import { PdfResumeView } from '@/components/PdfResumeView';
+import { TextResumeView } from '@/components/TextResumeView';
+import { ResumeLink } from '@/components/ResumeLink';
+import { useResumeDocument } from '@/hooks/use-resume-document';
+import { ApiError } from '@/lib/errors';
+import { fileNameFromReference } from '@/lib/storage';
+import {
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+  ExternalLink,
+  FileQuestion,
+  Search,
+  ZoomIn,
+  ZoomOut,
+} from 'lucide-react';
+
+interface ResumeViewerSheetProps {
+  // Loaded only while open
+  reference: string | null;
+  candidateName?: string;
+  onClose: () => void;
+}
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 3;
+const ZOOM_STEP = 0.25;
+
+// Side panel recruiters read resumes in without leaving the applications list.
+// PDFs and plain text render inline with zoom, paging and search; other files link out.
+export function ResumeViewerSheet({ reference, candidateName, onClose }: ResumeViewerSheetProps) {
+  const { data: resume, isLoading, error, refetch } = useResumeDocument(reference);
+  const [zoom, setZoom] = useState(1);
+  const [page, setPage] = useState(1);
+  const [pageCount, setPageCount] = useState(1);
+  const [query, setQuery] = useState('');
+  const [matchPages, setMatchPages] = useState<number[]>([]);
+  const [activeMatch, setActiveMatch] = useState(0);
+
+  // Each resume opens at the first page, fitted to the panel
+  useEffect(() => {
+    setZoom(1);
+    setPage(1);
+    setPageCount(1);
+    setQuery('');
+    setMatchPages([]);
+  }, [reference]);
+
+  useEffect(() => {
+    setActiveMatch(0);
+  }, [query]);
+
+  // Stepping through matches turns to the page they're on
+  useEffect(() => {
+    if (matchPages.length > 0) setPage(matchPages[Math.min(activeMatch, matchPages.length - 1)]);
+  }, [activeMatch, matchPages]);
+
+  const stepMatch = (direction: 1 | -1) => {
+    if (matchPages.length === 0) return;
+    setActiveMatch((current) => (current + direction + matchPages.length) % matchPages.length);
+  };
+
+  const changeZoom = (delta: number) =>
+    setZoom((current) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current + delta)));
+
+  const inline = resume?.kind === 'pdf' || resume?.kind === 'text';
+  const fileName = reference ? fileNameFromReference(reference) : null;
+
+  return (
+    <Sheet open={!!reference} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="flex w-full flex-col gap-4 sm:max-w-3xl">
+        <SheetHeader>
+          <SheetTitle className="font-display text-xl">{candidateName ? `${candidateName}'s resume` : 'Resume'}</SheetTitle>
+          <SheetDescription className="flex items-center gap-2">
+            <span className="truncate">{fileName || 'Linked resume'}</span>
+            {reference && (
+              <ResumeLink reference={reference} className="flex shrink-0 items-center gap-1 text-xs">
+                Open in new tab
+                <ExternalLink className="h-3 w-3" />
+              </ResumeLink>
+            )}
+          </SheetDescription>
+        </SheetHeader>
+
+        {inline && (
+          <div className="flex flex-wrap items-center gap-2 border-b border-border pb-3">
+            <div className="relative min-w-[12rem] flex-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                type="search"
+                placeholder="Search resume"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    stepMatch(e.shiftKey ? -1 : 1);
+                  }
+                }}
+                className="h-9 pl-9"
+                aria-label="Search resume"
+              />
+            </div>
+            {query.trim() && (
+              <div className="flex items-center gap-1">
+                <span className="min-w-[4.5rem] text-center text-xs text-muted-foreground" aria-live="polite">
+                  {matchPages.length > 0 ? `${activeMatch + 1} of ${matchPages.length}` : 'No matches'}
+                </span>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => stepMatch(-1)} disabled={matchPages.length === 0} aria-label="Previous match">
+                  <ChevronUp className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => stepMatch(1)} disabled={matchPages.length === 0} aria-label="Next match">
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
+            {resume?.kind === 'pdf' && pageCount > 1 && (
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setPage(page - 1)} disabled={page <= 1} aria-label="Previous page">
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-xs text-muted-foreground">
+                  Page {page} of {pageCount}
+                </span>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setPage(page + 1)} disabled={page >= pageCount} aria-label="Next page">
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => changeZoom(-ZOOM_STEP)} disabled={zoom <= MIN_ZOOM} aria-label="Zoom out">
+                <ZoomOut className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" className="h-8 min-w-[3.5rem] px-2 text-xs" onClick={() => setZoom(1)} title="Fit to width">
+                {Math.round(zoom * 100)}%
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => changeZoom(ZOOM_STEP)} disabled={zoom >= MAX_ZOOM} aria-label="Zoom in">
+                <ZoomIn className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="min-h-0 flex-1 overflow-auto rounded-lg bg-muted/50 p-4">
+          {isLoading ? (
+            <LoadingState message="Loading resume..." />
+          ) : error ? (
+            <ErrorBanner error={error instanceof ApiError ? error : ApiError.from(error)} onRetry={() => refetch()} />
+          ) : resume?.kind === 'pdf' ? (
+            <PdfResumeView
+              data={resume.data}
+              zoom={zoom}
+              page={page}
+              query={query}
+              onPageCount={setPageCount}
+              onMatchPages={setMatchPages}
+            />
+          ) : resume?.kind === 'text' ? (
+            <TextResumeView
+              text={resume.text}
+              zoom={zoom}
+              query={query}
+              activeMatch={activeMatch}
+              onMatchPages={setMatchPages}
+            />
+          ) : resume ? (
+            <div className="flex flex-col items-center gap-3 py-16 text-center">
+              <FileQuestion className="h-10 w-10 text-muted-foreground" />
+              <p className="max-w-sm text-sm text-muted-foreground">{resume.reason}</p>
+              <Button asChild variant="outline" size="sm">
+                <a href={resume.url} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink className="h-4 w-4" />
+                  Open in new tab
+                </a>
+              </Button>
+            </div>
+          ) : null}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useOpenSavedSearch, useSavedSearchAlerts } from '@/hooks/use-saved-search-alerts';
+import { describeJobFilters } from '@/lib/jobFilters';
+import { cn } from '@/lib/utils';
+import { Bell, ChevronRight } from 'lucide-react';
+
+// Bell in the Header with the number of new jobs across the candidate's saved searches
+export function SavedSearchAlerts({ className }: { className?: string }) {
+  const [open, setOpen] = useState(false);
+  const { searches, alerting, newJobCount } = useSavedSearchAlerts();
+  const openSearch = useOpenSavedSearch();
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('relative', className)}
+          aria-label={newJobCount > 0 ? `${newJobCount} new jobs for your saved searches` : 'Saved search alerts'}
+        >
+          <Bell className="h-5 w-5" />
+          {newJobCount > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-5 min-w-5 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-semibold tabular-nums text-primary-foreground">
+              {newJobCount > 99 ? '99+' : newJobCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="border-b border-border px-4 py-3">
+          <p className="text-sm font-semibold text-foreground">Saved search alerts</p>
+        </div>
+
+        {alerting.length > 0 ? (
+          <ul className="max-h-80 overflow-y-auto py-1">
+            {alerting.map((search) => (
+              <li key={search.id}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setOpen(false);
+                    openSearch(search);
+                  }}
+                  className="flex w-full items-center gap-3 px-4 py-2.5 text-left transition-colors hover:bg-secondary"
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium text-foreground">{search.name}</p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {describeJobFilters(search.filters).join(' · ') || 'All jobs'}
+                    </p>
+                  </div>
+                  <span className="shrink-0 rounded-full bg-primary/10 px-2 py-0.5 text-xs font-medium text-primary">
+                    {search.new_job_count} new
+                  </span>
+                  <ChevronRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">
+            {searches.length > 0
+              ? 'No new jobs for your saved searches yet.'
+              : 'Save a search on the Jobs page to hear about new jobs here.'}
+          </p>
+        )}
+
+        <div className="border-t border-border p-2">
+          <Button asChild variant="ghost" size="sm" className="w-full" onClick={() => setOpen(false)}>
+            <Link to="/saved-searches">Manage saved searches</Link>
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
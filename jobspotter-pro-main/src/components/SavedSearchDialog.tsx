@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useCreateSavedSearchMutation, useUpdateSavedSearchMutation } from '@/hooks/use-api-queries';
+import { toast } from '@/hooks/use-toast';
+import { JobFilters, SavedSearch } from '@/lib/api';
+import { ApiError, FieldErrors } from '@/lib/errors';
+import { describeJobFilters } from '@/lib/jobFilters';
+import { BellPlus, Loader2, Save } from 'lucide-react';
+
+interface SavedSearchDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Saves these filters as a new search...
+  filters?: JobFilters;
+  // ...or edits an existing one
+  search?: SavedSearch | null;
+}
+
+const MAX_NAME_LENGTH = 80;
+
+function suggestedName(filters: JobFilters): string {
+  return describeJobFilters(filters).join(' · ').slice(0, MAX_NAME_LENGTH) || 'My job search';
+}
+
+// Names a Jobs query to be alerted about, or renames one on the saved searches page
+export function SavedSearchDialog({ isOpen, onClose, filters, search }: SavedSearchDialogProps) {
+  const createSearch = useCreateSavedSearchMutation();
+  const updateSearch = useUpdateSavedSearchMutation();
+  const [name, setName] = useState('');
+  const [emailDigest, setEmailDigest] = useState(false);
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  const shownFilters = search?.filters ?? filters ?? {};
+  const isSaving = createSearch.isPending || updateSearch.isPending;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(search?.name ?? suggestedName(filters ?? {}));
+    setEmailDigest(search?.email_digest ?? false);
+    setError('');
+    setFieldErrors({});
+  }, [isOpen, search, filters]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setFieldErrors({});
+
+    if (!name.trim()) {
+      setFieldErrors({ name: 'Give the search a name.' });
+      return;
+    }
+
+    try {
+      if (search) {
+        await updateSearch.mutateAsync({ id: search.id, changes: { name: name.trim(), email_digest: emailDigest } });
+        toast({ title: 'Saved search updated' });
+      } else {
+        await createSearch.mutateAsync({ name: name.trim(), filters: shownFilters, email_digest: emailDigest });
+        toast({
+          title: 'Search saved',
+          description: 'New jobs that match will show up under the bell at the top of the page.',
+        });
+      }
+      onClose();
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setFieldErrors(err.fieldErrors);
+        if (err.isNetworkError) {
+          setError('You appear to be offline. Try again once you are reconnected.');
+        } else if (!err.hasFieldErrors) {
+          setError(err.message);
+        }
+      } else {
+        setError('Failed to save the search. Please try again.');
+      }
+    }
+  };
+
+  const labels = describeJobFilters(shownFilters);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-display">{search ? 'Edit saved search' : 'Save this search'}</DialogTitle>
+          <DialogDescription>
+            {search
+              ? 'Rename the search or change how you hear about new jobs.'
+              : "We'll count the new jobs that match and show them in your alerts."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-1.5">
+            {labels.length > 0 ? (
+              labels.map((label) => (
+                <Badge key={label} variant="secondary" className="font-normal">
+                  {label}
+                </Badge>
+              ))
+            ) : (
+              <span className="text-sm text-muted-foreground">All jobs</span>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">Name</Label>
+            <Input
+              id="saved-search-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={MAX_NAME_LENGTH}
+              autoFocus
+            />
+            {fieldErrors.name && <p className="text-xs text-destructive">{fieldErrors.name}</p>}
+          </div>
+
+          <div className="flex items-center justify-between gap-4 rounded-lg border border-border p-3">
+            <div className="space-y-1">
+              <Label htmlFor="saved-search-digest">Daily email</Label>
+              <p className="text-xs text-muted-foreground">One email a day listing new matches, only when there are some.</p>
+            </div>
+            <Switch id="saved-search-digest" checked={emailDigest} onCheckedChange={setEmailDigest} />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : search ? (
+                <>
+                  <Save className="h-4 w-4" />
+                  Save Changes
+                </>
+              ) : (
+                <>
+                  <BellPlus className="h-4 w-4" />
+                  Save Search
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { Clock, Loader2 } from 'lucide-react';
+
+// How long before the token runs out the warning opens
+const WARNING_MS = 2 * 60 * 1000;
+
+function formatCountdown(ms: number) {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// Mounted once inside the router (App.tsx). Counts down the last two minutes of a session
+// with a "Stay signed in" option, then explains that the session ended and sends the user
+// to sign in and back to the page they were on. Unsaved modal forms keep their drafts
+// (see use-form-draft.ts), so nothing typed is lost.
+export function SessionExpiryDialog() {
+  const { user, expiresAt, extendSession, canExtendSession, signOut, sessionExpired, dismissSessionExpired } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [now, setNow] = useState(() => Date.now());
+  const [extending, setExtending] = useState(false);
+  const [extendFailed, setExtendFailed] = useState(false);
+
+  const remaining = expiresAt ? expiresAt - now : Infinity;
+  const warning = !!user && remaining <= WARNING_MS;
+
+  // Tick every second inside the warning window, otherwise wake up once when it starts
+  useEffect(() => {
+    if (!user || !expiresAt) return;
+    if (warning) {
+      const interval = setInterval(() => setNow(Date.now()), 1000);
+      return () => clearInterval(interval);
+    }
+    const timeout = setTimeout(() => setNow(Date.now()), Math.max(0, expiresAt - WARNING_MS - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [user, expiresAt, warning]);
+
+  // A new token (here or in another tab) closes the warning
+  useEffect(() => {
+    setNow(Date.now());
+    setExtendFailed(false);
+  }, [expiresAt]);
+
+  const handleStaySignedIn = async () => {
+    setExtending(true);
+    const success = await extendSession();
+    setExtending(false);
+    setExtendFailed(!success);
+  };
+
+  const handleSignInAgain = () => {
+    dismissSessionExpired();
+    // Guarded pages already redirected to /auth with the page to return to
+    if (!location.pathname.startsWith('/auth')) {
+      navigate('/auth', { state: { from: location } });
+    }
+  };
+
+  if (sessionExpired && !user) {
+    return (
+      <AlertDialog open>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Your session has ended</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your sign-in has expired. Sign in again to continue where you left off; anything you
+              were typing in a form has been kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <Button onClick={handleSignInAgain}>Sign in again</Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    );
+  }
+
+  return (
+    <AlertDialog open={warning}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5 text-warning" />
+            Your session is about to end
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            You will be signed out in <span className="font-semibold text-foreground tabular-nums">{formatCountdown(remaining)}</span>.
+            {canExtendSession
+              ? ' Stay signed in to keep working.'
+              : " Save your work; you'll need to sign in again to continue."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {extendFailed && canExtendSession && (
+          <p className="text-sm text-destructive">
+            We couldn't extend your session. Save your work and sign in again.
+          </p>
+        )}
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={() => signOut()} disabled={extending}>
+            Sign out
+          </Button>
+          {canExtendSession && (
+            <Button onClick={handleStaySignedIn} disabled={extending}>
+              {extending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Stay signed in
+            </Button>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,32 @@
+import { Badge } from '@/components/ui/badge';
+import { SkillMatch, matchTier } from '@/lib/skillMatch';
+import { Sparkles } from 'lucide-react';
+
+interface SkillMatchBadgeProps {
+  match: SkillMatch | null;
+}
+
+const tierVariant = {
+  strong: 'success',
+  partial: 'warning',
+  weak: 'pending',
+} as const;
+
+// "85% match", with the missing requirements on hover
+export function SkillMatchBadge({ match }: SkillMatchBadgeProps) {
+  if (!match) return null;
+
+  return (
+    <Badge
+      variant={tierVariant[matchTier(match.score)]}
+      className="gap-1"
+      title={[
+        `Matches ${match.matched.length} of ${match.matched.length + match.missing.length} required skills`,
+        match.missing.length > 0 && `Missing: ${match.missing.join(', ')}`,
+      ].filter(Boolean).join('\n')}
+    >
+      <Sparkles className="h-3 w-3" />
+      {match.score}% match
+    </Badge>
+  );
+}
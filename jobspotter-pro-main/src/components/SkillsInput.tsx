@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { X } from 'lucide-react';
+
+interface SkillsInputProps {
+  id?: string;
+  value: string[];
+  onChange: (skills: string[]) => void;
+  placeholder?: string;
+}
+
+// Tag-style input: Enter or comma adds a skill, Backspace on an empty input removes the last one.
+// Case-insensitive duplicates are ignored.
+export function SkillsInput({ id, value, onChange, placeholder = 'Type a skill and press Enter' }: SkillsInputProps) {
+  const [text, setText] = useState('');
+
+  const addSkills = (raw: string) => {
+    const next = [...value];
+    for (const skill of raw.split(',').map((s) => s.trim()).filter(Boolean)) {
+      if (!next.some((existing) => existing.toLowerCase() === skill.toLowerCase())) {
+        next.push(skill);
+      }
+    }
+    if (next.length !== value.length) onChange(next);
+    setText('');
+  };
+
+  const removeSkill = (skill: string) => onChange(value.filter((s) => s !== skill));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addSkills(text);
+    } else if (e.key === 'Backspace' && !text && value.length > 0) {
+      removeSkill(value[value.length - 1]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((skill) => (
+            <Badge key={skill} variant="secondary" className="gap-1 pr-1">
+              {skill}
+              <button
+                type="button"
+                onClick={() => removeSkill(skill)}
+                className="rounded-full p-0.5 hover:bg-background"
+                aria-label={`Remove ${skill}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        id={id}
+        value={text}
+        placeholder={placeholder}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => text.trim() && addSkills(text)}
+      />
+    </div>
+  );
+}
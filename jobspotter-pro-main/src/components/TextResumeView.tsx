@@ -0,0 +1,56 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { findMatchOffsets } from '@/lib/resumeDocument';
+import { cn } from '@/lib/utils';
+
+interface TextResumeViewProps {
+  text: string;
+  zoom: number;
+  query: string;
+  // Index of the match the toolbar is on
+  activeMatch: number;
+  onMatchPages: (pages: number[]) => void;
+}
+
+// Plain-text resumes are a single "page" with every match marked
+export function TextResumeView({ text, zoom, query, activeMatch, onMatchPages }: TextResumeViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const offsets = useMemo(() => findMatchOffsets(text, query), [text, query]);
+  const length = query.trim().length;
+
+  useEffect(() => {
+    onMatchPages(offsets.map(() => 1));
+  }, [offsets, onMatchPages]);
+
+  useEffect(() => {
+    containerRef.current
+      ?.querySelector(`[data-match="${activeMatch}"]`)
+      ?.scrollIntoView({ block: 'center' });
+  }, [activeMatch, offsets]);
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  offsets.forEach((offset, index) => {
+    parts.push(text.slice(cursor, offset));
+    parts.push(
+      <mark
+        key={offset}
+        data-match={index}
+        className={cn('rounded-sm', index === activeMatch ? 'bg-warning text-warning-foreground' : 'bg-warning/40 text-foreground')}
+      >
+        {text.slice(offset, offset + length)}
+      </mark>
+    );
+    cursor = offset + length;
+  });
+  parts.push(text.slice(cursor));
+
+  return (
+    <div
+      ref={containerRef}
+      className="mx-auto max-w-prose whitespace-pre-wrap rounded-lg bg-card p-6 font-mono leading-relaxed text-foreground shadow-card"
+      style={{ fontSize: `${0.875 * zoom}rem` }}
+    >
+      {parts}
+    </div>
+  );
+}
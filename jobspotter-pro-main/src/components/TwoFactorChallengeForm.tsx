@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { OTP_LENGTH, OtpCodeInput } from '@/components/OtpCodeInput';
+import { useAuth } from '@/hooks/useAuth';
+import { ArrowLeft, Loader2, ShieldCheck } from 'lucide-react';
+
+interface TwoFactorChallengeFormProps {
+  // From signIn() when the account has two-factor authentication on
+  challengeToken: string;
+  onSuccess: () => void;
+  // Back to the email/password form
+  onCancel: () => void;
+}
+
+// Second sign-in step on the Auth page: a code from the authenticator app, or a backup code
+export function TwoFactorChallengeForm({ challengeToken, onSuccess, onCancel }: TwoFactorChallengeFormProps) {
+  const { completeTwoFactorSignIn } = useAuth();
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [expired, setExpired] = useState(false);
+
+  const submit = async (value: string) => {
+    if (loading || !value.trim()) return;
+    setLoading(true);
+    setError('');
+
+    const { user, error: verifyError } = await completeTwoFactorSignIn(challengeToken, value.trim());
+    setLoading(false);
+
+    if (user) {
+      onSuccess();
+      return;
+    }
+    if (verifyError?.isNetworkError) {
+      setError('You appear to be offline. Check your connection and try again.');
+      return;
+    }
+    if (verifyError?.code === 'unauthorized') {
+      // The challenge timed out; only a fresh password sign-in can issue a new one
+      setExpired(true);
+    } else {
+      setCode('');
+    }
+    setError(verifyError?.fieldErrors.code || verifyError?.message || 'Sign in failed. Please try again.');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(code);
+  };
+
+  const toggleBackupCode = () => {
+    setUseBackupCode(!useBackupCode);
+    setCode('');
+    setError('');
+  };
+
+  return (
+    <>
+      <div className="flex items-center gap-3">
+        <div className="rounded-lg bg-primary/10 p-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+        </div>
+        <h2 className="font-display text-2xl font-bold text-foreground">Two-factor authentication</h2>
+      </div>
+      <p className="mt-2 text-muted-foreground">
+        {useBackupCode
+          ? 'Enter one of the backup codes you saved when you turned on two-factor authentication.'
+          : 'Enter the 6-digit code from your authenticator app.'}
+      </p>
+
+      <form onSubmit={handleSubmit} className="mt-8 space-y-4">
+        {error && (
+          <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {useBackupCode ? (
+          <div className="space-y-2">
+            <Label htmlFor="backupCode">Backup code</Label>
+            <Input
+              id="backupCode"
+              placeholder="1234-5678"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoComplete="off"
+              disabled={expired}
+              autoFocus
+            />
+          </div>
+        ) : (
+          <div className="flex justify-center">
+            <OtpCodeInput
+              value={code}
+              onChange={setCode}
+              onComplete={submit}
+              disabled={loading || expired}
+              autoFocus
+            />
+          </div>
+        )}
+
+        {expired ? (
+          <Button type="button" className="w-full" size="lg" onClick={onCancel}>
+            Sign in again
+          </Button>
+        ) : (
+          <Button
+            type="submit"
+            className="w-full"
+            size="lg"
+            disabled={loading || (!useBackupCode && code.length < OTP_LENGTH)}
+          >
+            {loading ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Verifying...
+              </>
+            ) : (
+              'Verify'
+            )}
+          </Button>
+        )}
+      </form>
+
+      <div className="mt-6 flex items-center justify-between text-sm">
+        <button type="button" onClick={onCancel} className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="h-4 w-4" />
+          Back
+        </button>
+        {!expired && (
+          <button type="button" onClick={toggleBackupCode} className="font-medium text-primary hover:underline">
+            {useBackupCode ? 'Use authenticator app' : 'Use a backup code'}
+          </button>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { BackupCodesList } from '@/components/BackupCodesList';
+import { OTP_LENGTH, OtpCodeInput } from '@/components/OtpCodeInput';
+import { TwoFactorSetupDialog } from '@/components/TwoFactorSetupDialog';
+import { disableTwoFactor, regenerateBackupCodes } from '@/lib/api';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { KeyRound, Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+
+type CodeAction = 'disable' | 'regenerate';
+
+const CODE_ACTIONS: Record<CodeAction, { title: string; description: string; submitLabel: string }> = {
+  disable: {
+    title: 'Turn off two-factor authentication',
+    description: 'Enter a code from your authenticator app or one of your backup codes to confirm.',
+    submitLabel: 'Turn off',
+  },
+  regenerate: {
+    title: 'Regenerate backup codes',
+    description: 'Your current backup codes will stop working. Enter a code from your authenticator app to continue.',
+    submitLabel: 'Regenerate',
+  },
+};
+
+// Security section of the account page: turn TOTP two-factor on or off and replace backup codes
+export function TwoFactorSettings() {
+  const { user, reloadUser } = useAuth();
+  const enabled = !!user?.two_factor_enabled;
+
+  const [setupOpen, setSetupOpen] = useState(false);
+  const [action, setAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [codeError, setCodeError] = useState('');
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+
+  const openAction = (next: CodeAction) => {
+    setAction(next);
+    setCode('');
+    setCodeError('');
+    setNewCodes(null);
+  };
+
+  const closeAction = () => setAction(null);
+
+  const handleConfirm = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!action || submitting || !code.trim()) return;
+    setSubmitting(true);
+    setCodeError('');
+
+    const { data, error } = action === 'disable'
+      ? await disableTwoFactor(code.trim())
+      : await regenerateBackupCodes(code.trim());
+    setSubmitting(false);
+
+    if (error) {
+      setCode('');
+      setCodeError(
+        error.isNetworkError
+          ? 'You appear to be offline. Check your connection and try again.'
+          : error.fieldErrors.code || error.message
+      );
+      return;
+    }
+
+    if (action === 'disable') {
+      closeAction();
+      toast({ title: 'Two-factor authentication is off', description: 'You will sign in with just your password.' });
+      await reloadUser();
+    } else if (data && 'backup_codes' in data) {
+      setNewCodes(data.backup_codes);
+    }
+  };
+
+  const copy = action ? CODE_ACTIONS[action] : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            Two-factor authentication
+          </CardTitle>
+          <Badge variant={enabled ? 'success' : 'pending'}>{enabled ? 'On' : 'Off'}</Badge>
+        </div>
+        <CardDescription>
+          Ask for a code from an authenticator app after your password, so a leaked password alone can't open your account.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        {enabled ? (
+          <>
+            <Button variant="outline" onClick={() => openAction('regenerate')}>
+              <KeyRound className="h-4 w-4" />
+              Regenerate backup codes
+            </Button>
+            <Button variant="outline" onClick={() => openAction('disable')}>
+              <ShieldOff className="h-4 w-4" />
+              Turn off
+            </Button>
+          </>
+        ) : (
+          <Button onClick={() => setSetupOpen(true)}>
+            <ShieldCheck className="h-4 w-4" />
+            Turn on two-factor
+          </Button>
+        )}
+      </CardContent>
+
+      <TwoFactorSetupDialog isOpen={setupOpen} onClose={() => setSetupOpen(false)} onEnabled={reloadUser} />
+
+      <Dialog open={!!action} onOpenChange={(open) => !open && closeAction()}>
+        <DialogContent className="sm:max-w-[440px]">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-display">
+              {newCodes ? 'Your new backup codes' : copy?.title}
+            </DialogTitle>
+            <DialogDescription>
+              {newCodes ? 'The previous codes no longer work.' : copy?.description}
+            </DialogDescription>
+          </DialogHeader>
+
+          {newCodes ? (
+            <>
+              <BackupCodesList codes={newCodes} />
+              <DialogFooter>
+                <Button type="button" onClick={closeAction}>
+                  Done
+                </Button>
+              </DialogFooter>
+            </>
+          ) : (
+            <form onSubmit={handleConfirm} className="space-y-4">
+              {action === 'disable' ? (
+                <div className="space-y-2">
+                  <Label htmlFor="twoFactorCode">Authenticator or backup code</Label>
+                  <Input
+                    id="twoFactorCode"
+                    placeholder="123456"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    autoComplete="one-time-code"
+                    autoFocus
+                  />
+                </div>
+              ) : (
+                <div className="flex justify-center">
+                  <OtpCodeInput value={code} onChange={setCode} disabled={submitting} autoFocus />
+                </div>
+              )}
+              {codeError && <p className="text-xs text-destructive">{codeError}</p>}
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeAction}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  variant={action === 'disable' ? 'destructive' : 'default'}
+                  disabled={submitting || !code.trim() || (action === 'regenerate' && code.length < OTP_LENGTH)}
+                >
+                  {submitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                  {copy?.submitLabel}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { BackupCodesList } from '@/components/BackupCodesList';
+import { LoadingState } from '@/components/LoadingState';
+import { OTP_LENGTH, OtpCodeInput } from '@/components/OtpCodeInput';
+import { TwoFactorSetup, enableTwoFactor, startTwoFactorSetup } from '@/lib/api';
+import { ApiError } from '@/lib/errors';
+import { Loader2 } from 'lucide-react';
+
+interface TwoFactorSetupDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Two-factor is on; the caller reloads the user so settings show the new state
+  onEnabled: () => void;
+}
+
+type SetupStep =
+  | { step: 'loading' }
+  | { step: 'failed'; message: string }
+  | { step: 'scan'; setup: TwoFactorSetup }
+  | { step: 'backup-codes'; codes: string[] };
+
+function errorMessage(error: ApiError): string {
+  if (error.isNetworkError) return 'You appear to be offline. Check your connection and try again.';
+  return error.fieldErrors.code || error.message;
+}
+
+// Enrollment: scan the QR code, confirm one code, then save the backup codes
+export function TwoFactorSetupDialog({ isOpen, onClose, onEnabled }: TwoFactorSetupDialogProps) {
+  const [state, setState] = useState<SetupStep>({ step: 'loading' });
+  const [code, setCode] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const [codeError, setCodeError] = useState('');
+
+  // Every opening starts over with a new secret
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setState({ step: 'loading' });
+    setCode('');
+    setCodeError('');
+
+    startTwoFactorSetup().then(({ data, error }) => {
+      if (cancelled) return;
+      setState(error || !data ? { step: 'failed', message: errorMessage(error) } : { step: 'scan', setup: data });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  const confirmCode = async (value: string) => {
+    if (verifying || value.length < OTP_LENGTH) return;
+    setVerifying(true);
+    setCodeError('');
+
+    const { data, error } = await enableTwoFactor(value);
+    setVerifying(false);
+
+    if (error || !data) {
+      setCode('');
+      setCodeError(errorMessage(error));
+      return;
+    }
+    setState({ step: 'backup-codes', codes: data.backup_codes });
+    onEnabled();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-display">
+            {state.step === 'backup-codes' ? 'Save your backup codes' : 'Set up two-factor authentication'}
+          </DialogTitle>
+          <DialogDescription>
+            {state.step === 'backup-codes'
+              ? 'Two-factor authentication is on. Use these codes if you ever lose access to your authenticator app.'
+              : 'Scan the QR code with an authenticator app such as Google Authenticator, 1Password or Authy.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {state.step === 'loading' && <LoadingState message="Creating your secret..." />}
+
+        {state.step === 'failed' && (
+          <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive">{state.message}</div>
+        )}
+
+        {state.step === 'scan' && (
+          <div className="space-y-5">
+            <div className="flex justify-center rounded-lg bg-white p-4">
+              <QRCodeSVG value={state.setup.otpauth_url} size={176} />
+            </div>
+            <div className="space-y-1 text-center">
+              <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead:</p>
+              <p className="break-all font-mono text-sm text-foreground">{state.setup.secret}</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="setupCode">Code from the app</Label>
+              <div className="flex justify-center">
+                <OtpCodeInput
+                  id="setupCode"
+                  value={code}
+                  onChange={setCode}
+                  onComplete={confirmCode}
+                  disabled={verifying}
+                  autoFocus
+                />
+              </div>
+              {codeError && <p className="text-center text-xs text-destructive">{codeError}</p>}
+            </div>
+          </div>
+        )}
+
+        {state.step === 'backup-codes' && <BackupCodesList codes={state.codes} />}
+
+        <DialogFooter>
+          {state.step === 'backup-codes' ? (
+            <Button type="button" onClick={onClose}>
+              I've saved my codes
+            </Button>
+          ) : (
+            <>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              {state.step === 'scan' && (
+                <Button type="button" onClick={() => confirmCode(code)} disabled={verifying || code.length < OTP_LENGTH}>
+                  {verifying && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Turn on
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
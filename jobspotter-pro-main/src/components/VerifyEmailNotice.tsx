@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { resendVerificationEmail } from '@/lib/api';
+import { useAuth } from '@/hooks/useAuth';
+import { Loader2, MailCheck } from 'lucide-react';
+
+interface VerifyEmailNoticeProps {
+  // What the user can't do until they verify, e.g. "apply to jobs"
+  action?: string;
+}
+
+// Shown to signed-in users whose email isn't verified yet, with a button to resend the link
+export function VerifyEmailNotice({ action = 'apply to jobs' }: VerifyEmailNoticeProps) {
+  const { user } = useAuth();
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleResend = async () => {
+    setSending(true);
+    setError('');
+    const { error: resendError } = await resendVerificationEmail();
+    setSending(false);
+    if (resendError) {
+      setError(
+        resendError.isNetworkError
+          ? 'You appear to be offline. Check your connection and try again.'
+          : resendError.message
+      );
+    } else {
+      setSent(true);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-warning/30 bg-warning/10 p-4 text-sm">
+      <div className="flex items-start gap-3">
+        <MailCheck className="mt-0.5 h-5 w-5 shrink-0 text-warning" />
+        <div className="space-y-2">
+          <p className="font-medium text-foreground">Verify your email to {action}</p>
+          <p className="text-muted-foreground">
+            {sent
+              ? `A new verification link is on its way to ${user?.email}.`
+              : `Open the link we sent to ${user?.email} to confirm your address.`}
+          </p>
+          {error && <p className="text-destructive">{error}</p>}
+          <Button type="button" variant="outline" size="sm" onClick={handleResend} disabled={sending}>
+            {sending && <Loader2 className="h-4 w-4 animate-spin" />}
+            {sent ? 'Send again' : 'Resend verification email'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { ReactNode, useSyncExternalStore } from 'react';
+import { BackToTopButton } from '@/components/BackToTopButton';
+import { LoadingCard } from '@/components/LoadingState';
+import { LoadMoreFooter } from '@/components/LoadMoreFooter';
+import { useWindowVirtualizer } from '@/hooks/use-window-virtualizer';
+import { Job } from '@/lib/api';
+
+interface VirtualJobGridProps {
+  jobs: Job[];
+  renderJob: (job: Job) => ReactNode;
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  // The last attempt to load more failed; loading stops until the user retries
+  loadMoreFailed: boolean;
+  fetchNextPage: () => void;
+  // Identifies this list (e.g. the history entry) for scroll restoration
+  restoreKey: string;
+}
+
+// Card height with the gap below it, until the real one is measured
+const ESTIMATED_ROW_HEIGHT = 340;
+
+// Tailwind's md and xl breakpoints, matching the paged grid (md:grid-cols-2 xl:grid-cols-3)
+const COLUMN_QUERIES: [string, number][] = [
+  ['(min-width: 1280px)', 3],
+  ['(min-width: 768px)', 2],
+];
+
+function readColumns(): number {
+  return COLUMN_QUERIES.find(([query]) => window.matchMedia(query).matches)?.[1] ?? 1;
+}
+
+function subscribeToColumns(onChange: () => void) {
+  const lists = COLUMN_QUERIES.map(([query]) => window.matchMedia(query));
+  lists.forEach((list) => list.addEventListener('change', onChange));
+  return () => lists.forEach((list) => list.removeEventListener('change', onChange));
+}
+
+function VirtualRows({ jobs, renderJob, columns, restoreKey }: Pick<VirtualJobGridProps, 'jobs' | 'renderJob' | 'restoreKey'> & { columns: number }) {
+  const { containerRef, rows, paddingTop, paddingBottom, measureElement } = useWindowVirtualizer({
+    count: Math.ceil(jobs.length / columns),
+    estimateSize: ESTIMATED_ROW_HEIGHT,
+    // Saved row heights only fit the same number of columns
+    restoreKey: `${restoreKey}:grid-${columns}`,
+  });
+
+  return (
+    <div ref={containerRef} style={{ paddingTop, paddingBottom }}>
+      {rows.map(({ index }) => (
+        <div
+          key={index}
+          data-index={index}
+          ref={measureElement}
+          className="grid gap-6 pb-6"
+          style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+        >
+          {jobs.slice(index * columns, (index + 1) * columns).map((job) => (
+            <div key={job.id}>{renderJob(job)}</div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Job grid for the infinite scroll mode of the Jobs page. Only the rows near the screen
+// are rendered, the next page loads before the end comes into view, and returning to
+// the list restores its scroll position.
+export function VirtualJobGrid({
+  jobs,
+  renderJob,
+  hasNextPage,
+  isFetchingNextPage,
+  loadMoreFailed,
+  fetchNextPage,
+  restoreKey,
+}: VirtualJobGridProps) {
+  const columns = useSyncExternalStore(subscribeToColumns, readColumns);
+
+  return (
+    <>
+      {/* Row heights depend on the column count, so a new layout starts measuring afresh */}
+      <VirtualRows key={columns} jobs={jobs} renderJob={renderJob} columns={columns} restoreKey={restoreKey} />
+
+      {isFetchingNextPage && (
+        <div className="grid gap-6" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+          {[...Array(columns)].map((_, i) => (
+            <LoadingCard key={i} />
+          ))}
+        </div>
+      )}
+
+      <LoadMoreFooter
+        hasNextPage={hasNextPage}
+        isFetchingNextPage={isFetchingNextPage}
+        loadMoreFailed={loadMoreFailed}
+        fetchNextPage={fetchNextPage}
+        itemCount={jobs.length}
+      />
+
+      <BackToTopButton />
+    </>
+  );
+}
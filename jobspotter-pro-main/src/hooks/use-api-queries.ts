@@ -0,0 +1,523 @@
+// src/hooks/use-api-queries.ts
+// React Query hooks over lib/api.ts. Pages read data through these instead of
+// calling api.ts directly, so results are cached and shared between pages, and
+// every mutation invalidates the lists it affects.
+import { QueryClient, keepPreviousData, useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  ApiResponse,
+  Application,
+  AppliedJobsIndex,
+  CandidateProfileInput,
+  Job,
+  JobFilters,
+  JobOrder,
+  NotificationPreferences,
+  Reauthentication,
+  SavedJob,
+  SavedSearch,
+  SavedSearchChanges,
+  SavedSearchInput,
+  applyJob,
+  changeEmail,
+  changePassword,
+  createJob,
+  createSavedSearch,
+  deleteAccount,
+  deleteJob,
+  deleteSavedSearch,
+  exportAccountData,
+  getAppliedJobsIndex,
+  getCandidateProfile,
+  getCandidateProfiles,
+  getJob,
+  getJobSuggestions,
+  getJobs,
+  getMyApplications,
+  getMyCandidateProfile,
+  getNotificationPreferences,
+  getRecruiterApplications,
+  getRecruiterJobs,
+  getSavedJobs,
+  getSavedSearches,
+  markSavedSearchSeen,
+  removeSavedJob,
+  saveJob,
+  updateApplication,
+  updateApplicationStatus,
+  updateCandidateProfile,
+  updateJob,
+  updateNotificationPreferences,
+  updateProfileName,
+  updateSavedSearch,
+  withdrawApplication,
+} from '@/lib/api';
+import { ApiError } from '@/lib/errors';
+
+// Every query/mutation error is an ApiError (see unwrap below)
+declare module '@tanstack/react-query' {
+  interface Register {
+    defaultError: ApiError;
+  }
+}
+
+// --- Cache keys ---
+// Keys are nested so a whole family can be invalidated at once, e.g. queryKeys.applications.all
+
+export interface JobsQueryParams {
+  page: number;
+  pageSize: number;
+  filters?: JobFilters;
+  order?: JobOrder;
+}
+
+export type InfiniteJobsQueryParams = Omit<JobsQueryParams, 'page'>;
+
+export const queryKeys = {
+  jobs: {
+    all: ['jobs'] as const,
+    list: (params: JobsQueryParams) => ['jobs', 'list', params] as const,
+    infinite: (params: InfiniteJobsQueryParams) => ['jobs', 'infinite', params] as const,
+    detail: (id: string) => ['jobs', 'detail', id] as const,
+    suggestions: (search: string) => ['jobs', 'suggestions', search] as const,
+    recruiter: (page: number, pageSize: number) => ['jobs', 'recruiter', { page, pageSize }] as const,
+  },
+  savedJobs: {
+    all: ['saved-jobs'] as const,
+    list: (page: number, pageSize: number) => ['saved-jobs', 'list', { page, pageSize }] as const,
+    withDetails: (page: number, pageSize: number) => ['saved-jobs', 'with-details', { page, pageSize }] as const,
+  },
+  applications: {
+    all: ['applications'] as const,
+    mine: (page: number, pageSize: number) => ['applications', 'mine', { page, pageSize }] as const,
+    // Applied-job index for one candidate, shared by every JobCard and JobDetails
+    index: (candidateId: string) => ['applications', 'index', candidateId] as const,
+    recruiter: (page: number, pageSize: number, jobId?: string) =>
+      ['applications', 'recruiter', { page, pageSize, jobId }] as const,
+  },
+  account: {
+    notificationPreferences: ['account', 'notification-preferences'] as const,
+  },
+  savedSearches: ['saved-searches'] as const,
+  candidateProfiles: {
+    mine: ['candidate-profiles', 'me'] as const,
+    detail: (candidateId: string) => ['candidate-profiles', candidateId] as const,
+    batch: (candidateIds: string[]) => ['candidate-profiles', 'batch', candidateIds] as const,
+  },
+};
+
+// api.ts reports failures in the return value; React Query expects a thrown error
+function unwrap<T>({ data, error }: ApiResponse<T>): T {
+  if (error) throw error;
+  return data as T;
+}
+
+interface QueryOptions {
+  enabled?: boolean;
+}
+
+// --- Queries ---
+
+export function useJobsQuery(params: JobsQueryParams, { enabled = true }: QueryOptions = {}) {
+  return useQuery({
+    queryKey: queryKeys.jobs.list(params),
+    queryFn: async ({ signal }) => unwrap(await getJobs(params.page, params.pageSize, params.filters, params.order, { signal })),
+    // Keep the current page on screen while the next one loads
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+}
+
+// The same listing one page after another, for the Jobs page's infinite scroll mode
+export function useInfiniteJobsQuery(params: InfiniteJobsQueryParams, { enabled = true }: QueryOptions = {}) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.jobs.infinite(params),
+    queryFn: async ({ pageParam, signal }) =>
+      unwrap(await getJobs(pageParam, params.pageSize, params.filters, params.order, { signal })),
+    initialPageParam: 1,
+    getNextPageParam: (last) => (last.page * last.page_size < last.total ? last.page + 1 : undefined),
+    enabled,
+  });
+}
+
+export function useJobQuery(id: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.jobs.detail(id ?? ''),
+    queryFn: async ({ signal }) => unwrap(await getJob(id!, { signal })),
+    enabled: !!id,
+  });
+}
+
+// Autocomplete for the Jobs search box; callers debounce `search` first
+export function useJobSuggestionsQuery(search: string, { enabled = true }: QueryOptions = {}) {
+  return useQuery({
+    queryKey: queryKeys.jobs.suggestions(search),
+    queryFn: async ({ signal }) => unwrap(await getJobSuggestions(search, 8, { signal })),
+    enabled: enabled && search.length > 0,
+    // Suggestions for the previous text stay up while the next ones load
+    placeholderData: keepPreviousData,
+    staleTime: 60_000,
+  });
+}
+
+export function useRecruiterJobsQuery(page: number, pageSize: number, { enabled = true }: QueryOptions = {}) {
+  return useQuery({
+    queryKey: queryKeys.jobs.recruiter(page, pageSize),
+    queryFn: async ({ signal }) => unwrap(await getRecruiterJobs(page, pageSize, { signal })),
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+}
+
+export function useSavedJobsQuery(page: number, pageSize: number, { enabled = true }: QueryOptions = {}) {
+  return useQuery({
+    queryKey: queryKeys.savedJobs.list(page, pageSize),
+    queryFn: async ({ signal }) => unwrap(await getSavedJobs(page, pageSize, { signal })),
+    enabled,
+  });
+}
+
+/**
+ * Saved jobs with the full Job attached. The saved-jobs endpoint only returns a partial
+ * job, so each one is loaded through the job detail query (and shares its cache).
+ */
+export function useSavedJobsWithDetailsQuery(page: number, pageSize: number, { enabled = true }: QueryOptions = {}) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: queryKeys.savedJobs.withDetails(page, pageSize),
+    queryFn: async ({ signal }) => {
+      const data = unwrap(await getSavedJobs(page, pageSize, { signal }));
+
+      const savedJobs: SavedJob[] = await Promise.all(
+        data.saved_jobs.map(async (savedJob) => {
+          try {
+            const job = await queryClient.fetchQuery({
+              queryKey: queryKeys.jobs.detail(savedJob.job_id),
+              queryFn: async () => unwrap(await getJob(savedJob.job_id, { signal })),
+            });
+            return { ...savedJob, jobs: { ...job, id: savedJob.job_id } };
+          } catch {
+            // Keep the partial record if the job itself can't be loaded
+            return savedJob;
+          }
+        })
+      );
+
+      return { ...data, saved_jobs: savedJobs };
+    },
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+}
+
+export function useMyApplicationsQuery(page: number, pageSize: number, { enabled = true }: QueryOptions = {}) {
+  return useQuery({
+    queryKey: queryKeys.applications.mine(page, pageSize),
+    queryFn: async ({ signal }) => unwrap(await getMyApplications(page, pageSize, { signal })),
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+}
+
+/**
+ * The candidate's applied-job index, loaded once and shared by every consumer.
+ * Apply/withdraw patch it in place (see updateAppliedJobsIndex), so it rarely needs refetching.
+ */
+export function useAppliedJobsIndexQuery<T = AppliedJobsIndex>(
+  candidateId: string | undefined | null,
+  select?: (index: AppliedJobsIndex) => T
+) {
+  return useQuery({
+    queryKey: queryKeys.applications.index(candidateId ?? ''),
+    queryFn: async ({ signal }) => unwrap(await getAppliedJobsIndex({ signal })),
+    select,
+    staleTime: 5 * 60 * 1000,
+    enabled: !!candidateId,
+  });
+}
+
+export function useRecruiterApplicationsQuery(
+  page: number,
+  pageSize: number,
+  jobId?: string,
+  { enabled = true }: QueryOptions = {}
+) {
+  return useQuery({
+    queryKey: queryKeys.applications.recruiter(page, pageSize, jobId),
+    queryFn: async ({ signal }) => unwrap(await getRecruiterApplications(page, pageSize, jobId, { signal })),
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+}
+
+// --- Mutations ---
+
+// Patches every cached applied-job index so cards reflect an apply/withdraw immediately
+function updateAppliedJobsIndex(queryClient: QueryClient, update: (index: AppliedJobsIndex) => AppliedJobsIndex) {
+  queryClient.setQueriesData<AppliedJobsIndex>(
+    { queryKey: [...queryKeys.applications.all, 'index'] },
+    (index) => (index ? update(index) : index)
+  );
+}
+
+// Refetches the application lists but not the index, which the caller has already patched
+function invalidateApplicationLists(queryClient: QueryClient) {
+  return queryClient.invalidateQueries({
+    queryKey: queryKeys.applications.all,
+    predicate: (query) => query.queryKey[1] !== 'index',
+  });
+}
+
+export function useSaveJobMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (jobId: string) => unwrap(await saveJob(jobId)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.savedJobs.all }),
+  });
+}
+
+export function useRemoveSavedJobMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (savedJobId: string) => unwrap(await removeSavedJob(savedJobId)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.savedJobs.all }),
+  });
+}
+
+export function useApplyMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ jobId, resumeUrl, coverLetter }: { jobId: string; resumeUrl: string; coverLetter?: string }) =>
+      unwrap(await applyJob(jobId, resumeUrl, coverLetter)),
+    onSuccess: (application, { jobId }) => {
+      updateAppliedJobsIndex(queryClient, (index) => ({
+        ...index,
+        [jobId]: { applicationId: application?.id ?? '', status: application?.status ?? 'applied' },
+      }));
+      // Without an id in the response the entry can't be matched on withdraw, so reload it
+      if (!application?.id) {
+        queryClient.invalidateQueries({ queryKey: [...queryKeys.applications.all, 'index'] });
+      }
+      return invalidateApplicationLists(queryClient);
+    },
+  });
+}
+
+export function useUpdateApplicationMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, resumeUrl, coverLetter }: { id: string; resumeUrl: string; coverLetter?: string }) =>
+      unwrap(await updateApplication(id, { resume_url: resumeUrl, cover_letter: coverLetter })),
+    // Editing doesn't change the status, so the applied-job index stays valid
+    onSuccess: () => invalidateApplicationLists(queryClient),
+  });
+}
+
+export function useWithdrawApplicationMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => unwrap(await withdrawApplication(id)),
+    onSuccess: (_, id) => {
+      updateAppliedJobsIndex(queryClient, (index) =>
+        Object.fromEntries(Object.entries(index).filter(([, entry]) => entry.applicationId !== id))
+      );
+      return invalidateApplicationLists(queryClient);
+    },
+  });
+}
+
+export function useUpdateApplicationStatusMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: Exclude<Application['status'], 'applied'> }) =>
+      unwrap(await updateApplicationStatus(id, status)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.applications.all }),
+  });
+}
+
+export function useCreateJobMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (job: Partial<Job>) => unwrap(await createJob(job)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.jobs.all }),
+  });
+}
+
+export function useUpdateJobMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, job }: { id: string; job: Partial<Job> }) => unwrap(await updateJob(id, job)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedJobs.all });
+    },
+  });
+}
+
+export function useDeleteJobMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => unwrap(await deleteJob(id)),
+    onSuccess: () => {
+      // Deleting a job also removes its saved entries and applications on the backend
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedJobs.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.applications.all });
+    },
+  });
+}
+
+// --- Account settings ---
+// Name and email changes return the updated user; callers refresh the session with reloadUser()
+
+export function useNotificationPreferencesQuery() {
+  return useQuery({
+    queryKey: queryKeys.account.notificationPreferences,
+    queryFn: async ({ signal }) => unwrap(await getNotificationPreferences({ signal })),
+  });
+}
+
+export function useUpdateNotificationPreferencesMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (preferences: NotificationPreferences) => unwrap(await updateNotificationPreferences(preferences)),
+    onSuccess: (preferences) => queryClient.setQueryData(queryKeys.account.notificationPreferences, preferences),
+  });
+}
+
+export function useUpdateProfileNameMutation() {
+  return useMutation({
+    mutationFn: async ({ firstName, lastName }: { firstName: string; lastName: string }) =>
+      unwrap(await updateProfileName(firstName, lastName)),
+  });
+}
+
+export function useChangeEmailMutation() {
+  return useMutation({
+    mutationFn: async ({ reauth, newEmail }: { reauth: Reauthentication; newEmail: string }) =>
+      unwrap(await changeEmail(reauth, newEmail)),
+  });
+}
+
+export function useChangePasswordMutation() {
+  return useMutation({
+    mutationFn: async ({ reauth, newPassword }: { reauth: Reauthentication; newPassword: string }) =>
+      unwrap(await changePassword(reauth, newPassword)),
+  });
+}
+
+export function useExportAccountDataMutation() {
+  return useMutation({
+    mutationFn: async () => unwrap(await exportAccountData()),
+  });
+}
+
+// The caller signs out afterwards, which clears the cache
+export function useDeleteAccountMutation() {
+  return useMutation({
+    mutationFn: async (reauth: Reauthentication) => unwrap(await deleteAccount(reauth)),
+  });
+}
+
+// --- Candidate profile ---
+
+export function useMyCandidateProfileQuery({ enabled = true }: QueryOptions = {}) {
+  return useQuery({
+    queryKey: queryKeys.candidateProfiles.mine,
+    queryFn: async ({ signal }) => unwrap(await getMyCandidateProfile({ signal })),
+    enabled,
+  });
+}
+
+export function useUpdateCandidateProfileMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (profile: CandidateProfileInput) => unwrap(await updateCandidateProfile(profile)),
+    onSuccess: (profile) => {
+      queryClient.setQueryData(queryKeys.candidateProfiles.mine, profile);
+      queryClient.setQueryData(queryKeys.candidateProfiles.detail(profile.candidate_id), profile);
+      // "Best match" listings are ranked by these skills on the server
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs.all });
+    },
+  });
+}
+
+// A candidate's profile as a recruiter sees it (from an application)
+export function useCandidateProfileQuery(candidateId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.candidateProfiles.detail(candidateId ?? ''),
+    queryFn: async ({ signal }) => unwrap(await getCandidateProfile(candidateId!, { signal })),
+    enabled: !!candidateId,
+  });
+}
+
+// The applicants on a page of applications, in one request. Each profile is cached under its
+// own key too, so CandidateProfileSheet opens without fetching it again.
+export function useCandidateProfilesQuery(candidateIds: string[]) {
+  const queryClient = useQueryClient();
+  const ids = [...new Set(candidateIds)].sort();
+  return useQuery({
+    queryKey: queryKeys.candidateProfiles.batch(ids),
+    queryFn: async ({ signal }) => {
+      const profiles = unwrap(await getCandidateProfiles(ids, { signal }));
+      for (const profile of profiles) {
+        queryClient.setQueryData(queryKeys.candidateProfiles.detail(profile.candidate_id), profile);
+      }
+      return profiles;
+    },
+    enabled: ids.length > 0,
+  });
+}
+
+// --- Saved searches ---
+
+// Header's alert badge reads this too, so it's refreshed every few minutes while the app is open
+export function useSavedSearchesQuery({ enabled = true }: QueryOptions = {}) {
+  return useQuery({
+    queryKey: queryKeys.savedSearches,
+    queryFn: async ({ signal }) => unwrap(await getSavedSearches({ signal })),
+    refetchInterval: 5 * 60 * 1000,
+    enabled,
+  });
+}
+
+// Swaps the updated search into the cached list
+function replaceSavedSearch(queryClient: QueryClient, search: SavedSearch) {
+  queryClient.setQueryData<SavedSearch[]>(queryKeys.savedSearches, (searches) =>
+    searches?.map((s) => (s.id === search.id ? search : s))
+  );
+}
+
+export function useCreateSavedSearchMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: SavedSearchInput) => unwrap(await createSavedSearch(input)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.savedSearches }),
+  });
+}
+
+export function useUpdateSavedSearchMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: SavedSearchChanges }) =>
+      unwrap(await updateSavedSearch(id, changes)),
+    onSuccess: (search) => replaceSavedSearch(queryClient, search),
+  });
+}
+
+export function useMarkSavedSearchSeenMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => unwrap(await markSavedSearchSeen(id)),
+    onSuccess: (search) => replaceSavedSearch(queryClient, search),
+  });
+}
+
+export function useDeleteSavedSearchMutation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => unwrap(await deleteSavedSearch(id)),
+    onSuccess: (_, id) =>
+      queryClient.setQueryData<SavedSearch[]>(queryKeys.savedSearches, (searches) => searches?.filter((s) => s.id !== id)),
+  });
+}
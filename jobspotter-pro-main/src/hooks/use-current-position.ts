@@ -0,0 +1,14 @@
+import { useQuery } from '@tanstack/react-query';
+import { getCurrentPosition } from '@/lib/geo';
+
+// Asked for only when something needs it (sorting by distance); the browser prompts the
+// first time. A refusal isn't retried until the page is reloaded.
+export function useCurrentPosition({ enabled = true } = {}) {
+  return useQuery({
+    queryKey: ['current-position'],
+    queryFn: getCurrentPosition,
+    enabled,
+    staleTime: 10 * 60 * 1000,
+    retry: false,
+  });
+}
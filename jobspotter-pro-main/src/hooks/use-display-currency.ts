@@ -0,0 +1,12 @@
+import { useLocalStorageState } from '@/hooks/use-local-storage-state';
+import { CurrencyCode, isCurrencyCode } from '@/lib/salary';
+
+// The currency a candidate wants salaries shown in. null means "as posted" (each job's own currency).
+const STORAGE_KEY = 'hirify_display_currency';
+
+const parseDisplayCurrency = (raw: string | null): CurrencyCode | null => (isCurrencyCode(raw) ? raw : null);
+
+export function useDisplayCurrency() {
+  const [displayCurrency, setDisplayCurrency] = useLocalStorageState(STORAGE_KEY, parseDisplayCurrency);
+  return { displayCurrency, setDisplayCurrency };
+}
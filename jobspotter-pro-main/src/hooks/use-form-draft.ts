@@ -0,0 +1,55 @@
+import { useCallback, useRef } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+
+// Unsaved modal forms (ApplyModal, JobFormModal) are mirrored to sessionStorage while open,
+// so answers survive the session expiring: the forced sign-in navigates away and unmounts
+// the modal, and reopening it afterwards picks the draft back up.
+// Drafts are per tab and per user, and are dropped on an explicit sign-out.
+const KEY_PREFIX = 'hirify_form_draft:';
+
+function storageKey(userId: string, name: string) {
+  return `${KEY_PREFIX}${userId}:${name}`;
+}
+
+export function clearFormDrafts() {
+  for (const key of Object.keys(sessionStorage)) {
+    if (key.startsWith(KEY_PREFIX)) {
+      sessionStorage.removeItem(key);
+    }
+  }
+}
+
+/**
+ * Draft storage for one form. `name` identifies the form and record, e.g. `apply:<jobId>`;
+ * pass null while the form is closed.
+ */
+export function useFormDraft<T>(name: string | null) {
+  const { user } = useAuth();
+  // Remember who was signed in, so typing on while the session expires still saves the draft
+  const userId = useRef<string | null>(null);
+  if (user) {
+    userId.current = user.id;
+  }
+
+  const loadDraft = useCallback((): T | null => {
+    if (!name || !userId.current) return null;
+    try {
+      const stored = sessionStorage.getItem(storageKey(userId.current, name));
+      return stored ? (JSON.parse(stored) as T) : null;
+    } catch {
+      return null;
+    }
+  }, [name]);
+
+  const saveDraft = useCallback((value: T) => {
+    if (!name || !userId.current) return;
+    sessionStorage.setItem(storageKey(userId.current, name), JSON.stringify(value));
+  }, [name]);
+
+  const clearDraft = useCallback(() => {
+    if (!name || !userId.current) return;
+    sessionStorage.removeItem(storageKey(userId.current, name));
+  }, [name]);
+
+  return { loadDraft, saveDraft, clearDraft };
+}
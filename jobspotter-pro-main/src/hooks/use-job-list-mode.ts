@@ -0,0 +1,17 @@
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useLocalStorageState } from '@/hooks/use-local-storage-state';
+
+// How the Jobs page shows more results: numbered pages, or one list that keeps loading
+// as you scroll. Until the user picks one, phones scroll and larger screens page.
+export type JobListMode = 'paged' | 'infinite';
+
+const STORAGE_KEY = 'hirify_job_list_mode';
+
+const parseJobListMode = (raw: string | null): JobListMode | null =>
+  raw === 'paged' || raw === 'infinite' ? raw : null;
+
+export function useJobListMode(): [JobListMode, (mode: JobListMode) => void] {
+  const isMobile = useIsMobile();
+  const [chosen, setMode] = useLocalStorageState(STORAGE_KEY, parseJobListMode);
+  return [chosen ?? (isMobile ? 'infinite' : 'paged'), setMode];
+}
@@ -0,0 +1,18 @@
+import { useAuth } from '@/hooks/useAuth';
+import { useLocalStorageState } from '@/hooks/use-local-storage-state';
+import { JobSort } from '@/lib/api';
+import { isJobSort } from '@/lib/jobSort';
+
+// The order the Jobs page opens in when the link doesn't say. Kept per account (guests share one).
+const STORAGE_PREFIX = 'hirify_job_sort:';
+
+const storageKey = (userId: string | undefined) => `${STORAGE_PREFIX}${userId ?? 'guest'}`;
+
+const parseJobSort = (raw: string | null): JobSort => (isJobSort(raw) ? raw : 'newest');
+// The default isn't stored
+const serializeJobSort = (sort: JobSort) => (sort === 'newest' ? null : sort);
+
+export function useJobSortPreference(): [JobSort, (sort: JobSort) => void] {
+  const { user } = useAuth();
+  return useLocalStorageState(storageKey(user?.id), parseJobSort, serializeJobSort);
+}
@@ -0,0 +1,12 @@
+import { useLocalStorageState } from '@/hooks/use-local-storage-state';
+
+// Whether the Jobs page shows listings as cards or as a compact table
+export type JobViewMode = 'grid' | 'table';
+
+const STORAGE_KEY = 'hirify_job_view';
+
+const parseJobViewMode = (raw: string | null): JobViewMode => (raw === 'table' ? 'table' : 'grid');
+
+export function useJobViewMode(): [JobViewMode, (mode: JobViewMode) => void] {
+  return useLocalStorageState(STORAGE_KEY, parseJobViewMode);
+}
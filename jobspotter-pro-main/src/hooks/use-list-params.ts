@@ -0,0 +1,101 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useJobSortPreference } from '@/hooks/use-job-sort-preference';
+import { JobFilters, JobSort } from '@/lib/api';
+import { jobFiltersFromSearchParams, writeJobFiltersToSearchParams } from '@/lib/jobFilters';
+import { isJobSort } from '@/lib/jobSort';
+
+// List pages keep their page, search, filters and sort in the query string, so a refresh
+// or a shared link shows the same list and the back button steps through earlier views.
+
+interface UpdateOptions {
+  // Swap the current history entry instead of adding one (used while typing)
+  replace?: boolean;
+}
+
+function readPage(params: URLSearchParams): number {
+  const page = Number(params.get('page'));
+  return Number.isInteger(page) && page > 1 ? page : 1;
+}
+
+function writePage(params: URLSearchParams, page: number) {
+  if (page > 1) {
+    params.set('page', String(page));
+  } else {
+    params.delete('page');
+  }
+}
+
+/** The current page (?page=N, 1 when absent) and a setter that adds a history entry. */
+export function usePageParam(): [number, (page: number) => void] {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const setPage = useCallback(
+    (page: number) =>
+      setSearchParams((current) => {
+        const next = new URLSearchParams(current);
+        writePage(next, page);
+        return next;
+      }),
+    [setSearchParams]
+  );
+  return [readPage(searchParams), setPage];
+}
+
+// Text fields change on every keystroke; everything else is a deliberate step worth a Back
+const isTextEdit = (a: JobFilters, b: JobFilters) => {
+  const withoutText = ({ search, location, ...rest }: JobFilters) => JSON.stringify(rest);
+  return withoutText(a) === withoutText(b);
+};
+
+/**
+ * List state for the public Jobs page: /jobs?q=react&type=remote&sort=salary&page=3.
+ * Without ?sort the list uses the order this user picked last time.
+ */
+export function useJobListParams() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [preferredSort, setPreferredSort] = useJobSortPreference();
+  const filters = useMemo(() => jobFiltersFromSearchParams(searchParams), [searchParams]);
+  const sortParam = searchParams.get('sort');
+  const sort: JobSort = isJobSort(sortParam) ? sortParam : preferredSort;
+  const page = readPage(searchParams);
+
+  const update = useCallback(
+    (change: (params: URLSearchParams) => void, { replace = false }: UpdateOptions = {}) =>
+      setSearchParams((current) => {
+        const next = new URLSearchParams(current);
+        change(next);
+        return next;
+      }, { replace }),
+    [setSearchParams]
+  );
+
+  // New filters start again from the first page
+  const setFilters = useCallback(
+    (next: JobFilters) =>
+      update((params) => {
+        writeJobFiltersToSearchParams(next, params);
+        writePage(params, 1);
+      }, { replace: isTextEdit(filters, next) }),
+    [filters, update]
+  );
+
+  // A new order starts again from the first page too, and becomes the user's default
+  const setSort = useCallback(
+    (next: JobSort) => {
+      setPreferredSort(next);
+      update((params) => {
+        if (next === 'newest') {
+          params.delete('sort');
+        } else {
+          params.set('sort', next);
+        }
+        writePage(params, 1);
+      });
+    },
+    [setPreferredSort, update]
+  );
+
+  const setPage = useCallback((next: number) => update((params) => writePage(params, next)), [update]);
+
+  return { filters, sort, page, setFilters, setSort, setPage };
+}
@@ -0,0 +1,58 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+// A value kept in localStorage and shared by every component reading the same key,
+// including other open tabs. `parse` turns the stored string (null when there is none) into
+// the value, so anything unexpected falls back to a default; `serialize` turns it back,
+// null removing the entry.
+const CHANGE_EVENT = 'hirify:local-storage';
+
+// useSyncExternalStore needs the same value back while the stored string is unchanged
+const parsedValues = new Map<string, { raw: string | null; value: unknown }>();
+
+function readValue<T>(key: string, parse: (raw: string | null) => T): T {
+  const raw = localStorage.getItem(key);
+  const cached = parsedValues.get(key);
+  if (cached && cached.raw === raw) return cached.value as T;
+  const value = parse(raw);
+  parsedValues.set(key, { raw, value });
+  return value;
+}
+
+const toRaw = (value: unknown) => (value == null ? null : String(value));
+
+export function useLocalStorageState<T>(
+  key: string,
+  parse: (raw: string | null) => T,
+  serialize: (value: T) => string | null = toRaw
+): [T, (next: T | ((current: T) => T)) => void] {
+  const subscribe = useCallback((onChange: () => void) => {
+    const onLocalChange = (event: Event) => {
+      if ((event as CustomEvent<string>).detail === key) onChange();
+    };
+    // key is null when another tab cleared the whole storage
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === key || event.key === null) onChange();
+    };
+    window.addEventListener(CHANGE_EVENT, onLocalChange);
+    window.addEventListener('storage', onStorage);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, onLocalChange);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, [key]);
+
+  const value = useSyncExternalStore(subscribe, () => readValue(key, parse));
+
+  const setValue = useCallback((next: T | ((current: T) => T)) => {
+    const resolved = typeof next === 'function' ? (next as (current: T) => T)(readValue(key, parse)) : next;
+    const raw = serialize(resolved);
+    if (raw === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, raw);
+    }
+    window.dispatchEvent(new CustomEvent(CHANGE_EVENT, { detail: key }));
+  }, [key, parse, serialize]);
+
+  return [value, setValue];
+}
@@ -0,0 +1,48 @@
+import { useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useLocalStorageState } from '@/hooks/use-local-storage-state';
+
+// The last few job searches, newest first. Kept per account (guests share one list).
+const STORAGE_PREFIX = 'hirify_recent_searches:';
+const MAX_RECENT_SEARCHES = 6;
+
+const storageKey = (userId: string | undefined) => `${STORAGE_PREFIX}${userId ?? 'guest'}`;
+
+function parseRecentSearches(raw: string | null): string[] {
+  try {
+    const parsed = JSON.parse(raw ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((entry) => typeof entry === 'string') : [];
+  } catch {
+    // Corrupt entry; start over
+    return [];
+  }
+}
+
+const serializeRecentSearches = (searches: string[]) => (searches.length > 0 ? JSON.stringify(searches) : null);
+
+export function useRecentSearches() {
+  const { user } = useAuth();
+  const [recentSearches, setRecentSearches] = useLocalStorageState(
+    storageKey(user?.id),
+    parseRecentSearches,
+    serializeRecentSearches
+  );
+
+  // Moves a repeated search to the top instead of listing it twice
+  const addRecentSearch = useCallback((search: string) => {
+    const trimmed = search.trim();
+    if (!trimmed) return;
+    setRecentSearches((current) => {
+      const others = current.filter((entry) => entry.toLowerCase() !== trimmed.toLowerCase());
+      return [trimmed, ...others].slice(0, MAX_RECENT_SEARCHES);
+    });
+  }, [setRecentSearches]);
+
+  const removeRecentSearch = useCallback((search: string) => {
+    setRecentSearches((current) => current.filter((entry) => entry !== search));
+  }, [setRecentSearches]);
+
+  const clearRecentSearches = useCallback(() => setRecentSearches([]), [setRecentSearches]);
+
+  return { recentSearches, addRecentSearch, removeRecentSearch, clearRecentSearches };
+}
@@ -0,0 +1,12 @@
+import { useQuery } from '@tanstack/react-query';
+import { loadResumeDocument } from '@/lib/resumeDocument';
+
+// Uploaded files don't change, so each resume is downloaded once and reused while cached
+export function useResumeDocument(reference: string | null) {
+  return useQuery({
+    queryKey: ['resume-document', reference],
+    queryFn: ({ signal }) => loadResumeDocument(reference!, signal),
+    enabled: !!reference,
+    staleTime: Infinity,
+  });
+}
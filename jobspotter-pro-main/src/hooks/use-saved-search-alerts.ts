@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMarkSavedSearchSeenMutation, useSavedSearchesQuery } from '@/hooks/use-api-queries';
+import { useAuth } from '@/hooks/useAuth';
+import { SavedSearch } from '@/lib/api';
+import { jobsPagePath } from '@/lib/jobFilters';
+
+// New-job alerts for the signed-in candidate's saved searches. Everyone else has none.
+export function useSavedSearchAlerts() {
+  const { isCandidate } = useAuth();
+  const { data: searches = [], isLoading } = useSavedSearchesQuery({ enabled: isCandidate });
+  const alerting = searches.filter((search) => !search.paused && search.new_job_count > 0);
+  const newJobCount = alerting.reduce((sum, search) => sum + search.new_job_count, 0);
+  return { searches, alerting, newJobCount, isLoading };
+}
+
+// Shows a saved search on the Jobs page; its new jobs count as seen from then on
+export function useOpenSavedSearch() {
+  const navigate = useNavigate();
+  const { mutate: markSeen } = useMarkSavedSearchSeenMutation();
+  return useCallback((search: SavedSearch) => {
+    if (search.new_job_count > 0) markSeen(search.id);
+    navigate(jobsPagePath(search.filters));
+  }, [markSeen, navigate]);
+}
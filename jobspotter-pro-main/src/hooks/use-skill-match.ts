@@ -0,0 +1,31 @@
+import { useMemo } from 'react';
+import { useMyCandidateProfileQuery } from '@/hooks/use-api-queries';
+import { useAuth } from '@/hooks/useAuth';
+import { Application, CandidateProfile, Job } from '@/lib/api';
+import { SkillMatch, matchSkills } from '@/lib/skillMatch';
+
+const NO_SKILLS: string[] = [];
+
+// The signed-in candidate's profile skills. Guests and recruiters have none,
+// so every match below comes back null for them.
+export function useCandidateSkills(): string[] {
+  const { isCandidate } = useAuth();
+  const { data: profile } = useMyCandidateProfileQuery({ enabled: isCandidate });
+  return (isCandidate && profile?.skills) || NO_SKILLS;
+}
+
+// How well the signed-in candidate fits a job
+export function useJobMatch(job: Pick<Job, 'requirements'> | null | undefined): SkillMatch | null {
+  const skills = useCandidateSkills();
+  return useMemo(() => matchSkills(skills, job?.requirements), [skills, job?.requirements]);
+}
+
+// How well an applicant fits the job they applied to, for the recruiter reviewing them.
+// The profile comes from the list's batch fetch (useCandidateProfilesQuery).
+export function useApplicantMatch(
+  application: Application,
+  profile: Pick<CandidateProfile, 'skills'> | undefined
+): SkillMatch | null {
+  const requirements = application.job?.requirements;
+  return useMemo(() => matchSkills(profile?.skills, requirements), [profile?.skills, requirements]);
+}
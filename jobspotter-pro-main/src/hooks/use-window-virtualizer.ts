@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+// Renders only the rows of a long list that are on (or near) the screen. The page itself
+// scrolls, not a box inside it, so the header stays sticky and the browser's own scrolling
+// is untouched. Rows can differ in height: each one is measured once it has rendered, and
+// rows not rendered yet count as `estimateSize`.
+
+interface SavedPosition {
+  scrollY: number;
+  sizes: number[];
+}
+
+// Where each list was scrolled to, so Back from a job lands on the row that was opened.
+// Kept in memory only: a reload starts at the top, as it would in paged mode.
+const savedPositions = new Map<string, SavedPosition>();
+
+interface WindowVirtualizerOptions {
+  count: number;
+  estimateSize: number;
+  // Extra rows rendered above and below the screen
+  overscan?: number;
+  // Identifies this list (e.g. the history entry). Coming back to it scrolls to where it was
+  // left, with the rows laid out at the heights they had then.
+  restoreKey?: string;
+}
+
+export interface VirtualRow {
+  index: number;
+  start: number;
+}
+
+interface Range {
+  start: number;
+  end: number; // exclusive
+}
+
+export function useWindowVirtualizer<T extends HTMLElement = HTMLDivElement>({
+  count,
+  estimateSize,
+  overscan = 2,
+  restoreKey,
+}: WindowVirtualizerOptions) {
+  const containerRef = useRef<T>(null);
+  const [saved] = useState(() => (restoreKey ? savedPositions.get(restoreKey) : undefined));
+  const sizesRef = useRef<number[]>(saved ? [...saved.sizes] : []);
+  const [range, setRange] = useState<Range>({ start: 0, end: Math.min(count, overscan + 1) });
+  // Bumped when a measured height changes, so the offsets below are recomputed
+  const [, setMeasureVersion] = useState(0);
+
+  const sizeOf = useCallback((index: number) => sizesRef.current[index] ?? estimateSize, [estimateSize]);
+
+  const offsetOf = useCallback((index: number) => {
+    let offset = 0;
+    for (let i = 0; i < index; i++) offset += sizeOf(i);
+    return offset;
+  }, [sizeOf]);
+
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    // How far the top of the screen is into the list
+    const top = -container.getBoundingClientRect().top;
+    const bottom = top + window.innerHeight;
+
+    let start = 0;
+    let offset = 0;
+    while (start < count && offset + sizeOf(start) <= top) offset += sizeOf(start++);
+    let end = start;
+    while (end < count && offset < bottom) offset += sizeOf(end++);
+
+    const next = { start: Math.max(0, start - overscan), end: Math.min(count, end + overscan) };
+    setRange((current) => (current.start === next.start && current.end === next.end ? current : next));
+  }, [count, overscan, sizeOf]);
+
+  // Scrolling only re-renders when a row enters or leaves the window
+  useLayoutEffect(() => {
+    let frame = 0;
+    const schedule = () => {
+      if (!frame) {
+        frame = requestAnimationFrame(() => {
+          frame = 0;
+          updateRange();
+        });
+      }
+    };
+    updateRange();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+    };
+  }, [updateRange]);
+
+  // One observer for every rendered row; each row carries its index in data-index
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const observedRef = useRef(new Set<HTMLElement>());
+
+  const getObserver = useCallback(() => {
+    observerRef.current ??= new ResizeObserver((entries) => {
+      let changed = false;
+      for (const entry of entries) {
+        const element = entry.target as HTMLElement;
+        const index = Number(element.dataset.index);
+        const height = element.offsetHeight;
+        if (Number.isInteger(index) && height > 0 && sizesRef.current[index] !== height) {
+          sizesRef.current[index] = height;
+          changed = true;
+        }
+      }
+      if (changed) setMeasureVersion((version) => version + 1);
+    });
+    return observerRef.current;
+  }, []);
+
+  // A remount (StrictMode does one in development) picks the rows up again
+  useLayoutEffect(() => {
+    const observer = getObserver();
+    observedRef.current.forEach((element) => observer.observe(element));
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+    };
+  }, [getObserver]);
+
+  // Measured heights move the rows below, which can change what's on screen.
+  // Rows scrolled out of range are gone from the page and stop being observed.
+  useLayoutEffect(() => {
+    updateRange();
+    for (const element of observedRef.current) {
+      if (!element.isConnected) {
+        observerRef.current?.unobserve(element);
+        observedRef.current.delete(element);
+      }
+    }
+  });
+
+  // Back on the list: jump to where it was left, once the cached rows are laid out
+  const restoredRef = useRef(false);
+  useLayoutEffect(() => {
+    if (restoredRef.current || count === 0) return;
+    restoredRef.current = true;
+    if (saved) window.scrollTo(0, saved.scrollY);
+  }, [count, saved]);
+
+  const countRef = useRef(count);
+  countRef.current = count;
+  useEffect(() => {
+    if (!restoreKey) return;
+    const remember = () =>
+      savedPositions.set(restoreKey, { scrollY: window.scrollY, sizes: sizesRef.current.slice(0, countRef.current) });
+    window.addEventListener('scroll', remember, { passive: true });
+    return () => window.removeEventListener('scroll', remember);
+  }, [restoreKey]);
+
+  /** Ref callback for a rendered row; the element needs data-index={row.index}. */
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (element && !observedRef.current.has(element)) {
+      getObserver().observe(element);
+      observedRef.current.add(element);
+    }
+  }, [getObserver]);
+
+  const rows: VirtualRow[] = [];
+  const firstStart = offsetOf(range.start);
+  let start = firstStart;
+  for (let index = range.start; index < Math.min(range.end, count); index++) {
+    rows.push({ index, start });
+    start += sizeOf(index);
+  }
+  const totalSize = offsetOf(count);
+
+  return {
+    containerRef,
+    rows,
+    // Space above the first rendered row and below the last one
+    paddingTop: firstStart,
+    paddingBottom: Math.max(0, totalSize - start),
+    totalSize,
+    measureElement,
+  };
+}
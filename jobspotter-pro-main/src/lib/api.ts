@@ -1,14 +1,42 @@
 import { getAccessToken } from './supabaseClient';
+import { getConfig } from './config';
+import { ApiError } from './errors';
+import { CurrencyCode, Salary, createSalaryRangeString } from './salary';
+import type { GeoPoint } from './geo';
+import { jobFiltersToApiParams } from './jobFilters';
+import {
+  Schema,
+  accessTokenSchema,
+  applicationPageSchema,
+  backupCodesSchema,
+  candidateProfileListSchema,
+  candidateProfileSchema,
+  decodeResponse,
+  accountExportSchema,
+  flaskUserSchema,
+  jobPageSchema,
+  jobSuggestionsSchema,
+  loginResultSchema,
+  loginSchema,
+  messageSchema,
+  newApplicationSchema,
+  notificationPreferencesSchema,
+  profileSchema,
+  protectedSchema,
+  savedJobPageSchema,
+  savedSearchListSchema,
+  savedSearchSchema,
+  signedDownloadSchema,
+  signedUploadSchema,
+  singleJobSchema,
+  twoFactorSetupSchema,
+} from './schemas';
 import { FlaskUser } from '../hooks/useAuth';
 
-// BASE_URL is correctly set: http://127.0.0.1:5000/api/v1
-// const BASE_URL = 'http://127.0.0.1:5000/api/v1';
-const BASE_URL = 'https://hirify-personal-1.onrender.com/api/v1';
 
-
-interface ApiResponse<T> {
+export interface ApiResponse<T> {
   data: T | null;
-  error: string | null;
+  error: ApiError | null;
 }
 
 // ✅ Interface that matches the Flask backend's job listing response
@@ -17,6 +45,48 @@ export interface BackendJobResponse {
   total: number;
   page: number;
   page_size: number;
+  // Only sent by backends that support faceted search
+  facets?: JobFacets;
+  // The order the backend applied; missing when it ignored the sort parameter
+  sort?: JobSort;
+}
+
+export type PostedWithin = '1d' | '7d' | '30d';
+
+// Filters for the public job listing; unset fields don't filter
+export interface JobFilters {
+  search?: string;
+  jobTypes?: string[];
+  experienceLevels?: string[];
+  location?: string;
+  // Yearly pay in salaryCurrency; a job matches when its range overlaps this one
+  salaryMin?: number;
+  salaryMax?: number;
+  salaryCurrency?: CurrencyCode;
+  postedWithin?: PostedWithin;
+}
+
+export type JobSort = 'newest' | 'salary' | 'closest' | 'match';
+
+// Order of the public job listing. 'closest' needs `near`; 'match' ranks by the signed-in
+// candidate's profile skills.
+export interface JobOrder {
+  sort: JobSort;
+  near?: GeoPoint;
+}
+
+// Autocomplete entry for the job search box
+export interface JobSuggestion {
+  type: 'title' | 'company' | 'location' | 'skill';
+  value: string;
+}
+
+// How many jobs each filter value would return, given the other active filters
+export interface JobFacets {
+  job_type: Record<string, number>;
+  experience_level: Record<string, number>;
+  location: Record<string, number>;
+  posted_within: Partial<Record<PostedWithin, number>>;
 }
 
 // Interface for Saved Jobs endpoint response
@@ -40,10 +110,8 @@ export interface Job {
   id: string;
   title: string;
   company: string; 
-  company_name?: string; // 🔥 CRITICAL FIX: Add the backend's key for mapping flexibility
   location: string;
-  salary_min?: number;
-  salary_max?: number;
+  salary?: Salary;
   job_type: string;
   experience_level: string;
   description: string;
@@ -64,8 +132,8 @@ export interface SavedJob {
   job_id: string;
   user_id: string;
   saved_at: string;
-  // Use a more flexible type for the nested job object now that we rely on fetching full details for SavedJobs.tsx
-  jobs: Partial<Job> & { company_name?: string; skills_required?: string[]; };
+  // The list endpoint only embeds part of the job; useSavedJobsWithDetailsQuery fills in the rest
+  jobs: Partial<Job>;
 }
 
 export interface Application {
@@ -78,7 +146,7 @@ export interface Application {
   status: 'applied' | 'shortlisted' | 'rejected' | 'interview' | 'selected';
   applied_at: string;
   updated_at: string;
-  job?: Job;
+  job?: Partial<Job>;
   // candidate?: {
   //   id: string;
   //   name: string;
@@ -88,228 +156,269 @@ export interface Application {
   candidate_email?: string;
 }
 
-// Interface for the response from /auth/protected
-interface ProtectedResponse {
-    message: string;
-    user_id: string; // This is the Supabase UID (auth_uid)
-    email: string;
+// Per-call options for the exported API functions
+export interface RequestOptions {
+  // Abort the request (and any pending retries), e.g. from useRequestCancellation
+  signal?: AbortSignal;
 }
 
-// Helper function for API calls (Re-enabling token for protected routes)
-async function apiCall<T>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<ApiResponse<T>> {
+// The mock backend (seed data, TOTP, the digest notifier and friends) is loaded the first time
+// a request goes to it, so builds that talk to Flask download none of it
+let mockBackend: Promise<typeof import('./mockBackend')> | null = null;
+const loadMockBackend = () => (mockBackend ??= import('./mockBackend'));
+
+// Only these are safe to repeat automatically; a retried POST could apply twice
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+interface ApiCallInit extends RequestInit {
+  // false for a request that can't be repeated safely despite its method, because a repeat
+  // after a lost response would fail and report an error for something that happened
+  retry?: boolean;
+}
+const MAX_RETRY_DELAY_MS = 10000;
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(ApiError.aborted());
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(ApiError.aborted());
+    }, { once: true });
+  });
+}
+
+// Exponential backoff with jitter: ~base, ~2x base, ~4x base ... capped at MAX_RETRY_DELAY_MS
+function backoffDelay(attempt: number, baseDelayMs: number): number {
+  const exponential = baseDelayMs * 2 ** attempt;
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  return Math.min(jittered, MAX_RETRY_DELAY_MS);
+}
+
+// Sends a single request. The caller's signal and the per-attempt timeout share one controller.
+async function sendRequest<T>(endpoint: string, options: RequestInit): Promise<ApiResponse<T>> {
+  // Base URL, timeout and default headers come from the runtime config (see lib/config.ts)
+  const { apiBaseUrl, requestTimeoutMs, defaultHeaders, useMockApi, mockLatencyMs } = getConfig();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), requestTimeoutMs);
+  const callerSignal = options.signal;
+  const abortFromCaller = () => controller.abort();
+  callerSignal?.addEventListener('abort', abortFromCaller, { once: true });
+
   try {
+    if (callerSignal?.aborted) {
+      throw ApiError.aborted();
+    }
+
     const token = await getAccessToken(); // Re-enabled token
     
     const headers: HeadersInit = {
-      'Content-Type': 'application/json',
+      ...defaultHeaders,
       ...(token && { Authorization: `Bearer ${token}` }), // Re-enabled token
       ...options.headers,
     };
 
-    const response = await fetch(`${BASE_URL}${endpoint}`, {
-      ...options,
-      headers,
-    });
+    const init: RequestInit = { ...options, headers, signal: controller.signal };
+    const response = useMockApi
+      ? await (await loadMockBackend()).mockFetch(endpoint, init, mockLatencyMs)
+      : await fetch(`${apiBaseUrl}${endpoint}`, init);
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
-      const customErrorMessage = errorData.error || errorData.message;
-      throw new Error(customErrorMessage || `HTTP error! status: ${response.status}`);
+      throw ApiError.fromResponse(response, errorData);
     }
 
     const data = await response.json();
     return { data, error: null };
   } catch (error) {
-    return {
-      data: null,
-      error: error instanceof Error ? error.message : 'An unexpected error occurred',
-    };
+    // An abort is either the caller cancelling or our own timeout firing
+    if (callerSignal?.aborted) {
+      return { data: null, error: ApiError.aborted() };
+    }
+    return { data: null, error: ApiError.from(error, requestTimeoutMs) };
+  } finally {
+    clearTimeout(timeoutId);
+    callerSignal?.removeEventListener('abort', abortFromCaller);
+  }
+}
+
+// Helper function for API calls (Re-enabling token for protected routes)
+// Idempotent requests are retried with exponential backoff while the error is retryable
+// (network failure, timeout, 429, 5xx) - this covers the Render free tier cold start.
+// A call passes retry: false when a repeat isn't safe after all (see ApiCallInit).
+// When a schema is given the response body is validated and normalized (see lib/schemas.ts).
+async function apiCall<T>(
+  endpoint: string,
+  { retry = true, ...options }: ApiCallInit = {},
+  schema?: Schema<T>
+): Promise<ApiResponse<T>> {
+  const { maxRetries, retryBaseDelayMs } = getConfig();
+  const method = (options.method || 'GET').toUpperCase();
+  const attempts = retry && IDEMPOTENT_METHODS.includes(method) ? maxRetries + 1 : 1;
+
+  let result: ApiResponse<T> = await sendRequest<T>(endpoint, options);
+  for (let attempt = 1; attempt < attempts; attempt++) {
+    if (!result.error?.retryable) {
+      break;
+    }
+    try {
+      // A 429 tells us how long to wait; otherwise back off exponentially
+      await sleep(result.error.retryAfterMs ?? backoffDelay(attempt - 1, retryBaseDelayMs), options.signal);
+    } catch {
+      return { data: null, error: ApiError.aborted() };
+    }
+    result = await sendRequest<T>(endpoint, options);
+  }
+  if (schema && !result.error) {
+    return decodeResponse(schema, result.data, endpoint);
   }
+  return result;
 }
 // =============Auth ENDPOINTS =============
 
-export async function apiLogin(email: string, password: string): Promise<ApiResponse<any>> {
-  return apiCall<any>('/auth/login', {
+export interface LoginResponse {
+  access_token: string;
+  user: FlaskUser;
+}
+
+// Returned by apiLogin instead of a token when the account has two-factor authentication on
+export interface TwoFactorChallenge {
+  two_factor_required: true;
+  challenge_token: string; // short-lived; exchanged with a code in verifyTwoFactorLogin
+}
+
+export function isTwoFactorChallenge(result: LoginResponse | TwoFactorChallenge): result is TwoFactorChallenge {
+  return 'two_factor_required' in result && result.two_factor_required === true;
+}
+
+export async function apiLogin(email: string, password: string): Promise<ApiResponse<LoginResponse | TwoFactorChallenge>> {
+  return apiCall('/auth/login', {
     method: 'POST',
     body: JSON.stringify({ email, password }),
-  });
+  }, loginResultSchema);
+}
+
+// Second sign-in step: `code` is from the authenticator app or one of the backup codes
+export async function verifyTwoFactorLogin(challengeToken: string, code: string): Promise<ApiResponse<LoginResponse>> {
+  return apiCall('/auth/2fa/verify', {
+    method: 'POST',
+    body: JSON.stringify({ challenge_token: challengeToken, code }),
+  }, loginSchema);
 }
 
+// The body isn't read: the new user signs in afterwards
 export async function apiSignup(email: string, password: string, role: string, firstName: string, 
-    lastName: string): Promise<ApiResponse<any>> {
-  return apiCall<any>('/auth/signup', {
+    lastName: string): Promise<ApiResponse<unknown>> {
+  return apiCall('/auth/signup', {
     method: 'POST',
     body: JSON.stringify({ email, password, role, first_name: firstName, 
         last_name: lastName }),
   });
 }
-// ============ JOB ENDPOINTS ============
 
-/**
- * Parses a salary range string (e.g., "10-12 LPA") and converts it 
- * to salary_min and salary_max numerical values.
- */
-function parseSalaryRange(salaryRange: string | null): { salary_min?: number; salary_max?: number } {
-  if (!salaryRange || typeof salaryRange !== 'string') {
-    return {};
-  }
-  
-  // Regex to find two numerical groups, even with spaces or non-numeric characters in between
-  const match = salaryRange.match(/(\d+)\s*-\s*(\d+)/);
-  
-  if (match) {
-    const min = parseInt(match[1], 10);
-    const max = parseInt(match[2], 10);
-    
-    // Assuming 10k scaling based on your previous note (10 * 10,000 = 100,000 for $100k display)
-    return { salary_min: min * 10000, salary_max: max * 10000 }; 
-  }
-  
-  // Handle single number salaries if needed (e.g., "10 LPA")
-  const singleMatch = salaryRange.match(/(\d+)/);
-  if (singleMatch) {
-    const min = parseInt(singleMatch[1], 10);
-    return { salary_min: min * 10000, salary_max: undefined };
-  }
-  
-  return {};
+// Swaps the current, still valid, access token for one with a fresh lifetime. Sign-in goes
+// through Flask, so this is the only session there is to refresh (see AuthProvider).
+export async function apiRefreshToken(): Promise<ApiResponse<{ access_token: string }>> {
+  return apiCall('/auth/refresh', { method: 'POST' }, accessTokenSchema);
 }
 
-function createSalaryRangeString(jobData: Partial<Job>): string | undefined {
-    const min = jobData.salary_min;
-    const max = jobData.salary_max;
+// Password reset and email verification. The emailed links open /auth/reset-password and
+// /auth/verify-email with a one-time `token` query parameter.
 
-    if (min === undefined && max === undefined) {
-        return undefined;
-    }
-    // Check if both fields are truly empty or zero (assuming 0 is not a valid salary)
-    // If the salary fields were optional, we would simply return undefined here.
-    // Since the backend says 'salary_range is required', we must assume at least one non-zero value is needed.
-    const hasValidMin = min !== undefined && min > 0; // True (8000 > 0)
-    const hasValidMax = max !== undefined && max > 0;
-
-    if (!hasValidMin && !hasValidMax) {
-        // If neither is present or both are 0, return undefined. 
-        // NOTE: If the backend requires this field, returning undefined here will fail.
-        // We will stick to returning undefined, and instead rely on the form to enforce non-empty.
-        return undefined;
-    }
-    // Scale down by 10000 to get the LPA number (e.g., 80000 -> 8)
-    // Use Math.round to handle potential floating-point issues, though ideally inputs are clean.
-    const minLPA = min !== undefined ? Math.round(min / 10000) : null; // Math.round(0.8) = 1
-    const maxLPA = max !== undefined ? Math.round(max / 10000) : null;
+export async function requestPasswordReset(email: string): Promise<ApiResponse<{ message: string }>> {
+  return apiCall('/auth/forgot-password', {
+    method: 'POST',
+    body: JSON.stringify({ email }),
+  }, messageSchema);
+}
 
-    if (minLPA && maxLPA) {
-        return `${minLPA}-${maxLPA} LPA`;
-    }
-    if (minLPA) {
-        return `${minLPA} LPA`; // e.g., "8 LPA"
-    }
-    if (maxLPA) {
-        return `Up to ${maxLPA} LPA`; // e.g., "Up to 12 LPA"
-    }
-    return undefined;
+export async function resetPassword(token: string, password: string): Promise<ApiResponse<{ message: string }>> {
+  return apiCall('/auth/reset-password', {
+    method: 'POST',
+    body: JSON.stringify({ token, password }),
+  }, messageSchema);
 }
 
-// ✅ UPDATE: Use the new BackendJobResponse interface for the return type and add mapping logic
-export async function getJobs(page = 1, pageSize = 10, search = ''): Promise<ApiResponse<BackendJobResponse>> {
-  // Build the query string, including the search parameter
-  let endpoint = `/jobs/?page=${page}&page_size=${pageSize}`;
-  if (search) {
-    // Assuming your Flask backend accepts a 'q' parameter for search
-    endpoint += `&q=${encodeURIComponent(search)}`;
-  }
-  
-  const result = await apiCall<BackendJobResponse>(endpoint);
+export async function verifyEmail(token: string): Promise<ApiResponse<{ message: string }>> {
+  return apiCall('/auth/verify-email', {
+    method: 'POST',
+    body: JSON.stringify({ token }),
+  }, messageSchema);
+}
 
-  if (result.error || !result.data) {
-    return { data: null, error: result.error || "Failed to fetch jobs." };
-  }
-  
-  // 🔥 CRITICAL MAPPING: Process each job to extract salary and ensure correct keys
-  const processedJobs = result.data.jobs.map((rawJob: any) => {
-    
-    const flaskJob = rawJob as any; 
-    
-    // 1. Parse the salary range string
-    const salaryData = parseSalaryRange(flaskJob.salary_range);
-    
-    // 2. Map Flask keys (salary_range, company_name, skills_required) to Frontend keys (Job interface)
-    const frontendJob: Job = {
-        ...flaskJob, // Keep all existing properties
-        
-        // --- Mapping Salary ---
-        salary_min: salaryData.salary_min,
-        salary_max: salaryData.salary_max,
-
-        // --- Mapping Company and Requirements (for consistency) ---
-        company: flaskJob.company_name || flaskJob.company || 'Company N/A', 
-        requirements: flaskJob.skills_required || flaskJob.requirements, 
-        
-        // Ensure ID is present
-        id: flaskJob.id,
-    };
-    
-    return frontendJob;
-  });
+// Sends a new link to the signed-in user's address
+export async function resendVerificationEmail(): Promise<ApiResponse<{ message: string }>> {
+  return apiCall('/auth/resend-verification', { method: 'POST' }, messageSchema);
+}
 
-  // Return the processed jobs list, replacing the raw list
-  return { 
-    data: {
-      ...result.data,
-      jobs: processedJobs, // Return the mapped list
-    }, 
-    error: null 
-  };
+// Two-factor (TOTP) management for the signed-in user
+
+export interface TwoFactorSetup {
+  secret: string; // base32, for typing into an authenticator app by hand
+  otpauth_url: string; // encoded in the enrollment QR code
 }
 
+// Creates a new secret. Two-factor stays off until enableTwoFactor confirms a code from it.
+export async function startTwoFactorSetup(): Promise<ApiResponse<TwoFactorSetup>> {
+  return apiCall('/auth/2fa/setup', { method: 'POST' }, twoFactorSetupSchema);
+}
 
-// 1. Define the wrapper interface for a single job response
-export interface SingleJobResponse {
-  job: any; // Use 'any' temporarily or define a more specific mapping type
+export async function enableTwoFactor(code: string): Promise<ApiResponse<{ backup_codes: string[] }>> {
+  return apiCall('/auth/2fa/enable', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  }, backupCodesSchema);
 }
 
-// 2. Update the getJob function
-export async function getJob(id: string): Promise<ApiResponse<Job>> {
-  // Use the wrapper interface when calling the API
-  const result = await apiCall<SingleJobResponse>(`/jobs/${id}`);
+// Accepts an authenticator code or a backup code
+export async function disableTwoFactor(code: string): Promise<ApiResponse<{ message: string }>> {
+  return apiCall('/auth/2fa/disable', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  }, messageSchema);
+}
 
-  if (result.error || !result.data?.job) {
-    return { data: null, error: result.error || "Job data not found in response." };
-  }
+// Replaces every backup code; the old ones stop working
+export async function regenerateBackupCodes(code: string): Promise<ApiResponse<{ backup_codes: string[] }>> {
+  return apiCall('/auth/2fa/backup-codes', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  }, backupCodesSchema);
+}
+// ============ JOB ENDPOINTS ============
 
-  // Manually map the data structure before returning
-  const flaskJob = result.data.job;
-  // 🔥 CRITICAL: Parse the salary string here
-  const salaryData = parseSalaryRange(flaskJob.salary_range);
-
-  // Map Flask keys (e.g., company_name, skills_required) to Frontend keys (e.g., company, requirements)
-  const frontendJob: Job = {
-    // Standard fields
-    id: flaskJob.id,
-    title: flaskJob.title,
-    location: flaskJob.location,
-    job_type: flaskJob.job_type,
-    experience_level: flaskJob.experience_level,
-    description: flaskJob.description,
-    recruiter_id: flaskJob.recruiter_id,
-    created_at: flaskJob.created_at,
-    updated_at: flaskJob.updated_at,
-    
-    // Mapped fields
-    company: flaskJob.company_name, // Map company_name -> company
-    requirements: flaskJob.skills_required, // Map skills_required -> requirements
-    
-    // Optional/Nullable fields (INJECT mapped salary here)
-    salary_min: salaryData.salary_min, 
-    salary_max: salaryData.salary_max,
-    benefits: undefined,
-  };
+// Jobs are normalized from the Flask shape (salary_range, company_name, skills_required) by jobSchema
+export async function getJobs(
+  page = 1,
+  pageSize = 10,
+  filters: JobFilters = {},
+  order: JobOrder = { sort: 'newest' },
+  options: RequestOptions = {}
+): Promise<ApiResponse<BackendJobResponse>> {
+  const params = jobFiltersToApiParams(filters);
+  if (order.sort !== 'newest') params.set('sort', order.sort);
+  if (order.near) params.set('near', `${order.near.lat},${order.near.lng}`);
+  params.set('page', String(page));
+  params.set('page_size', String(pageSize));
+  return apiCall(`/jobs/?${params}`, { signal: options.signal }, jobPageSchema);
+}
 
-  return { data: frontendJob, error: null };
+export async function getJob(id: string, options: RequestOptions = {}): Promise<ApiResponse<Job>> {
+  // The backend wraps the job as { job: {...} }; singleJobSchema unwraps and normalizes it
+  return apiCall(`/jobs/${id}`, { signal: options.signal }, singleJobSchema);
+}
+
+// Titles, companies, locations and skills starting with (or close to) what's been typed
+export async function getJobSuggestions(
+  search: string,
+  limit = 8,
+  options: RequestOptions = {}
+): Promise<ApiResponse<JobSuggestion[]>> {
+  const params = new URLSearchParams({ q: search, limit: String(limit) });
+  return apiCall(`/jobs/suggestions?${params}`, { signal: options.signal }, jobSuggestionsSchema);
 }
 
 
@@ -317,20 +426,24 @@ export async function getJob(id: string): Promise<ApiResponse<Job>> {
 // 🔥 MODIFIED CREATE JOB FUNCTION (WRITES TO BACKEND)
 // ----------------------------------------------------
 
-export async function createJob(jobData: Partial<Job>): Promise<ApiResponse<Job>> {
+// The body isn't read; the job lists are refetched instead
+export async function createJob(jobData: Partial<Job>): Promise<ApiResponse<unknown>> {
   // We must transform the frontend's separate fields (min/max, requirements) 
   // into the backend's required format (salary_range, skills_required).
-  const salaryRange = createSalaryRangeString(jobData);
+  const salaryRange = createSalaryRangeString(jobData.salary);
   // 🛑 FIX: Enforce required field check on the client-side API layer
   if (!salaryRange) {
       return { 
           data: null, 
-          error: "Salary range (Min or Max Salary) is required. Please enter at least one value." 
+          error: ApiError.validation(
+            "Salary range (Min or Max Salary) is required. Please enter at least one value.",
+            { salary_min: "Enter a minimum or maximum salary." }
+          ),
       };
   }
   const transformedData: any = {
       ...jobData,
-      // 1. Convert salary_min/max back to salary_range string
+      // 1. Convert the Salary back to the salary_range string
       salary_range: salaryRange,
 
       // 2. Map frontend requirements array back to backend skills_required array
@@ -340,8 +453,7 @@ export async function createJob(jobData: Partial<Job>): Promise<ApiResponse<Job>
       company_name: jobData.company,
 
       // 4. Explicitly remove frontend-only/unwanted properties from the body
-      salary_min: undefined, // Remove to avoid confusing the Flask endpoint
-      salary_max: undefined,
+      salary: undefined, // Remove to avoid confusing the Flask endpoint
       requirements: undefined,
       company: undefined,
   };
@@ -350,7 +462,7 @@ export async function createJob(jobData: Partial<Job>): Promise<ApiResponse<Job>
   // Note: JSON.stringify will automatically omit undefined values if they are the value of a key.
   // We explicitly create the body from the transformed object.
   const body = JSON.stringify(transformedData);
-  return apiCall<Job>('/jobs/create', {
+  return apiCall('/jobs/create', {
     method: 'POST',
     body: body,
   });
@@ -361,7 +473,7 @@ export async function createJob(jobData: Partial<Job>): Promise<ApiResponse<Job>
 // 🔥 MODIFIED UPDATE JOB FUNCTION (WRITES TO BACKEND)
 // ----------------------------------------------------
 
-export async function updateJob(id: string, jobData: Partial<Job>): Promise<ApiResponse<Job>> {
+export async function updateJob(id: string, jobData: Partial<Job>): Promise<ApiResponse<unknown>> {
   // We must transform the frontend's separate fields (min/max, requirements) 
   // into the backend's required format (salary_range, skills_required) for the update.
   
@@ -369,27 +481,30 @@ export async function updateJob(id: string, jobData: Partial<Job>): Promise<ApiR
   const updatePayload: Partial<Job> = {};
 
   // Get the salary range string
-  const salaryRange = createSalaryRangeString(jobData);
+  const salaryRange = createSalaryRangeString(jobData.salary);
   
   // 🛑 FIX: Enforce required field check on the client-side API layer for updates as well
   if (!salaryRange) {
       return { 
           data: null, 
-          error: "Salary range (Min or Max Salary) is required. Please ensure you enter a value." 
+          error: ApiError.validation(
+            "Salary range (Min or Max Salary) is required. Please ensure you enter a value.",
+            { salary_min: "Enter a minimum or maximum salary." }
+          ),
       };
   }
 
   // Copy non-salary properties
   for (const key in jobData) {
-      if (key !== 'salary_min' && key !== 'salary_max') {
+      if (key !== 'salary') {
           (updatePayload as any)[key] = (jobData as any)[key];
       }
   }
 
-  // Handle Salary conversion only if min or max were provided in the update payload
-  if (jobData.salary_min !== undefined || jobData.salary_max !== undefined) {
-      // The helper handles converting min/max back to the required string
-      (updatePayload as any)['salary_range'] = createSalaryRangeString(jobData);
+  // Handle Salary conversion only if a salary was provided in the update payload
+  if (jobData.salary !== undefined) {
+      // createSalaryRangeString above already wrote it in the backend's format
+      (updatePayload as any)['salary_range'] = salaryRange;
   }
   
   // Handle Requirements and Company Name mapping for update
@@ -401,14 +516,13 @@ export async function updateJob(id: string, jobData: Partial<Job>): Promise<ApiR
   }
   
   // Remove the frontend-only keys if they somehow made it through
-  delete updatePayload.salary_min;
-  delete updatePayload.salary_max;
+  delete updatePayload.salary;
   delete updatePayload.requirements;
   delete updatePayload.company;
 
   const body = JSON.stringify(updatePayload);
 
-  return apiCall<Job>(`/jobs/${id}`, {
+  return apiCall(`/jobs/${id}`, {
     method: 'PUT',
     body: body,
   });
@@ -420,23 +534,32 @@ export async function deleteJob(id: string): Promise<ApiResponse<void>> {
   });
 }
 
-export async function getRecruiterJobs(page = 1, pageSize = 10): Promise<ApiResponse<BackendJobResponse>> {
-  // ✅ CHANGE: Use the new BackendJobResponse interface for the return type
-  return apiCall<BackendJobResponse>(`/jobs/my-jobs?page=${page}&page_size=${pageSize}`);
+export async function getRecruiterJobs(
+  page = 1,
+  pageSize = 10,
+  options: RequestOptions = {}
+): Promise<ApiResponse<BackendJobResponse>> {
+  return apiCall(`/jobs/my-jobs?page=${page}&page_size=${pageSize}`, { signal: options.signal }, jobPageSchema);
 }
 
 
 // ============ SAVED JOBS ENDPOINTS ============ 
 
-export async function saveJob(jobId: string): Promise<ApiResponse<SavedJob>> {
-  return apiCall<SavedJob>('/user-jobs/saved-jobs', {
+export async function saveJob(jobId: string): Promise<ApiResponse<unknown>> {
+  return apiCall('/user-jobs/saved-jobs', {
     method: 'POST',
     body: JSON.stringify({ job_id: jobId }),
   });
 }
 
-export async function getSavedJobs(page = 1, pageSize = 10): Promise<ApiResponse<BackendSavedJobResponse>> {
-  return apiCall<BackendSavedJobResponse>(`/user-jobs/saved-jobs?page=${page}&page_size=${pageSize}`);
+export async function getSavedJobs(
+  page = 1,
+  pageSize = 10,
+  options: RequestOptions = {}
+): Promise<ApiResponse<BackendSavedJobResponse>> {
+  return apiCall(`/user-jobs/saved-jobs?page=${page}&page_size=${pageSize}`, {
+    signal: options.signal,
+  }, savedJobPageSchema);
 }
 
 export async function removeSavedJob(id: string): Promise<ApiResponse<void>> {
@@ -445,35 +568,98 @@ export async function removeSavedJob(id: string): Promise<ApiResponse<void>> {
   });
 }
 
+// ============ SAVED SEARCHES ============
+
+// A candidate's saved Jobs query; new_job_count is what the alerts badge shows
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filters: JobFilters;
+  // Paused searches keep their filters but don't alert
+  paused: boolean;
+  // Include in the daily digest email
+  email_digest: boolean;
+  new_job_count: number;
+  created_at: string;
+  last_seen_at: string;
+}
+
+export interface SavedSearchInput {
+  name: string;
+  filters: JobFilters;
+  email_digest: boolean;
+}
+
+export type SavedSearchChanges = Partial<Pick<SavedSearch, 'name' | 'paused' | 'email_digest'>>;
+
+export async function getSavedSearches(options: RequestOptions = {}): Promise<ApiResponse<SavedSearch[]>> {
+  return apiCall('/saved-searches/', { signal: options.signal }, savedSearchListSchema);
+}
+
+// The filters are stored as the jobs endpoint's query string, so the backend can rerun them for alerts
+export async function createSavedSearch(input: SavedSearchInput): Promise<ApiResponse<SavedSearch>> {
+  return apiCall('/saved-searches/', {
+    method: 'POST',
+    body: JSON.stringify({
+      name: input.name,
+      query: jobFiltersToApiParams(input.filters).toString(),
+      email_digest: input.email_digest,
+    }),
+  }, savedSearchSchema);
+}
+
+export async function updateSavedSearch(id: string, changes: SavedSearchChanges): Promise<ApiResponse<SavedSearch>> {
+  return apiCall(`/saved-searches/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  }, savedSearchSchema);
+}
+
+// Clears the search's new-job count; called when the candidate opens it
+export async function markSavedSearchSeen(id: string): Promise<ApiResponse<SavedSearch>> {
+  return apiCall(`/saved-searches/${id}/seen`, { method: 'POST' }, savedSearchSchema);
+}
+
+export async function deleteSavedSearch(id: string): Promise<ApiResponse<{ message: string }>> {
+  return apiCall(`/saved-searches/${id}`, { method: 'DELETE' }, messageSchema);
+}
+
 // ============ APPLICATION ENDPOINTS ============ 
 
+// What applyJob reads back: the id and status for the applied-job index. Either can be
+// missing, since the application exists once the POST succeeds whatever the body says.
+export type NewApplication = Partial<Pick<Application, 'id' | 'status'>>;
+
 export async function applyJob(
   jobId: string,
   resumeUrl: string,
   coverLetter?: string
-): Promise<ApiResponse<Application>> {
-  return apiCall<Application>('/user-jobs/applications', {
+): Promise<ApiResponse<NewApplication>> {
+  return apiCall('/user-jobs/applications', {
     method: 'POST',
     body: JSON.stringify({
       job_id: jobId,
       resume_url: resumeUrl,
       cover_letter: coverLetter,
     }),
-  });
+  }, newApplicationSchema);
 }
 
 export async function getMyApplications(
   page = 1,
-  pageSize = 10
+  pageSize = 10,
+  options: RequestOptions = {}
 ): Promise<ApiResponse<BackendApplicationResponse>> {
-  return apiCall<BackendApplicationResponse>(`/user-jobs/applications?page=${page}&page_size=${pageSize}`);
+  return apiCall(`/user-jobs/applications?page=${page}&page_size=${pageSize}`, {
+    signal: options.signal,
+  }, applicationPageSchema);
 }
 
 export async function updateApplication(
   id: string,
   data: { resume_url?: string; cover_letter?: string }
-): Promise<ApiResponse<Application>> {
-  return apiCall<Application>(`/user-jobs/applications/${id}`, {
+): Promise<ApiResponse<unknown>> {
+  return apiCall(`/user-jobs/applications/${id}`, {
     method: 'PATCH',
     body: JSON.stringify(data),
   });
@@ -486,29 +672,36 @@ export async function withdrawApplication(id: string): Promise<ApiResponse<void>
 }
 
 
-// Helper function to check for a single application status
-export async function getJobApplicationStatus(jobId: string): Promise<ApiResponse<{ status: string } | null>> {
-  // NOTE: Your backend only has GET /applications (list) or GET /applications/recruiter.
-  // We will call the candidate's list endpoint and rely on the list to contain the status.
-  
-  const result = await getMyApplications(1, 500); // Fetch a reasonable number of recent applications
+// Job id -> the candidate's application for that job
+export type AppliedJobsIndex = Record<string, { applicationId: string; status: Application['status'] }>;
 
-  if (result.error) {
-    return { data: null, error: result.error };
-  }
+const APPLIED_JOBS_PAGE_SIZE = 100;
 
-  // Find the application for the specific job ID
-  const application = result.data?.applications.find(
-    (app) => app.job_id === jobId
-  );
+/**
+ * Every job the signed-in candidate has applied to, keyed by job id.
+ * The backend has no per-job status endpoint, so this walks the candidate's application
+ * list once; callers share the result instead of downloading it per job.
+ */
+export async function getAppliedJobsIndex(
+  options: RequestOptions = {}
+): Promise<ApiResponse<AppliedJobsIndex>> {
+  const index: AppliedJobsIndex = {};
+
+  for (let page = 1; ; page++) {
+    const result = await getMyApplications(page, APPLIED_JOBS_PAGE_SIZE, options);
+    if (result.error) {
+      return { data: null, error: result.error };
+    }
 
-  if (application) {
-    // Return the status if found
-    return { data: { status: application.status }, error: null };
-  }
+    const { applications, total } = result.data!;
+    for (const application of applications) {
+      index[application.job_id] = { applicationId: application.id, status: application.status };
+    }
 
-  // Return null data if not applied
-  return { data: null, error: null };
+    if (applications.length < APPLIED_JOBS_PAGE_SIZE || page * APPLIED_JOBS_PAGE_SIZE >= total) {
+      return { data: index, error: null };
+    }
+  }
 }
 
 // ============ RECRUITER APPLICATION ENDPOINTS ============
@@ -526,7 +719,8 @@ export async function getRecruiterApplications(
   page = 1,
   pageSize = 10,
   // 🔥 MODIFICATION 1: Accept an optional jobId parameter
-  jobId?: string 
+  jobId?: string,
+  options: RequestOptions = {}
 ): Promise<ApiResponse<BackendApplicationResponse>> {
   
   let endpoint = `/user-jobs/applications/recruiter?page=${page}&page_size=${pageSize}`;
@@ -536,14 +730,14 @@ export async function getRecruiterApplications(
     endpoint += `&job_id=${jobId}`;
   }
 
-  return apiCall<BackendApplicationResponse>(endpoint);
+  return apiCall(endpoint, { signal: options.signal }, applicationPageSchema);
 }
 
 export async function updateApplicationStatus(
   id: string,
   status: 'shortlisted' | 'rejected' | 'interview' | 'selected'
-): Promise<ApiResponse<Application>> {
-  return apiCall<Application>(`/user-jobs/applications/${id}`, {
+): Promise<ApiResponse<unknown>> {
+  return apiCall(`/user-jobs/applications/${id}`, {
     method: 'PATCH',
     body: JSON.stringify({ status }),
   });
@@ -551,22 +745,29 @@ export async function updateApplicationStatus(
 
 // ============ PROFILE ENDPOINT ============
 
-export async function getMyProfile(): Promise<ApiResponse<FlaskUser>> {
+// `accessToken` checks a token that isn't stored yet; by default the stored one is used
+export async function getMyProfile(
+  options: RequestOptions & { accessToken?: string } = {}
+): Promise<ApiResponse<FlaskUser>> {
+    const init: RequestInit = {
+      signal: options.signal,
+      ...(options.accessToken && { headers: { Authorization: `Bearer ${options.accessToken}` } }),
+    };
     // 1. Validate the token and get the auth_uid/email from the protected route
-    const tokenValidationResult = await apiCall<ProtectedResponse>('/auth/protected');
+    const tokenValidationResult = await apiCall('/auth/protected', init, protectedSchema);
     
     if (tokenValidationResult.error || !tokenValidationResult.data) {
         // If token validation fails, return the error
-        return { data: null, error: tokenValidationResult.error || "Token validation failed." };
+        return { data: null, error: tokenValidationResult.error || new ApiError("Token validation failed.", { code: 'unauthorized' }) };
     }
 
     const { user_id: auth_uid, email } = tokenValidationResult.data;
     
     // 2. Fetch the full profile from the database using the user_id (auth_uid)
-    const profileResult = await apiCall<Omit<FlaskUser, 'email'>>(`/auth/profile/${auth_uid}`);
+    const profileResult = await apiCall(`/auth/profile/${auth_uid}`, init, profileSchema);
 
     if (profileResult.error || !profileResult.data) {
-        return { data: null, error: profileResult.error || "Failed to fetch user profile data." };
+        return { data: null, error: profileResult.error || new ApiError("Failed to fetch user profile data.") };
     }
     
     // 3. Combine and cast the data
@@ -579,8 +780,181 @@ export async function getMyProfile(): Promise<ApiResponse<FlaskUser>> {
         last_name: profileData.last_name,
         role: profileData.role,
         email: email, // Add the email from the protected route
+        email_verified: profileData.email_verified,
+        two_factor_enabled: profileData.two_factor_enabled,
     };
 
     return { data: fullUser as FlaskUser, error: null };
 }
 
+// ============ ACCOUNT SETTINGS ============
+
+// Sent with sensitive changes: the current password, plus a code when two-factor is on
+export interface Reauthentication {
+  current_password: string;
+  code?: string;
+}
+
+export interface NotificationPreferences {
+  application_updates: boolean; // candidates: status changes; recruiters: new applicants
+  job_recommendations: boolean;
+  product_news: boolean;
+}
+
+export async function updateProfileName(firstName: string, lastName: string): Promise<ApiResponse<FlaskUser>> {
+  return apiCall('/auth/profile', {
+    method: 'PATCH',
+    body: JSON.stringify({ first_name: firstName, last_name: lastName }),
+  }, flaskUserSchema);
+}
+
+export async function changePassword(
+  reauth: Reauthentication,
+  newPassword: string
+): Promise<ApiResponse<{ message: string }>> {
+  return apiCall('/auth/change-password', {
+    method: 'POST',
+    body: JSON.stringify({ ...reauth, new_password: newPassword }),
+  }, messageSchema);
+}
+
+// The new address starts unverified; a verification link is sent to it
+export async function changeEmail(reauth: Reauthentication, newEmail: string): Promise<ApiResponse<FlaskUser>> {
+  return apiCall('/auth/change-email', {
+    method: 'POST',
+    body: JSON.stringify({ ...reauth, new_email: newEmail }),
+  }, flaskUserSchema);
+}
+
+export async function getNotificationPreferences(
+  options: RequestOptions = {}
+): Promise<ApiResponse<NotificationPreferences>> {
+  return apiCall('/auth/preferences/notifications', { signal: options.signal }, notificationPreferencesSchema);
+}
+
+export async function updateNotificationPreferences(
+  preferences: NotificationPreferences
+): Promise<ApiResponse<NotificationPreferences>> {
+  return apiCall('/auth/preferences/notifications', {
+    method: 'PUT',
+    body: JSON.stringify(preferences),
+  }, notificationPreferencesSchema);
+}
+
+// Everything the backend stores about the signed-in user, for download
+export async function exportAccountData(): Promise<ApiResponse<Record<string, unknown>>> {
+  return apiCall('/auth/export', {}, accountExportSchema);
+}
+
+// Permanent: removes the account, its saved jobs and applications (and a recruiter's listings).
+// Never retried: if the first attempt deleted the account, a retry would fail to authenticate.
+export async function deleteAccount(reauth: Reauthentication): Promise<ApiResponse<{ message: string }>> {
+  return apiCall('/auth/account', {
+    method: 'DELETE',
+    body: JSON.stringify(reauth),
+    retry: false,
+  }, messageSchema);
+}
+
+// ============ CANDIDATE PROFILE ============
+
+export interface WorkExperience {
+  title: string;
+  company: string;
+  start_date: string; // YYYY-MM
+  end_date?: string; // YYYY-MM; missing for the current role
+  description?: string;
+}
+
+export interface Education {
+  school: string;
+  degree: string;
+  field_of_study?: string;
+  start_year?: number;
+  end_year?: number;
+}
+
+export interface ProfileLink {
+  label: string;
+  url: string;
+}
+
+export interface CandidateProfile {
+  candidate_id: string;
+  name: string;
+  headline: string;
+  summary: string;
+  skills: string[];
+  experience: WorkExperience[];
+  education: Education[];
+  links: ProfileLink[];
+  // Default resume for one-click apply; empty until the candidate sets one
+  resume_url: string;
+  updated_at?: string; // missing until the profile is first saved
+}
+
+export type CandidateProfileInput = Omit<CandidateProfile, 'candidate_id' | 'name' | 'updated_at'>;
+
+export async function getMyCandidateProfile(options: RequestOptions = {}): Promise<ApiResponse<CandidateProfile>> {
+  return apiCall('/candidates/me/profile', { signal: options.signal }, candidateProfileSchema);
+}
+
+export async function updateCandidateProfile(profile: CandidateProfileInput): Promise<ApiResponse<CandidateProfile>> {
+  return apiCall('/candidates/me/profile', {
+    method: 'PUT',
+    body: JSON.stringify(profile),
+  }, candidateProfileSchema);
+}
+
+// Recruiters can only read candidates who applied to one of their jobs
+export async function getCandidateProfile(
+  candidateId: string,
+  options: RequestOptions = {}
+): Promise<ApiResponse<CandidateProfile>> {
+  return apiCall(`/candidates/${candidateId}/profile`, { signal: options.signal }, candidateProfileSchema);
+}
+
+// Several applicants at once, e.g. everyone on a page of applications. Candidates the
+// recruiter can't read are left out instead of failing the request.
+export async function getCandidateProfiles(
+  candidateIds: string[],
+  options: RequestOptions = {}
+): Promise<ApiResponse<CandidateProfile[]>> {
+  const params = new URLSearchParams({ ids: candidateIds.join(',') });
+  return apiCall(`/candidates/profiles?${params}`, { signal: options.signal }, candidateProfileListSchema);
+}
+
+// ============ FILE ENDPOINTS ============
+// Resumes live in a private Supabase bucket that the browser can't read or write on its own.
+// The backend signs each upload and download after checking who is asking (see lib/storage.ts).
+
+export interface SignedUpload {
+  path: string; // object path in the bucket, "<user id>/<timestamp>-<file name>"
+  upload_url: string; // one-time URL the file is PUT to
+}
+
+export interface SignedDownload {
+  url: string;
+  expires_in: number; // seconds
+}
+
+// The object is placed in the signed-in candidate's own folder
+export async function getResumeUploadUrl(
+  fileName: string,
+  contentType: string,
+  options: RequestOptions = {}
+): Promise<ApiResponse<SignedUpload>> {
+  return apiCall('/files/resume-upload', {
+    method: 'POST',
+    body: JSON.stringify({ file_name: fileName, content_type: contentType }),
+    signal: options.signal,
+  }, signedUploadSchema);
+}
+
+// Allowed for the resume's owner and for recruiters the candidate applied to
+export async function getResumeDownloadUrl(bucket: string, path: string): Promise<ApiResponse<SignedDownload>> {
+  return apiCall('/files/resume-download', {
+    method: 'POST',
+    body: JSON.stringify({ bucket, path }),
+  }, signedDownloadSchema);
+}
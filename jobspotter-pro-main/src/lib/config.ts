@@ -0,0 +1,155 @@
+// src/lib/config.ts
+// Typed runtime configuration for the API client.
+// Values come from Vite env variables (see .env.example). Development builds, and builds
+// made with VITE_ALLOW_RUNTIME_CONFIG=true, also take overrides from the browser console, e.g.:
+//   setRuntimeConfig({ apiBaseUrl: 'http://127.0.0.1:5000/api/v1' })
+// Anywhere else the build's own values are final, so nobody can repoint a production
+// app at another API or switch it to the mock backend from devtools.
+
+export type AppEnvironment = 'development' | 'staging' | 'production';
+
+// Where uploaded files (resumes) go; see lib/storage.ts
+export type StorageProvider = 'supabase' | 'local';
+
+export interface AppConfig {
+  environment: AppEnvironment;
+  apiBaseUrl: string;
+  requestTimeoutMs: number;
+  // Idempotent requests (GET/PUT/DELETE) are retried this many times on network errors, 429 and 5xx
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  defaultHeaders: Record<string, string>;
+  // Serve every request from the in-browser mock backend (lib/mockBackend.ts)
+  useMockApi: boolean;
+  mockLatencyMs: number;
+  // How long mock access tokens last; lower it to try the session expiry warning
+  mockTokenLifetimeSeconds: number;
+  // Unset follows useMockApi: the local stand-in with the mock backend, Supabase otherwise
+  storageProvider?: StorageProvider;
+  // Private Supabase storage bucket for resumes; the backend signs every upload and download
+  resumeBucket: string;
+  // Mock backend only: where saved-search digests are POSTed (lib/notifier.ts); unset logs them
+  digestWebhookUrl?: string;
+}
+
+const RUNTIME_OVERRIDE_KEY = 'hirify_runtime_config';
+
+const RUNTIME_OVERRIDES_ALLOWED =
+  import.meta.env.DEV || import.meta.env.VITE_ALLOW_RUNTIME_CONFIG === 'true';
+
+const PRODUCTION_API_URL = 'https://hirify-personal-1.onrender.com/api/v1';
+const LOCAL_API_URL = 'http://127.0.0.1:5000/api/v1';
+
+const ENVIRONMENTS: AppEnvironment[] = ['development', 'staging', 'production'];
+
+function parseEnvironment(value: string | undefined): AppEnvironment {
+  if (value && (ENVIRONMENTS as string[]).includes(value)) {
+    return value as AppEnvironment;
+  }
+  // Fall back to Vite's own mode: `npm run dev` is development, `vite build` is production
+  return import.meta.env.PROD ? 'production' : 'development';
+}
+
+function parseStorageProvider(value: string | undefined): StorageProvider | undefined {
+  return value === 'supabase' || value === 'local' ? value : undefined;
+}
+
+function parseTimeout(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function parseCount(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// Accepts a JSON object string, e.g. VITE_API_DEFAULT_HEADERS='{"X-Client":"web"}'
+function parseHeaders(value: string | undefined): Record<string, string> {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    console.warn('Ignoring VITE_API_DEFAULT_HEADERS: not valid JSON.');
+    return {};
+  }
+}
+
+function buildEnvConfig(): AppConfig {
+  const env = import.meta.env;
+  const environment = parseEnvironment(env.VITE_APP_ENV);
+
+  return {
+    environment,
+    apiBaseUrl: env.VITE_API_BASE_URL || (environment === 'development' ? LOCAL_API_URL : PRODUCTION_API_URL),
+    requestTimeoutMs: parseTimeout(env.VITE_API_TIMEOUT_MS, 30000),
+    maxRetries: parseCount(env.VITE_API_MAX_RETRIES, 2),
+    retryBaseDelayMs: parseTimeout(env.VITE_API_RETRY_BASE_DELAY_MS, 500),
+    defaultHeaders: {
+      'Content-Type': 'application/json',
+      ...parseHeaders(env.VITE_API_DEFAULT_HEADERS),
+    },
+    useMockApi: env.VITE_USE_MOCK_API === 'true',
+    mockLatencyMs: parseTimeout(env.VITE_MOCK_LATENCY_MS, 300),
+    mockTokenLifetimeSeconds: parseTimeout(env.VITE_MOCK_TOKEN_LIFETIME_SECONDS, 8 * 60 * 60),
+    storageProvider: parseStorageProvider(env.VITE_STORAGE_PROVIDER),
+    resumeBucket: env.VITE_SUPABASE_RESUME_BUCKET || 'resumes',
+    digestWebhookUrl: env.VITE_DIGEST_WEBHOOK_URL || undefined,
+  };
+}
+
+function readRuntimeOverride(): Partial<AppConfig> {
+  if (!RUNTIME_OVERRIDES_ALLOWED) return {};
+  try {
+    const stored = localStorage.getItem(RUNTIME_OVERRIDE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+function mergeConfig(base: AppConfig, override: Partial<AppConfig>): AppConfig {
+  return {
+    ...base,
+    ...override,
+    defaultHeaders: { ...base.defaultHeaders, ...override.defaultHeaders },
+  };
+}
+
+const envConfig = buildEnvConfig();
+let currentConfig: AppConfig = mergeConfig(envConfig, readRuntimeOverride());
+
+export function getConfig(): AppConfig {
+  return currentConfig;
+}
+
+/**
+ * Overrides config values for this browser and persists them in localStorage
+ * so they survive a reload. Pass `null` to drop all overrides. Does nothing in
+ * builds that don't allow runtime overrides.
+ */
+export function setRuntimeConfig(override: Partial<AppConfig> | null): AppConfig {
+  if (!RUNTIME_OVERRIDES_ALLOWED) {
+    console.warn('Runtime config overrides are disabled in this build.');
+    return currentConfig;
+  }
+  if (override === null) {
+    localStorage.removeItem(RUNTIME_OVERRIDE_KEY);
+    currentConfig = envConfig;
+  } else {
+    const merged = { ...readRuntimeOverride(), ...override };
+    localStorage.setItem(RUNTIME_OVERRIDE_KEY, JSON.stringify(merged));
+    currentConfig = mergeConfig(envConfig, merged);
+  }
+  return currentConfig;
+}
+
+export function isProduction(): boolean {
+  return currentConfig.environment === 'production';
+}
+
+// Expose the override helpers on window for quick switching from devtools
+if (RUNTIME_OVERRIDES_ALLOWED && typeof window !== 'undefined') {
+  (window as Window & { hirifyConfig?: unknown }).hirifyConfig = { getConfig, setRuntimeConfig };
+}
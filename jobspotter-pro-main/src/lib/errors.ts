@@ -0,0 +1,176 @@
+// src/lib/errors.ts
+// Structured error returned in ApiResponse.error by every function in api.ts.
+// Lets the UI tell an expired session from a validation error, a rate limit or an outage.
+
+export type ApiErrorCode =
+  | 'network' // fetch() never reached the server (offline, DNS, CORS)
+  | 'timeout' // request exceeded requestTimeoutMs
+  | 'aborted' // cancelled by the caller (newer request started, component unmounted)
+  | 'unauthorized' // 401
+  | 'forbidden' // 403
+  | 'not_found' // 404
+  | 'conflict' // 409
+  | 'validation' // 400 / 422 or a client-side check in api.ts
+  | 'rate_limited' // 429
+  | 'server' // 5xx
+  | 'invalid_response' // 2xx whose body doesn't match the schema in schemas.ts
+  | 'unknown';
+
+export type FieldErrors = Record<string, string>;
+
+interface ApiErrorOptions {
+  status?: number | null;
+  code?: ApiErrorCode;
+  fieldErrors?: FieldErrors;
+  retryable?: boolean;
+  retryAfterMs?: number;
+}
+
+export class ApiError extends Error {
+  status: number | null;
+  code: ApiErrorCode;
+  fieldErrors: FieldErrors;
+  retryable: boolean;
+  retryAfterMs?: number;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status ?? null;
+    this.code = options.code ?? 'unknown';
+    this.fieldErrors = options.fieldErrors ?? {};
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get isNetworkError(): boolean {
+    return this.code === 'network' || this.code === 'timeout';
+  }
+
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+
+  /** Builds an error from a non-2xx response and its (possibly empty) JSON body. */
+  static fromResponse(response: Response, body: Record<string, unknown>): ApiError {
+    const status = response.status;
+    const code = codeForStatus(status);
+    const message =
+      (typeof body.error === 'string' && body.error) ||
+      (typeof body.message === 'string' && body.message) ||
+      defaultMessages[code] ||
+      `HTTP error! status: ${status}`;
+
+    return new ApiError(message, {
+      status,
+      code,
+      fieldErrors: parseFieldErrors(body.errors ?? body.messages ?? body.details),
+      retryable: code === 'rate_limited' || code === 'server',
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+    });
+  }
+
+  /** Normalizes anything thrown inside apiCall (fetch failures, aborts, bugs) into an ApiError. */
+  static from(error: unknown, timeoutMs?: number): ApiError {
+    if (error instanceof ApiError) return error;
+
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      const seconds = timeoutMs ? ` after ${timeoutMs / 1000}s` : '';
+      return new ApiError(`Request timed out${seconds}`, { code: 'timeout', retryable: true });
+    }
+    // fetch() rejects with a TypeError when the request never gets a response
+    if (error instanceof TypeError) {
+      return new ApiError(defaultMessages.network, { code: 'network', retryable: true });
+    }
+
+    return new ApiError(error instanceof Error ? error.message : 'An unexpected error occurred');
+  }
+
+  /** The caller cancelled the request. Pages should ignore these rather than show them. */
+  static aborted(): ApiError {
+    return new ApiError('Request was cancelled', { code: 'aborted' });
+  }
+
+  /** The backend answered, but not in the shape the frontend expects (schema drift). */
+  static invalidResponse(endpoint: string): ApiError {
+    return new ApiError(`The server sent an unexpected response for ${endpoint}.`, { code: 'invalid_response' });
+  }
+
+  /** Client-side validation failure that should be shown next to the given form fields. */
+  static validation(message: string, fieldErrors: FieldErrors = {}): ApiError {
+    return new ApiError(message, { code: 'validation', fieldErrors });
+  }
+}
+
+const defaultMessages: Partial<Record<ApiErrorCode, string>> = {
+  network: 'Unable to reach the server. Check your internet connection.',
+  unauthorized: 'Your session has expired. Please sign in again.',
+  forbidden: "You don't have permission to do that.",
+  not_found: 'The requested resource was not found.',
+  rate_limited: 'Too many requests. Please wait a moment and try again.',
+  server: 'The server ran into a problem. Please try again shortly.',
+};
+
+function codeForStatus(status: number): ApiErrorCode {
+  if (status === 400 || status === 422) return 'validation';
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 409) return 'conflict';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server';
+  return 'unknown';
+}
+
+// Flask/marshmallow send either { field: "msg" } or { field: ["msg", ...] }
+function parseFieldErrors(raw: unknown): FieldErrors {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const fieldErrors: FieldErrors = {};
+  for (const [field, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof value === 'string') {
+      fieldErrors[field] = value;
+    } else if (Array.isArray(value) && value.length > 0) {
+      fieldErrors[field] = value.map(String).join(' ');
+    }
+  }
+  return fieldErrors;
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Title/description pair for a destructive toast, worded per error kind.
+ * Usage: toast({ ...describeApiError(error), variant: 'destructive' })
+ */
+export function describeApiError(error: ApiError | string): { title: string; description: string } {
+  if (typeof error === 'string') {
+    return { title: 'Error', description: error };
+  }
+  switch (error.code) {
+    case 'network':
+    case 'timeout':
+      return { title: "You're offline", description: error.message };
+    case 'unauthorized':
+      return { title: 'Session expired', description: error.message };
+    case 'forbidden':
+      return { title: 'Not allowed', description: error.message };
+    case 'not_found':
+      return { title: 'Not found', description: error.message };
+    case 'validation':
+      return { title: 'Please check your input', description: error.message };
+    case 'invalid_response':
+      return { title: 'Unexpected response', description: error.message };
+    case 'rate_limited': {
+      const wait = error.retryAfterMs ? ` Try again in ${Math.ceil(error.retryAfterMs / 1000)}s.` : '';
+      return { title: 'Slow down', description: `${error.message}${wait}` };
+    }
+    default:
+      return { title: 'Error', description: error.message };
+  }
+}
@@ -0,0 +1,88 @@
+// src/lib/fuzzySearch.ts
+// Typo-tolerant matching for job search, shared by the mock backend (which jobs match)
+// and JobCard (which words to highlight), so a highlighted word is always why a job matched.
+// A search is split into terms and every term has to match some word of the job:
+// "reactjs developr" finds "React Developer" because skill spellings are normalised
+// (see skillMatch.ts) and each term may be off by a letter or two.
+
+import { normalizeSkill } from './skillMatch';
+
+// Letters, digits and the symbols that belong to skill names (C++, C#, Node.js)
+const WORD_PATTERN = /[a-z0-9+#.]+/gi;
+
+/** The normalised terms of a search, e.g. "ReactJS developr" -> ['react', 'developr']. */
+export function searchTerms(query: string): string[] {
+  return (query.match(WORD_PATTERN) ?? []).map(normalizeSkill).filter(Boolean);
+}
+
+// Longer words get more slack: none for "go", one typo for "react", two for "kubernets"
+function allowedTypos(term: string): number {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+/** Edit distance counting a swap of neighbouring letters as one typo, giving up once it's beyond `limit`. */
+export function editDistance(a: string, b: string, limit = Infinity): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      // "senoir" -> "senior"
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Whether a search term matches one (normalised) word of the text. */
+export function termMatchesWord(term: string, word: string): boolean {
+  if (word.startsWith(term)) return true;
+  if (term.length >= 3 && word.includes(term)) return true;
+  const typos = allowedTypos(term);
+  if (typos === 0) return false;
+  // Whole word with a typo ("developr"), or a word still being typed with one ("develpo")
+  return editDistance(term, word, typos) <= typos || editDistance(term, word.slice(0, term.length), typos) <= typos;
+}
+
+function wordsOf(text: string): string[] {
+  return (text.match(WORD_PATTERN) ?? []).map(normalizeSkill).filter(Boolean);
+}
+
+/** True when every term of the query matches a word in one of the fields. An empty query matches everything. */
+export function matchesSearch(fields: (string | undefined)[], query: string): boolean {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return true;
+  const words = fields.flatMap((field) => (field ? wordsOf(field) : []));
+  return terms.every((term) => words.some((word) => termMatchesWord(term, word)));
+}
+
+/** [start, end) ranges of the words in `text` that match a term of the query, for highlighting. */
+export function findMatchRanges(text: string, query: string): [number, number][] {
+  const terms = searchTerms(query);
+  if (terms.length === 0 || !text) return [];
+  const ranges: [number, number][] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    // A full stop ending a sentence isn't part of the word
+    const raw = match[0].replace(/\.+$/, '');
+    const word = normalizeSkill(raw);
+    if (word && terms.some((term) => termMatchesWord(term, word))) {
+      ranges.push([match.index!, match.index! + raw.length]);
+    }
+  }
+  return ranges;
+}
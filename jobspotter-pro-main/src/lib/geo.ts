@@ -0,0 +1,86 @@
+// src/lib/geo.ts
+// Just enough geography to sort jobs by distance in the browser. Job locations are free
+// text ("Bengaluru", "Hybrid - Pune", "Remote"), so they're placed by looking for a known
+// city name in them; anything else (including remote jobs) has no position.
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// Cities jobs are commonly posted in; older spellings point at the same coordinates
+const PLACES: Record<string, GeoPoint> = {
+  bengaluru: { lat: 12.97, lng: 77.59 },
+  bangalore: { lat: 12.97, lng: 77.59 },
+  mumbai: { lat: 19.08, lng: 72.88 },
+  bombay: { lat: 19.08, lng: 72.88 },
+  'navi mumbai': { lat: 19.03, lng: 73.03 },
+  delhi: { lat: 28.61, lng: 77.21 },
+  'new delhi': { lat: 28.61, lng: 77.21 },
+  gurugram: { lat: 28.46, lng: 77.03 },
+  gurgaon: { lat: 28.46, lng: 77.03 },
+  noida: { lat: 28.54, lng: 77.39 },
+  hyderabad: { lat: 17.39, lng: 78.49 },
+  chennai: { lat: 13.08, lng: 80.27 },
+  madras: { lat: 13.08, lng: 80.27 },
+  pune: { lat: 18.52, lng: 73.86 },
+  kolkata: { lat: 22.57, lng: 88.36 },
+  calcutta: { lat: 22.57, lng: 88.36 },
+  ahmedabad: { lat: 23.02, lng: 72.57 },
+  jaipur: { lat: 26.91, lng: 75.79 },
+  kochi: { lat: 9.93, lng: 76.27 },
+  cochin: { lat: 9.93, lng: 76.27 },
+  chandigarh: { lat: 30.73, lng: 76.78 },
+  indore: { lat: 22.72, lng: 75.86 },
+  coimbatore: { lat: 11.02, lng: 76.96 },
+  london: { lat: 51.51, lng: -0.13 },
+  berlin: { lat: 52.52, lng: 13.4 },
+  dubai: { lat: 25.2, lng: 55.27 },
+  singapore: { lat: 1.35, lng: 103.82 },
+  'new york': { lat: 40.71, lng: -74.01 },
+  'san francisco': { lat: 37.77, lng: -122.42 },
+};
+
+// Longest names first, so "New Delhi" wins over "Delhi"
+const PLACE_NAMES = Object.keys(PLACES).sort((a, b) => b.length - a.length);
+
+/** Coordinates of the first known city named in a job's location, or null. */
+export function locatePlace(location: string | undefined): GeoPoint | null {
+  const text = ` ${(location ?? '').toLowerCase().replace(/[^a-z]+/g, ' ')} `;
+  const name = PLACE_NAMES.find((place) => text.includes(` ${place} `));
+  return name ? PLACES[name] : null;
+}
+
+/** Great-circle distance in kilometres. */
+export function distanceKm(a: GeoPoint, b: GeoPoint): number {
+  const radians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = radians(b.lat - a.lat);
+  const dLng = radians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(radians(a.lat)) * Math.cos(radians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+/** The browser's idea of where the user is, to about a kilometre. Rejects when it's unavailable or refused. */
+export function getCurrentPosition(): Promise<GeoPoint> {
+  return new Promise((resolve, reject) => {
+    if (!('geolocation' in navigator)) {
+      reject(new Error('This browser cannot share your location.'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => resolve({ lat: round(coords.latitude), lng: round(coords.longitude) }),
+      (error) =>
+        reject(new Error(
+          error.code === error.PERMISSION_DENIED
+            ? 'Location access is blocked. Allow it in your browser to sort by distance.'
+            : 'Your location could not be found right now.'
+        )),
+      { maximumAge: 10 * 60 * 1000, timeout: 10_000 }
+    );
+  });
+}
+
+// Two decimals is about a kilometre: plenty for sorting, and no more precise than it needs to be
+function round(degrees: number): number {
+  return Math.round(degrees * 100) / 100;
+}
@@ -0,0 +1,192 @@
+// src/lib/jobFilters.ts
+// Options and helpers for the Jobs page filter panel (JobFiltersPanel). The filter values
+// are what the backend stores: job types are lowercased by JobFormModal, experience levels
+// keep their casing. Facet counts are looked up case-insensitively either way.
+
+import type { JobFilters, PostedWithin } from './api';
+import { CurrencyCode, formatAmount, isCurrencyCode } from './salary';
+
+export interface FilterOption<T extends string = string> {
+  value: T;
+  label: string;
+}
+
+export const JOB_TYPE_OPTIONS: FilterOption[] = [
+  { value: 'full-time', label: 'Full-time' },
+  { value: 'part-time', label: 'Part-time' },
+  { value: 'contract', label: 'Contract' },
+  { value: 'remote', label: 'Remote' },
+  { value: 'internship', label: 'Internship' },
+  { value: 'hybrid', label: 'Hybrid' },
+];
+
+export const EXPERIENCE_LEVEL_OPTIONS: FilterOption[] = [
+  { value: 'Entry-level', label: 'Entry-level' },
+  { value: 'Mid-level', label: 'Mid-level' },
+  { value: 'Senior', label: 'Senior' },
+  { value: 'Lead', label: 'Lead' },
+  { value: 'Executive', label: 'Executive' },
+];
+
+export const POSTED_WITHIN_OPTIONS: FilterOption<PostedWithin>[] = [
+  { value: '1d', label: 'Past 24 hours' },
+  { value: '7d', label: 'Past week' },
+  { value: '30d', label: 'Past month' },
+];
+
+export const POSTED_WITHIN_DAYS: Record<PostedWithin, number> = { '1d': 1, '7d': 7, '30d': 30 };
+
+// Yearly salary slider bounds per currency; the ends of the slider mean "no limit"
+export const SALARY_FILTER_RANGE: Record<CurrencyCode, { max: number; step: number }> = {
+  INR: { max: 5_000_000, step: 100_000 },
+  USD: { max: 300_000, step: 5_000 },
+  EUR: { max: 300_000, step: 5_000 },
+  GBP: { max: 250_000, step: 5_000 },
+};
+
+export function isPostedWithin(value: unknown): value is PostedWithin {
+  return typeof value === 'string' && value in POSTED_WITHIN_DAYS;
+}
+
+/** Number of filters set, not counting the search text. */
+export function countActiveFilters(filters: JobFilters): number {
+  return [
+    filters.jobTypes?.length,
+    filters.experienceLevels?.length,
+    filters.location,
+    filters.salaryMin !== undefined || filters.salaryMax !== undefined,
+    filters.postedWithin,
+  ].filter(Boolean).length;
+}
+
+/** The label for a stored value, matched case-insensitively; unknown values show as they are. */
+export function optionLabel(options: FilterOption[], value: string): string {
+  return options.find((option) => option.value.toLowerCase() === value.toLowerCase())?.label ?? value;
+}
+
+/** Short labels for the search and each filter, e.g. ['"react"', 'Remote', 'Senior', 'Past week']. */
+export function describeJobFilters(filters: JobFilters): string[] {
+  const currency = filters.salaryCurrency ?? 'INR';
+  const { salaryMin: min, salaryMax: max } = filters;
+  let salary: string | undefined;
+  if (min !== undefined && max !== undefined) salary = `${formatAmount(min, currency)} – ${formatAmount(max, currency)}`;
+  else if (min !== undefined) salary = `${formatAmount(min, currency)}+`;
+  else if (max !== undefined) salary = `Up to ${formatAmount(max, currency)}`;
+
+  return [
+    filters.search && `"${filters.search}"`,
+    ...(filters.jobTypes ?? []).map((type) => optionLabel(JOB_TYPE_OPTIONS, type)),
+    ...(filters.experienceLevels ?? []).map((level) => optionLabel(EXPERIENCE_LEVEL_OPTIONS, level)),
+    filters.location,
+    salary,
+    filters.postedWithin && optionLabel(POSTED_WITHIN_OPTIONS, filters.postedWithin),
+  ].filter(Boolean);
+}
+
+/** Count for one facet value; null when the backend didn't send facets. */
+export function facetCount(counts: Partial<Record<string, number>> | undefined, value: string): number | null {
+  if (!counts) return null;
+  const key = Object.keys(counts).find((k) => k.toLowerCase() === value.toLowerCase());
+  return key ? counts[key] ?? 0 : 0;
+}
+
+// --- URL encoding ---
+// Short keys for shareable links: /jobs?q=react&type=remote&level=Senior&page=2.
+// The backend takes the same filters under its own names (job_type=remote&experience_level=Senior),
+// which is also how saved searches store them.
+
+type FilterParamKeys = Record<keyof JobFilters, string>;
+
+const URL_KEYS: FilterParamKeys = {
+  search: 'q',
+  jobTypes: 'type',
+  experienceLevels: 'level',
+  location: 'location',
+  salaryMin: 'salary_min',
+  salaryMax: 'salary_max',
+  salaryCurrency: 'currency',
+  postedWithin: 'posted',
+};
+
+const API_KEYS: FilterParamKeys = {
+  search: 'q',
+  jobTypes: 'job_type',
+  experienceLevels: 'experience_level',
+  location: 'location',
+  salaryMin: 'salary_min',
+  salaryMax: 'salary_max',
+  salaryCurrency: 'salary_currency',
+  postedWithin: 'posted_within',
+};
+
+function readAmount(params: URLSearchParams, key: string): number | undefined {
+  const value = Number(params.get(key));
+  return params.has(key) && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+function readFilterParams(params: URLSearchParams, keys: FilterParamKeys): JobFilters {
+  // Hand-typed links may differ in case; the options' own spelling is what the panel checks against
+  const known = (options: FilterOption[], values: string[]) =>
+    values.flatMap((value) => options.find((option) => option.value.toLowerCase() === value.toLowerCase())?.value ?? []);
+  const jobTypes = known(JOB_TYPE_OPTIONS, params.getAll(keys.jobTypes));
+  const experienceLevels = known(EXPERIENCE_LEVEL_OPTIONS, params.getAll(keys.experienceLevels));
+  const salaryMin = readAmount(params, keys.salaryMin);
+  const salaryMax = readAmount(params, keys.salaryMax);
+  const currency = params.get(keys.salaryCurrency);
+  const postedWithin = params.get(keys.postedWithin);
+
+  return {
+    search: params.get(keys.search) || undefined,
+    jobTypes: jobTypes.length > 0 ? jobTypes : undefined,
+    experienceLevels: experienceLevels.length > 0 ? experienceLevels : undefined,
+    location: params.get(keys.location) || undefined,
+    salaryMin,
+    salaryMax,
+    salaryCurrency: (salaryMin !== undefined || salaryMax !== undefined) && isCurrencyCode(currency) ? currency : undefined,
+    postedWithin: isPostedWithin(postedWithin) ? postedWithin : undefined,
+  };
+}
+
+function writeFilterParams(filters: JobFilters, params: URLSearchParams, keys: FilterParamKeys) {
+  Object.values(keys).forEach((key) => params.delete(key));
+  if (filters.search) params.set(keys.search, filters.search);
+  filters.jobTypes?.forEach((type) => params.append(keys.jobTypes, type));
+  filters.experienceLevels?.forEach((level) => params.append(keys.experienceLevels, level));
+  if (filters.location) params.set(keys.location, filters.location);
+  if (filters.salaryMin !== undefined) params.set(keys.salaryMin, String(filters.salaryMin));
+  if (filters.salaryMax !== undefined) params.set(keys.salaryMax, String(filters.salaryMax));
+  // A currency on its own doesn't filter anything
+  if (filters.salaryCurrency && (filters.salaryMin !== undefined || filters.salaryMax !== undefined)) {
+    params.set(keys.salaryCurrency, filters.salaryCurrency);
+  }
+  if (filters.postedWithin) params.set(keys.postedWithin, filters.postedWithin);
+}
+
+/** Reads filters from a URL; unknown or malformed values are ignored. */
+export function jobFiltersFromSearchParams(params: URLSearchParams): JobFilters {
+  return readFilterParams(params, URL_KEYS);
+}
+
+/** Writes filters into `params`, replacing any filters already there and leaving other keys alone. */
+export function writeJobFiltersToSearchParams(filters: JobFilters, params: URLSearchParams) {
+  writeFilterParams(filters, params, URL_KEYS);
+}
+
+/** The Jobs page link that shows these filters. */
+export function jobsPagePath(filters: JobFilters): string {
+  const params = new URLSearchParams();
+  writeFilterParams(filters, params, URL_KEYS);
+  const query = params.toString();
+  return query ? `/jobs?${query}` : '/jobs';
+}
+
+/** Flask query parameters for the filters; list filters repeat the key (job_type=a&job_type=b). */
+export function jobFiltersToApiParams(filters: JobFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  writeFilterParams(filters, params, API_KEYS);
+  return params;
+}
+
+export function jobFiltersFromApiParams(params: URLSearchParams): JobFilters {
+  return readFilterParams(params, API_KEYS);
+}
@@ -0,0 +1,88 @@
+// src/lib/jobSort.ts
+// Sort orders for the Jobs page. The backend (the mock one included) sorts the whole listing
+// and echoes the order it applied; when it doesn't (a Flask build without sorting) the page
+// that came back is sorted here instead, so the control always does something sensible.
+
+import type { Job, JobSort } from './api';
+import { EXPERIENCE_LEVEL_OPTIONS, JOB_TYPE_OPTIONS, optionLabel, type FilterOption } from './jobFilters';
+import { GeoPoint, distanceKm, locatePlace } from './geo';
+import { annualSalaryRange } from './salary';
+import { sortByMatch } from './skillMatch';
+
+export const JOB_SORT_OPTIONS: FilterOption<JobSort>[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'salary', label: 'Highest salary' },
+  { value: 'closest', label: 'Closest to me' },
+  { value: 'match', label: 'Best match' },
+];
+
+export function isJobSort(value: unknown): value is JobSort {
+  return JOB_SORT_OPTIONS.some((option) => option.value === value);
+}
+
+// What the client-side sorts compare against
+export interface JobSortContext {
+  skills?: string[];
+  near?: GeoPoint;
+}
+
+// Top of the yearly range in one currency; jobs without a salary go last
+function salaryKey(job: Job): number {
+  if (!job.salary) return -1;
+  const { min, max } = annualSalaryRange(job.salary, 'USD');
+  return max ?? min ?? -1;
+}
+
+/** The jobs in `sort` order. Ties, and jobs a sort can't place, keep their order after the rest. */
+export function sortJobs(jobs: Job[], sort: JobSort, { skills, near }: JobSortContext = {}): Job[] {
+  switch (sort) {
+    case 'salary': {
+      const keys = new Map(jobs.map((job) => [job, salaryKey(job)]));
+      return [...jobs].sort((a, b) => keys.get(b)! - keys.get(a)!);
+    }
+    case 'closest': {
+      if (!near) return jobs;
+      const distances = new Map(jobs.map((job) => {
+        const place = locatePlace(job.location);
+        return [job, place ? distanceKm(near, place) : Infinity];
+      }));
+      return [...jobs].sort((a, b) => {
+        const da = distances.get(a)!;
+        const db = distances.get(b)!;
+        return da === db ? 0 : da - db;
+      });
+    }
+    case 'match':
+      return sortByMatch(jobs, skills);
+    case 'newest':
+      return [...jobs].sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at));
+  }
+}
+
+// Columns of the Jobs table view, sorted by clicking their headers. Unlike the orders
+// above these only ever reorder what's loaded, like a spreadsheet would.
+export type JobColumn = 'title' | 'company' | 'location' | 'type' | 'level' | 'salary' | 'posted';
+export type SortDirection = 'asc' | 'desc';
+
+// Levels sort by seniority rather than alphabetically; unknown ones go after the rest
+function levelRank(level: string): number {
+  const rank = EXPERIENCE_LEVEL_OPTIONS.findIndex((option) => option.value.toLowerCase() === level.toLowerCase());
+  return rank === -1 ? EXPERIENCE_LEVEL_OPTIONS.length : rank;
+}
+
+const columnCompare: Record<JobColumn, (a: Job, b: Job) => number> = {
+  title: (a, b) => a.title.localeCompare(b.title),
+  company: (a, b) => a.company.localeCompare(b.company),
+  location: (a, b) => a.location.localeCompare(b.location),
+  type: (a, b) => optionLabel(JOB_TYPE_OPTIONS, a.job_type).localeCompare(optionLabel(JOB_TYPE_OPTIONS, b.job_type)),
+  level: (a, b) => levelRank(a.experience_level) - levelRank(b.experience_level),
+  salary: (a, b) => salaryKey(a) - salaryKey(b),
+  posted: (a, b) => (Date.parse(a.created_at) || 0) - (Date.parse(b.created_at) || 0),
+};
+
+/** The jobs ordered by one table column. Ties keep their order; jobs without a salary stay last. */
+export function sortJobsByColumn(jobs: Job[], column: JobColumn, direction: SortDirection): Job[] {
+  const compare = columnCompare[column];
+  const unpaid = (job: Job) => Number(column === 'salary' && salaryKey(job) < 0);
+  return [...jobs].sort((a, b) => unpaid(a) - unpaid(b) || (direction === 'asc' ? compare(a, b) : compare(b, a)));
+}
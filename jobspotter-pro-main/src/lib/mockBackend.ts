@@ -0,0 +1,1166 @@
+// src/lib/mockBackend.ts
+// In-browser stand-in for the Flask API. apiCall routes requests here instead of
+// fetch() when `useMockApi` is on (VITE_USE_MOCK_API=true or a runtime override).
+// Responses are real Response objects so the normal apiCall error handling applies.
+
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  MockApplication,
+  MockAuthToken,
+  MockCandidateProfile,
+  MockDatabase,
+  MockJob,
+  MockSavedSearch,
+  MockUser,
+  createId,
+  loadMockDatabase,
+  saveMockDatabase,
+} from './mockData';
+import { generateTotpSecret, totpAuthUri, verifyTotp } from './totp';
+import { getConfig } from './config';
+import { annualSalaryRange, isCurrencyCode, parseSalaryRange } from './salary';
+import { POSTED_WITHIN_DAYS, POSTED_WITHIN_OPTIONS, isPostedWithin, jobFiltersFromApiParams, jobsPagePath } from './jobFilters';
+import { matchesSearch } from './fuzzySearch';
+import { sortJobs } from './jobSort';
+import type { GeoPoint } from './geo';
+import type { Job, JobSort } from './api';
+import { getDigestNotifier } from './notifier';
+
+type Handler = (ctx: RequestContext) => Response | Promise<Response>;
+
+interface RequestContext {
+  db: MockDatabase;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  user: MockUser | null;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  auth: boolean;
+  handler: Handler;
+}
+
+const EMAIL_TOKEN_LIFETIME_MS: Record<MockAuthToken['purpose'], number> = {
+  verify_email: 24 * 60 * 60 * 1000,
+  reset_password: 60 * 60 * 1000,
+  two_factor: 5 * 60 * 1000,
+};
+const MIN_PASSWORD_LENGTH = 6;
+const MAX_HEADLINE_LENGTH = 120;
+const MAX_PROFILE_SKILLS = 30;
+const BACKUP_CODE_COUNT = 10;
+const MAX_SAVED_SEARCHES = 20;
+const MAX_SAVED_SEARCH_NAME_LENGTH = 80;
+const SEARCH_DIGEST_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const TOTP_ISSUER = 'JobBoard';
+
+// --- Response helpers ---
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function fail(status: number, message: string): Response {
+  return json({ error: message }, status);
+}
+
+// Same shape Flask uses for validation failures: a summary plus per-field messages
+function invalid(message: string, errors: Record<string, string>): Response {
+  return json({ error: message, errors }, 422);
+}
+
+function paginate<T>(items: T[], query: URLSearchParams) {
+  const page = Math.max(1, Number(query.get('page')) || 1);
+  const pageSize = Math.max(1, Number(query.get('page_size')) || 10);
+  const start = (page - 1) * pageSize;
+  return {
+    items: items.slice(start, start + pageSize),
+    total: items.length,
+    page,
+    page_size: pageSize,
+  };
+}
+
+const newestFirst = <T extends { created_at?: string; applied_at?: string; saved_at?: string }>(a: T, b: T) =>
+  (b.created_at || b.applied_at || b.saved_at || '').localeCompare(a.created_at || a.applied_at || a.saved_at || '');
+
+// --- Token helpers (unsigned JWTs; useAuth only decodes the payload for `exp`) ---
+
+function base64Url(value: object): string {
+  return btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function issueToken(user: MockUser): string {
+  const exp = Math.floor(Date.now() / 1000) + getConfig().mockTokenLifetimeSeconds;
+  return `${base64Url({ alg: 'none', typ: 'JWT' })}.${base64Url({ sub: user.id, email: user.email, exp })}.mock`;
+}
+
+function userFromToken(db: MockDatabase, authorization: string | null): MockUser | null {
+  const token = authorization?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    if (!payload.exp || payload.exp * 1000 < Date.now()) return null;
+    return db.users.find((u) => u.id === payload.sub) || null;
+  } catch {
+    return null;
+  }
+}
+
+// --- Email helpers (nothing is sent; the link is logged so it can be opened from the console) ---
+
+function issueEmailToken(db: MockDatabase, user: MockUser, purpose: MockAuthToken['purpose']): string {
+  // A new token replaces any earlier one for the same purpose
+  db.auth_tokens = db.auth_tokens.filter((t) => !(t.user_id === user.id && t.purpose === purpose));
+  const token = createId(purpose);
+  db.auth_tokens.push({
+    token,
+    user_id: user.id,
+    purpose,
+    expires_at: new Date(Date.now() + EMAIL_TOKEN_LIFETIME_MS[purpose]).toISOString(),
+  });
+  return token;
+}
+
+function sendMockEmail(user: MockUser, subject: string, path: string, token: string) {
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+  console.info(`[mock email] To: ${user.email}\n${subject}: ${origin}${path}?token=${encodeURIComponent(token)}`);
+}
+
+function sendVerificationEmail(db: MockDatabase, user: MockUser) {
+  sendMockEmail(user, 'Verify your email', '/auth/verify-email', issueEmailToken(db, user, 'verify_email'));
+}
+
+// Consumes the token; returns its user, or null when it is unknown, used or expired
+function redeemEmailToken(db: MockDatabase, token: unknown, purpose: MockAuthToken['purpose']): MockUser | null {
+  const record = db.auth_tokens.find((t) => t.token === token && t.purpose === purpose);
+  if (!record) return null;
+  db.auth_tokens = db.auth_tokens.filter((t) => t !== record);
+  if (Date.parse(record.expires_at) < Date.now()) return null;
+  return db.users.find((u) => u.id === record.user_id) || null;
+}
+
+// --- Two-factor helpers ---
+
+function createBackupCodes(): string[] {
+  return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const digits = Array.from(crypto.getRandomValues(new Uint8Array(8)), (b) => b % 10).join('');
+    return `${digits.slice(0, 4)}-${digits.slice(4)}`;
+  });
+}
+
+// Accepts a code from the authenticator app, or (when allowed) an unused backup code, which is used up
+async function checkSecondFactor(user: MockUser, code: unknown, allowBackupCode: boolean): Promise<boolean> {
+  const twoFactor = user.two_factor;
+  const text = String(code || '').trim();
+  if (!twoFactor || !text) return false;
+  if (await verifyTotp(twoFactor.secret, text)) return true;
+  if (!allowBackupCode) return false;
+  const index = twoFactor.backup_codes.indexOf(text.replace(/\s/g, ''));
+  if (index === -1) return false;
+  twoFactor.backup_codes.splice(index, 1);
+  return true;
+}
+
+function wrongCode(allowBackupCode: boolean): Response {
+  return invalid('That code is not valid.', {
+    code: allowBackupCode
+      ? 'Enter the current code from your authenticator app or an unused backup code.'
+      : 'Enter the current code from your authenticator app.',
+  });
+}
+
+function requireTwoFactor(user: MockUser): Response | null {
+  return user.two_factor?.enabled ? null : fail(400, 'Two-factor authentication is not turned on.');
+}
+
+// Sensitive account changes ask for the password again, plus a code when two-factor is on
+async function reauthenticate(user: MockUser, body: Record<string, unknown>): Promise<Response | null> {
+  if (body.current_password !== user.password) {
+    return invalid('Your current password is incorrect.', { current_password: 'Your current password is incorrect.' });
+  }
+  if (user.two_factor?.enabled && !(await checkSecondFactor(user, body.code, true))) {
+    return wrongCode(true);
+  }
+  return null;
+}
+
+function isEmail(value: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+}
+
+// --- Candidate profile helpers ---
+
+const EMPTY_CANDIDATE_PROFILE: Omit<MockCandidateProfile, 'updated_at'> = {
+  headline: '',
+  summary: '',
+  skills: [],
+  experience: [],
+  education: [],
+  links: [],
+  resume_url: '',
+};
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// Uploaded resumes are stored as local-file:// (local stand-in) or storage:// (Supabase)
+// references, see lib/storage.ts
+function isResumeReference(value: string): boolean {
+  return isHttpUrl(value) || value.startsWith('local-file://') || value.startsWith('storage://');
+}
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+const list = (value: unknown) => (Array.isArray(value) ? value.filter((item) => item && typeof item === 'object') : []);
+const year = (value: unknown) => (Number.isInteger(Number(value)) && Number(value) > 0 ? Number(value) : undefined);
+
+// Reads a PUT body into a profile; problems are reported per field, e.g. "experience.0.title"
+function readCandidateProfile(body: Record<string, unknown>): { profile: MockCandidateProfile; errors: Record<string, string> } {
+  const errors: Record<string, string> = {};
+
+  const headline = text(body.headline);
+  if (headline.length > MAX_HEADLINE_LENGTH) {
+    errors.headline = `Keep the headline under ${MAX_HEADLINE_LENGTH} characters.`;
+  }
+
+  // Case-insensitive duplicates are dropped, keeping the first spelling
+  const skills = (Array.isArray(body.skills) ? body.skills : [])
+    .map(text)
+    .filter((skill, index, all) => skill && all.findIndex((s) => s.toLowerCase() === skill.toLowerCase()) === index);
+  if (skills.length > MAX_PROFILE_SKILLS) {
+    errors.skills = `List at most ${MAX_PROFILE_SKILLS} skills.`;
+  }
+
+  const experience = list(body.experience).map((raw: Record<string, unknown>, index) => {
+    const entry = {
+      title: text(raw.title),
+      company: text(raw.company),
+      start_date: text(raw.start_date),
+      end_date: text(raw.end_date) || undefined,
+      description: text(raw.description) || undefined,
+    };
+    if (!entry.title) errors[`experience.${index}.title`] = 'Job title is required.';
+    if (!entry.company) errors[`experience.${index}.company`] = 'Company is required.';
+    if (!/^\d{4}-\d{2}$/.test(entry.start_date)) errors[`experience.${index}.start_date`] = 'Enter a start month.';
+    if (entry.end_date && entry.end_date < entry.start_date) {
+      errors[`experience.${index}.end_date`] = 'The end date is before the start date.';
+    }
+    return entry;
+  });
+
+  const education = list(body.education).map((raw: Record<string, unknown>, index) => {
+    const entry = {
+      school: text(raw.school),
+      degree: text(raw.degree),
+      field_of_study: text(raw.field_of_study) || undefined,
+      start_year: year(raw.start_year),
+      end_year: year(raw.end_year),
+    };
+    if (!entry.school) errors[`education.${index}.school`] = 'School is required.';
+    if (!entry.degree) errors[`education.${index}.degree`] = 'Degree is required.';
+    return entry;
+  });
+
+  const links = list(body.links).map((raw: Record<string, unknown>, index) => {
+    const url = text(raw.url);
+    if (!isHttpUrl(url)) errors[`links.${index}.url`] = 'Enter a full link starting with https://';
+    return { label: text(raw.label) || url, url };
+  });
+
+  const resumeUrl = text(body.resume_url);
+  if (resumeUrl && !isResumeReference(resumeUrl)) {
+    errors.resume_url = 'Upload a file or enter a full link starting with https://';
+  }
+
+  return {
+    profile: {
+      headline,
+      summary: text(body.summary),
+      skills,
+      experience,
+      education,
+      links,
+      resume_url: resumeUrl,
+      updated_at: new Date().toISOString(),
+    },
+    errors,
+  };
+}
+
+// --- Serializers (mirror the Flask response shapes) ---
+
+function publicUser(user: MockUser) {
+  return {
+    id: user.id,
+    first_name: user.first_name,
+    last_name: user.last_name,
+    email: user.email,
+    role: user.role,
+    email_verified: user.email_verified !== false,
+    two_factor_enabled: !!user.two_factor?.enabled,
+  };
+}
+
+function withCompany(job: MockJob) {
+  // Nested job objects on applications are read as `job.company` by ApplicationCard
+  return { ...job, company: job.company_name };
+}
+
+function serializeApplication(db: MockDatabase, application: MockApplication, includeCandidate: boolean) {
+  const job = db.jobs.find((j) => j.id === application.job_id);
+  const candidate = db.users.find((u) => u.id === application.candidate_id);
+  return {
+    ...application,
+    job: job ? withCompany(job) : undefined,
+    ...(includeCandidate && {
+      candidate_name: candidate ? `${candidate.first_name} ${candidate.last_name}`.trim() : 'Unknown candidate',
+      candidate_email: candidate?.email || 'N/A',
+    }),
+  };
+}
+
+function serializeCandidateProfile(candidate: MockUser) {
+  return {
+    candidate_id: candidate.id,
+    name: `${candidate.first_name} ${candidate.last_name}`.trim(),
+    ...EMPTY_CANDIDATE_PROFILE,
+    updated_at: null,
+    ...candidate.candidate_profile,
+  };
+}
+
+function requireRole(user: MockUser | null, role: MockUser['role']): Response | null {
+  return user?.role === role ? null : fail(403, `Only ${role}s can perform this action`);
+}
+
+const JOB_FIELDS: (keyof MockJob)[] = [
+  'title', 'company_name', 'location', 'salary_range', 'job_type', 'experience_level', 'description', 'skills_required',
+];
+
+function pickJobFields(body: Record<string, unknown>): Partial<MockJob> {
+  const fields: Partial<MockJob> = {};
+  for (const key of JOB_FIELDS) {
+    if (body[key] !== undefined) {
+      (fields as Record<string, unknown>)[key] = body[key];
+    }
+  }
+  return fields;
+}
+
+// --- Routes ---
+
+const routes: Route[] = [];
+
+function route(method: string, path: string, handler: Handler, auth = true) {
+  const keys: string[] = [];
+  const pattern = new RegExp(
+    '^' + path.replace(/\/$/, '').replace(/:(\w+)/g, (_, key) => {
+      keys.push(key);
+      return '([^/]+)';
+    }) + '/?$'
+  );
+  routes.push({ method, pattern, keys, auth, handler });
+}
+
+// Auth
+route('POST', '/auth/login', ({ db, body }) => {
+  const user = db.users.find(
+    (u) => u.email.toLowerCase() === String(body.email || '').toLowerCase() && u.password === body.password
+  );
+  if (!user) return fail(401, 'Invalid email or password');
+  // With two-factor on, the password only earns a short-lived challenge for /auth/2fa/verify
+  if (user.two_factor?.enabled) {
+    return json({ two_factor_required: true, challenge_token: issueEmailToken(db, user, 'two_factor') });
+  }
+  return json({ access_token: issueToken(user), user: publicUser(user) });
+}, false);
+
+route('POST', '/auth/2fa/verify', async ({ db, body }) => {
+  const record = db.auth_tokens.find((t) => t.token === body.challenge_token && t.purpose === 'two_factor');
+  const user = record && Date.parse(record.expires_at) >= Date.now()
+    ? db.users.find((u) => u.id === record.user_id)
+    : undefined;
+  if (!user) return fail(401, 'Your sign-in attempt has expired. Enter your email and password again.');
+  if (!(await checkSecondFactor(user, body.code, true))) return wrongCode(true);
+  db.auth_tokens = db.auth_tokens.filter((t) => t !== record);
+  return json({ access_token: issueToken(user), user: publicUser(user) });
+}, false);
+
+// Starts (or restarts) enrollment; two-factor stays off until /auth/2fa/enable confirms a code
+route('POST', '/auth/2fa/setup', ({ user }) => {
+  if (user.two_factor?.enabled) return fail(409, 'Two-factor authentication is already on.');
+  const secret = generateTotpSecret();
+  user.two_factor = { secret, enabled: false, backup_codes: [] };
+  return json({ secret, otpauth_url: totpAuthUri(secret, user.email, TOTP_ISSUER) });
+});
+
+route('POST', '/auth/2fa/enable', async ({ user, body }) => {
+  if (!user.two_factor) return fail(400, 'Start two-factor setup first.');
+  if (user.two_factor.enabled) return fail(409, 'Two-factor authentication is already on.');
+  if (!(await verifyTotp(user.two_factor.secret, String(body.code || '')))) return wrongCode(false);
+  user.two_factor.enabled = true;
+  user.two_factor.backup_codes = createBackupCodes();
+  return json({ backup_codes: user.two_factor.backup_codes });
+});
+
+route('POST', '/auth/2fa/disable', async ({ user, body }) => {
+  const notEnabled = requireTwoFactor(user);
+  if (notEnabled) return notEnabled;
+  if (!(await checkSecondFactor(user, body.code, true))) return wrongCode(true);
+  delete user.two_factor;
+  return json({ message: 'Two-factor authentication turned off' });
+});
+
+route('POST', '/auth/2fa/backup-codes', async ({ user, body }) => {
+  const notEnabled = requireTwoFactor(user);
+  if (notEnabled) return notEnabled;
+  if (!(await checkSecondFactor(user, body.code, false))) return wrongCode(false);
+  user.two_factor.backup_codes = createBackupCodes();
+  return json({ backup_codes: user.two_factor.backup_codes });
+});
+
+route('POST', '/auth/signup', ({ db, body }) => {
+  const email = String(body.email || '').trim();
+  if (!email || !body.password) {
+    return invalid('Email and password are required.', {
+      ...(!email && { email: 'Email is required.' }),
+      ...(!body.password && { password: 'Password is required.' }),
+    });
+  }
+  if (db.users.some((u) => u.email.toLowerCase() === email.toLowerCase())) {
+    return fail(409, 'User already registered');
+  }
+  const user: MockUser = {
+    id: createId('mock-user'),
+    email,
+    password: String(body.password),
+    first_name: String(body.first_name || ''),
+    last_name: String(body.last_name || ''),
+    role: body.role === 'recruiter' ? 'recruiter' : 'candidate',
+    email_verified: false,
+  };
+  db.users.push(user);
+  sendVerificationEmail(db, user);
+  return json({ message: 'User created successfully', user: publicUser(user) }, 201);
+}, false);
+
+route('POST', '/auth/verify-email', ({ db, body }) => {
+  const user = redeemEmailToken(db, body.token, 'verify_email');
+  if (!user) return fail(400, 'This verification link is invalid or has expired.');
+  user.email_verified = true;
+  return json({ message: 'Email verified' });
+}, false);
+
+route('POST', '/auth/resend-verification', ({ db, user }) => {
+  if (user.email_verified !== false) return fail(400, 'Your email is already verified.');
+  sendVerificationEmail(db, user);
+  return json({ message: 'Verification email sent' });
+});
+
+// Answers the same whether or not the email is registered, so accounts can't be discovered
+route('POST', '/auth/forgot-password', ({ db, body }) => {
+  const email = String(body.email || '').trim();
+  if (!email) return invalid('Email is required.', { email: 'Email is required.' });
+  const user = db.users.find((u) => u.email.toLowerCase() === email.toLowerCase());
+  if (user) {
+    sendMockEmail(user, 'Reset your password', '/auth/reset-password', issueEmailToken(db, user, 'reset_password'));
+  }
+  return json({ message: 'If that email is registered, a reset link is on its way.' });
+}, false);
+
+route('POST', '/auth/reset-password', ({ db, body }) => {
+  const password = String(body.password || '');
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return invalid('Choose a longer password.', {
+      password: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`,
+    });
+  }
+  const user = redeemEmailToken(db, body.token, 'reset_password');
+  if (!user) return fail(400, 'This reset link is invalid or has expired.');
+  user.password = password;
+  // The link came from their inbox, so the address is confirmed too
+  user.email_verified = true;
+  return json({ message: 'Password updated' });
+}, false);
+
+// Swaps a still-valid token for a new one ("Stay signed in")
+route('POST', '/auth/refresh', ({ user }) => json({ access_token: issueToken(user) }));
+
+route('GET', '/auth/protected', ({ user }) =>
+  json({ message: 'Token is valid', user_id: user.id, email: user.email })
+);
+
+route('GET', '/auth/profile/:id', ({ db, params }) => {
+  const profile = db.users.find((u) => u.id === params.id);
+  if (!profile) return fail(404, 'Profile not found');
+  const { email, ...rest } = publicUser(profile);
+  return json(rest);
+});
+
+// Account settings
+route('PATCH', '/auth/profile', ({ user, body }) => {
+  const firstName = String(body.first_name ?? user.first_name).trim();
+  if (!firstName) return invalid('First name is required.', { first_name: 'First name is required.' });
+  user.first_name = firstName;
+  user.last_name = String(body.last_name ?? user.last_name).trim();
+  return json(publicUser(user));
+});
+
+route('POST', '/auth/change-password', async ({ user, body }) => {
+  const denied = await reauthenticate(user, body);
+  if (denied) return denied;
+  const password = String(body.new_password || '');
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return invalid('Choose a longer password.', {
+      new_password: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`,
+    });
+  }
+  user.password = password;
+  return json({ message: 'Password updated' });
+});
+
+// The new address has to be verified again before the account can apply
+route('POST', '/auth/change-email', async ({ db, user, body }) => {
+  const denied = await reauthenticate(user, body);
+  if (denied) return denied;
+  const email = String(body.new_email || '').trim();
+  if (!isEmail(email)) return invalid('Enter a valid email address.', { new_email: 'Enter a valid email address.' });
+  if (db.users.some((u) => u.id !== user.id && u.email.toLowerCase() === email.toLowerCase())) {
+    return fail(409, 'That email is already used by another account.');
+  }
+  user.email = email;
+  user.email_verified = false;
+  sendVerificationEmail(db, user);
+  return json(publicUser(user));
+});
+
+route('GET', '/auth/preferences/notifications', ({ user }) =>
+  json({ ...DEFAULT_NOTIFICATION_PREFERENCES, ...user.notification_preferences })
+);
+
+route('PUT', '/auth/preferences/notifications', ({ user, body }) => {
+  const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES, ...user.notification_preferences };
+  for (const key of Object.keys(DEFAULT_NOTIFICATION_PREFERENCES) as (keyof typeof preferences)[]) {
+    if (typeof body[key] === 'boolean') preferences[key] = body[key] as boolean;
+  }
+  user.notification_preferences = preferences;
+  return json(preferences);
+});
+
+// Everything stored about the user, as one JSON document
+route('GET', '/auth/export', ({ db, user }) => {
+  const { password, two_factor, ...account } = user;
+  return json({
+    exported_at: new Date().toISOString(),
+    account: { ...account, two_factor_enabled: !!two_factor?.enabled },
+    notification_preferences: { ...DEFAULT_NOTIFICATION_PREFERENCES, ...user.notification_preferences },
+    saved_jobs: db.saved_jobs.filter((s) => s.user_id === user.id),
+    saved_searches: db.saved_searches.filter((s) => s.user_id === user.id),
+    applications: db.applications
+      .filter((a) => a.candidate_id === user.id)
+      .map((a) => serializeApplication(db, a, false)),
+    posted_jobs: db.jobs.filter((j) => j.recruiter_id === user.id),
+  });
+});
+
+// Removes the user with their saved jobs, searches and applications; a recruiter's listings go too
+route('DELETE', '/auth/account', async ({ db, user, body }) => {
+  const denied = await reauthenticate(user, body);
+  if (denied) return denied;
+  const postedJobIds = new Set(db.jobs.filter((j) => j.recruiter_id === user.id).map((j) => j.id));
+  db.jobs = db.jobs.filter((j) => !postedJobIds.has(j.id));
+  db.saved_jobs = db.saved_jobs.filter((s) => s.user_id !== user.id && !postedJobIds.has(s.job_id));
+  db.applications = db.applications.filter((a) => a.candidate_id !== user.id && !postedJobIds.has(a.job_id));
+  db.saved_searches = db.saved_searches.filter((s) => s.user_id !== user.id);
+  db.auth_tokens = db.auth_tokens.filter((t) => t.user_id !== user.id);
+  db.users = db.users.filter((u) => u.id !== user.id);
+  return json({ message: 'Account deleted' });
+});
+
+// Candidate profiles
+route('GET', '/candidates/me/profile', ({ user }) => {
+  const denied = requireRole(user, 'candidate');
+  if (denied) return denied;
+  return json(serializeCandidateProfile(user));
+});
+
+route('PUT', '/candidates/me/profile', ({ user, body }) => {
+  const denied = requireRole(user, 'candidate');
+  if (denied) return denied;
+  const { profile, errors } = readCandidateProfile(body);
+  if (Object.keys(errors).length > 0) {
+    return invalid('Some profile fields need attention.', errors);
+  }
+  user.candidate_profile = profile;
+  return json(serializeCandidateProfile(user));
+});
+
+// Recruiters can read the profile of anyone who applied to one of their jobs
+function canReadCandidate(db: MockDatabase, user: MockUser, candidate: MockUser): boolean {
+  return candidate.id === user.id || db.applications.some((a) =>
+    a.candidate_id === candidate.id && db.jobs.some((j) => j.id === a.job_id && j.recruiter_id === user.id)
+  );
+}
+
+route('GET', '/candidates/:id/profile', ({ db, user, params }) => {
+  const candidate = db.users.find((u) => u.id === params.id && u.role === 'candidate');
+  if (!candidate) return fail(404, 'Candidate not found');
+  if (!canReadCandidate(db, user, candidate)) return fail(403, 'This candidate has not applied to your jobs');
+  return json(serializeCandidateProfile(candidate));
+});
+
+// ?ids=a,b,c: one request for a page of applicants. Unknown or unreadable ids are skipped.
+route('GET', '/candidates/profiles', ({ db, user, query }) => {
+  const ids = new Set((query.get('ids') ?? '').split(',').filter(Boolean));
+  const profiles = db.users
+    .filter((u) => ids.has(u.id) && u.role === 'candidate' && canReadCandidate(db, user, u))
+    .map(serializeCandidateProfile);
+  return json({ profiles });
+});
+
+// Files. Resumes sit in a private bucket; these hand out signed URLs after the same access
+// check as candidate profiles. The mock can't sign for Supabase, so its URLs only model the
+// contract: the token in them isn't accepted by a real project.
+const SIGNED_URL_LIFETIME_SECONDS = 5 * 60;
+
+function mockSignedUrl(kind: 'upload/sign' | 'sign', bucket: string, path: string): string {
+  const objectPath = path.split('/').map(encodeURIComponent).join('/');
+  return `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/${kind}/${bucket}/${objectPath}?token=${createId('mock-signed')}`;
+}
+
+route('POST', '/files/resume-upload', ({ user, body }) => {
+  const denied = requireRole(user, 'candidate');
+  if (denied) return denied;
+  const name = text(body.file_name).replace(/^\d+-/, '').replace(/[^\w.-]+/g, '-');
+  if (!name) return invalid('File name is required.', { file_name: 'File name is required.' });
+  const path = `${user.id}/${Date.now()}-${name}`;
+  return json({ path, upload_url: mockSignedUrl('upload/sign', getConfig().resumeBucket, path) });
+});
+
+route('POST', '/files/resume-download', ({ db, user, body }) => {
+  const bucket = text(body.bucket);
+  const path = text(body.path);
+  if (bucket !== getConfig().resumeBucket || !path) return fail(404, 'File not found');
+  // Objects live under their owner's id
+  const ownerId = path.split('/')[0];
+  if (ownerId !== user.id) {
+    const applied = db.applications.some((a) =>
+      a.candidate_id === ownerId && db.jobs.some((j) => j.id === a.job_id && j.recruiter_id === user.id)
+    );
+    if (!applied) return fail(403, 'You do not have access to this file');
+  }
+  return json({ url: mockSignedUrl('sign', bucket, path), expires_in: SIGNED_URL_LIFETIME_SECONDS });
+});
+
+// Jobs
+type JobFilterKey = 'q' | 'job_type' | 'experience_level' | 'location' | 'salary' | 'posted_within';
+type JobTest = (job: MockJob) => boolean;
+
+// One test per filter in the query string, keyed so facets can leave their own one out
+function readJobFilters(query: URLSearchParams): Partial<Record<JobFilterKey, JobTest>> {
+  const tests: Partial<Record<JobFilterKey, JobTest>> = {};
+
+  // Typo-tolerant, over the same fields JobCard highlights
+  const q = (query.get('q') || '').trim();
+  if (q) {
+    tests.q = (job) => matchesSearch([job.title, job.company_name, job.location, ...(job.skills_required ?? [])], q);
+  }
+
+  const types = query.getAll('job_type').map((value) => value.toLowerCase());
+  if (types.length > 0) tests.job_type = (job) => types.includes(job.job_type.toLowerCase());
+
+  const levels = query.getAll('experience_level').map((value) => value.toLowerCase());
+  if (levels.length > 0) tests.experience_level = (job) => levels.includes(job.experience_level.toLowerCase());
+
+  const location = (query.get('location') || '').trim().toLowerCase();
+  if (location) tests.location = (job) => job.location.toLowerCase().includes(location);
+
+  const salaryMin = query.has('salary_min') ? Number(query.get('salary_min')) : undefined;
+  const salaryMax = query.has('salary_max') ? Number(query.get('salary_max')) : undefined;
+  if (salaryMin !== undefined || salaryMax !== undefined) {
+    const requested = query.get('salary_currency');
+    const currency = isCurrencyCode(requested) ? requested : 'USD';
+    tests.salary = (job) => {
+      const salary = parseSalaryRange(job.salary_range);
+      if (!salary) return false;
+      const { min, max } = annualSalaryRange(salary, currency);
+      // Overlap between the job's range and the requested one
+      const low = min ?? max ?? 0;
+      const high = max ?? min ?? 0;
+      return (salaryMax === undefined || low <= salaryMax) && (salaryMin === undefined || high >= salaryMin);
+    };
+  }
+
+  const postedWithin = query.get('posted_within');
+  if (isPostedWithin(postedWithin)) {
+    const since = Date.now() - POSTED_WITHIN_DAYS[postedWithin] * 24 * 60 * 60 * 1000;
+    tests.posted_within = (job) => Date.parse(job.created_at) >= since;
+  }
+
+  return tests;
+}
+
+// Jobs passing every filter in a jobs-endpoint query string
+function filterJobs(db: MockDatabase, query: URLSearchParams): MockJob[] {
+  const tests = Object.values(readJobFilters(query));
+  return db.jobs.filter((job) => tests.every((test) => test(job)));
+}
+
+// A listing job in the frontend's shape, which is what lib/jobSort compares
+function sortableJob(job: MockJob): Job {
+  return { ...withCompany(job), salary: parseSalaryRange(job.salary_range), requirements: job.skills_required };
+}
+
+// ?near=lat,lng as sent with sort=closest
+function readNear(query: URLSearchParams): GeoPoint | undefined {
+  const [lat, lng] = (query.get('near') ?? '').split(',').map((part) => (part.trim() ? Number(part) : NaN));
+  return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : undefined;
+}
+
+// Orders the listing by ?sort, newest first when the sort is missing or can't be applied
+// (closest without ?near, match for anyone but a candidate with profile skills). Returns the
+// order used so the response can echo it.
+function sortListing(jobs: MockJob[], query: URLSearchParams, user: MockUser | null): { jobs: MockJob[]; sort: JobSort } {
+  const requested = query.get('sort');
+  const near = readNear(query);
+  const skills = user?.role === 'candidate' ? user.candidate_profile?.skills ?? [] : [];
+  const sort: JobSort =
+    requested === 'salary' || (requested === 'closest' && near) || (requested === 'match' && skills.length > 0)
+      ? requested
+      : 'newest';
+  const newest = [...jobs].sort(newestFirst);
+  if (sort === 'newest') return { jobs: newest, sort };
+  const byId = new Map(newest.map((job) => [job.id, job]));
+  return { jobs: sortJobs(newest.map(sortableJob), sort, { near, skills }).map((job) => byId.get(job.id)!), sort };
+}
+
+function countBy(jobs: MockJob[], key: (job: MockJob) => string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const job of jobs) counts[key(job)] = (counts[key(job)] ?? 0) + 1;
+  return counts;
+}
+
+route('GET', '/jobs/', ({ db, query, user }) => {
+  const tests = readJobFilters(query);
+  // Jobs passing every filter except `skip`
+  const passing = (skip?: JobFilterKey) =>
+    db.jobs.filter((job) => Object.entries(tests).every(([key, test]) => key === skip || test(job)));
+
+  // Each facet is counted with the other filters applied, so a count is what ticking that value would add
+  const byPostedDate = passing('posted_within');
+  const facets = {
+    job_type: countBy(passing('job_type'), (job) => job.job_type.toLowerCase()),
+    experience_level: countBy(passing('experience_level'), (job) => job.experience_level.toLowerCase()),
+    location: countBy(passing('location'), (job) => job.location),
+    posted_within: Object.fromEntries(POSTED_WITHIN_OPTIONS.map(({ value }) => {
+      const since = Date.now() - POSTED_WITHIN_DAYS[value] * 24 * 60 * 60 * 1000;
+      return [value, byPostedDate.filter((job) => Date.parse(job.created_at) >= since).length];
+    })),
+  };
+
+  // The whole result is sorted before paging, so page 2 carries on where page 1 stopped
+  const { jobs, sort } = sortListing(passing(), query, user);
+  const { items, ...meta } = paginate(jobs, query);
+  return json({ jobs: items, ...meta, facets, sort });
+}, false);
+
+// Autocomplete: titles, companies, locations and skills from the listings that fit what's typed
+type SuggestionType = 'title' | 'company' | 'location' | 'skill';
+
+// Lower is better: starts with the text, has a word starting with it, close enough with typos
+function suggestionRank(value: string, q: string): number | null {
+  const lower = value.toLowerCase();
+  const needle = q.toLowerCase();
+  if (lower.startsWith(needle)) return 0;
+  if (lower.split(/\s+/).some((word) => word.startsWith(needle)) || lower.includes(needle)) return 1;
+  return matchesSearch([value], q) ? 2 : null;
+}
+
+route('GET', '/jobs/suggestions', ({ db, query }) => {
+  const q = (query.get('q') || '').trim();
+  const limit = Math.min(20, Math.max(1, Number(query.get('limit')) || 8));
+  if (!q) return json({ suggestions: [] });
+
+  const unique = new Map<string, { type: SuggestionType; value: string }>();
+  const add = (type: SuggestionType, value: string | undefined) => {
+    if (value && !unique.has(`${type}:${value.toLowerCase()}`)) unique.set(`${type}:${value.toLowerCase()}`, { type, value });
+  };
+  for (const job of db.jobs) {
+    add('title', job.title);
+    add('company', job.company_name);
+    add('location', job.location);
+    job.skills_required?.forEach((skill) => add('skill', skill));
+  }
+
+  const suggestions = [...unique.values()]
+    .map((suggestion) => ({ suggestion, rank: suggestionRank(suggestion.value, q) }))
+    .filter((entry): entry is { suggestion: { type: SuggestionType; value: string }; rank: number } => entry.rank !== null)
+    .sort((a, b) => a.rank - b.rank || a.suggestion.value.localeCompare(b.suggestion.value))
+    .slice(0, limit)
+    .map(({ suggestion }) => suggestion);
+  return json({ suggestions });
+}, false);
+
+route('GET', '/jobs/my-jobs', ({ db, user, query }) => {
+  const denied = requireRole(user, 'recruiter');
+  if (denied) return denied;
+  const mine = db.jobs.filter((job) => job.recruiter_id === user.id).sort(newestFirst);
+  const { items, ...meta } = paginate(mine.map(withCompany), query);
+  return json({ jobs: items, ...meta });
+});
+
+route('POST', '/jobs/create', ({ db, user, body }) => {
+  const denied = requireRole(user, 'recruiter');
+  if (denied) return denied;
+  const fields = pickJobFields(body);
+  const missing: Record<string, string> = {};
+  if (!fields.title) missing.title = 'Title is required.';
+  if (!fields.company_name) missing.company_name = 'Company is required.';
+  if (!fields.salary_range) missing.salary_range = 'Salary range is required.';
+  if (Object.keys(missing).length > 0) {
+    return invalid('Some required fields are missing.', missing);
+  }
+  const now = new Date().toISOString();
+  const job: MockJob = {
+    title: '',
+    company_name: '',
+    location: '',
+    salary_range: '',
+    job_type: 'full-time',
+    experience_level: 'Mid-level',
+    description: '',
+    skills_required: [],
+    ...fields,
+    id: createId('mock-job'),
+    recruiter_id: user.id,
+    created_at: now,
+    updated_at: now,
+  };
+  db.jobs.push(job);
+  return json({ message: 'Job created successfully', job }, 201);
+});
+
+route('GET', '/jobs/:id', ({ db, params }) => {
+  const job = db.jobs.find((j) => j.id === params.id);
+  return job ? json({ job }) : fail(404, 'Job not found');
+}, false);
+
+route('PUT', '/jobs/:id', ({ db, user, params, body }) => {
+  const job = db.jobs.find((j) => j.id === params.id);
+  if (!job) return fail(404, 'Job not found');
+  if (job.recruiter_id !== user.id) return fail(403, 'You can only edit your own jobs');
+  Object.assign(job, pickJobFields(body), { updated_at: new Date().toISOString() });
+  return json({ message: 'Job updated successfully', job });
+});
+
+route('DELETE', '/jobs/:id', ({ db, user, params }) => {
+  const job = db.jobs.find((j) => j.id === params.id);
+  if (!job) return fail(404, 'Job not found');
+  if (job.recruiter_id !== user.id) return fail(403, 'You can only delete your own jobs');
+  db.jobs = db.jobs.filter((j) => j.id !== job.id);
+  db.saved_jobs = db.saved_jobs.filter((s) => s.job_id !== job.id);
+  db.applications = db.applications.filter((a) => a.job_id !== job.id);
+  return json({ message: 'Job deleted successfully' });
+});
+
+// Saved jobs
+route('GET', '/user-jobs/saved-jobs', ({ db, user, query }) => {
+  const saved = db.saved_jobs
+    .filter((s) => s.user_id === user.id)
+    .sort(newestFirst)
+    .map((s) => ({ ...s, jobs: db.jobs.find((j) => j.id === s.job_id) || {} }));
+  const { items, ...meta } = paginate(saved, query);
+  return json({ saved_jobs: items, ...meta });
+});
+
+route('POST', '/user-jobs/saved-jobs', ({ db, user, body }) => {
+  const denied = requireRole(user, 'candidate');
+  if (denied) return denied;
+  const jobId = String(body.job_id || '');
+  if (!db.jobs.some((j) => j.id === jobId)) return fail(404, 'Job not found');
+  if (db.saved_jobs.some((s) => s.user_id === user.id && s.job_id === jobId)) {
+    return fail(409, 'Job is already saved');
+  }
+  const saved = { id: createId('mock-saved'), job_id: jobId, user_id: user.id, saved_at: new Date().toISOString() };
+  db.saved_jobs.push(saved);
+  return json(saved, 201);
+});
+
+route('DELETE', '/user-jobs/saved-jobs/:id', ({ db, user, params }) => {
+  const saved = db.saved_jobs.find((s) => s.id === params.id && s.user_id === user.id);
+  if (!saved) return fail(404, 'Saved job not found');
+  db.saved_jobs = db.saved_jobs.filter((s) => s.id !== saved.id);
+  return json({ message: 'Saved job removed' });
+});
+
+// Saved searches
+// Jobs matching a saved search that were posted after `since`, newest first
+function newJobsFor(db: MockDatabase, search: MockSavedSearch, since: string): MockJob[] {
+  return filterJobs(db, new URLSearchParams(search.query))
+    .filter((job) => Date.parse(job.created_at) > Date.parse(since))
+    .sort(newestFirst);
+}
+
+// Paused searches don't alert, so they never have new jobs
+function serializeSavedSearch(db: MockDatabase, search: MockSavedSearch) {
+  const { user_id, last_notified_at, ...rest } = search;
+  return { ...rest, new_job_count: search.paused ? 0 : newJobsFor(db, search, search.last_seen_at).length };
+}
+
+function findSavedSearch(db: MockDatabase, user: MockUser, id: string) {
+  return db.saved_searches.find((s) => s.id === id && s.user_id === user.id);
+}
+
+// There's no scheduler in the browser, so the daily digest goes out the first time the
+// candidate's saved searches are read after a day has passed (Header polls them)
+async function sendSearchDigest(db: MockDatabase, user: MockUser) {
+  const lastRun = user.search_digest_sent_at ? Date.parse(user.search_digest_sent_at) : 0;
+  if (Date.now() - lastRun < SEARCH_DIGEST_INTERVAL_MS) return;
+  const now = new Date().toISOString();
+  user.search_digest_sent_at = now;
+
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+  const due = db.saved_searches
+    .filter((s) => s.user_id === user.id && !s.paused && s.email_digest)
+    .map((search) => ({ search, jobs: newJobsFor(db, search, search.last_notified_at) }))
+    .filter(({ jobs }) => jobs.length > 0);
+
+  if (due.length > 0) {
+    try {
+      await getDigestNotifier().send({
+        to: { email: user.email, name: `${user.first_name} ${user.last_name}`.trim() },
+        searches: due.map(({ search, jobs }) => ({
+          name: search.name,
+          url: `${origin}${jobsPagePath(jobFiltersFromApiParams(new URLSearchParams(search.query)))}`,
+          newJobs: jobs.map((job) => ({
+            title: job.title,
+            company: job.company_name,
+            location: job.location,
+            url: `${origin}/jobs/${job.id}`,
+          })),
+        })),
+      });
+      due.forEach(({ search }) => {
+        search.last_notified_at = now;
+      });
+    } catch (error) {
+      // Nothing is marked as sent, so tomorrow's digest includes these jobs
+      console.warn('[mock email] Saved-search digest was not delivered:', error);
+    }
+  }
+  saveMockDatabase(db);
+}
+
+function readSavedSearchName(body: Record<string, unknown>): string | Response {
+  const name = String(body.name ?? '').trim();
+  if (!name) return invalid('Give the search a name.', { name: 'Give the search a name.' });
+  if (name.length > MAX_SAVED_SEARCH_NAME_LENGTH) {
+    const message = `Keep the name under ${MAX_SAVED_SEARCH_NAME_LENGTH} characters.`;
+    return invalid(message, { name: message });
+  }
+  return name;
+}
+
+route('GET', '/saved-searches/', async ({ db, user }) => {
+  const denied = requireRole(user, 'candidate');
+  if (denied) return denied;
+  await sendSearchDigest(db, user);
+  const searches = db.saved_searches.filter((s) => s.user_id === user.id).sort(newestFirst);
+  return json({ saved_searches: searches.map((s) => serializeSavedSearch(db, s)) });
+});
+
+route('POST', '/saved-searches/', ({ db, user, body }) => {
+  const denied = requireRole(user, 'candidate');
+  if (denied) return denied;
+  const name = readSavedSearchName(body);
+  if (name instanceof Response) return name;
+  const mine = db.saved_searches.filter((s) => s.user_id === user.id);
+  if (mine.length >= MAX_SAVED_SEARCHES) {
+    return fail(409, `You can keep up to ${MAX_SAVED_SEARCHES} saved searches. Delete one to save another.`);
+  }
+  const query = String(body.query ?? '');
+  if (mine.some((s) => s.query === query)) return fail(409, 'You have already saved this search.');
+
+  // Alerts start from now: jobs already listed aren't new
+  const now = new Date().toISOString();
+  const search: MockSavedSearch = {
+    id: createId('mock-saved-search'),
+    user_id: user.id,
+    name,
+    query,
+    paused: false,
+    email_digest: body.email_digest === true,
+    created_at: now,
+    last_seen_at: now,
+    last_notified_at: now,
+  };
+  db.saved_searches.push(search);
+  return json(serializeSavedSearch(db, search), 201);
+});
+
+route('PATCH', '/saved-searches/:id', ({ db, user, params, body }) => {
+  const search = findSavedSearch(db, user, params.id);
+  if (!search) return fail(404, 'Saved search not found');
+  if (body.name !== undefined) {
+    const name = readSavedSearchName(body);
+    if (name instanceof Response) return name;
+    search.name = name;
+  }
+  if (typeof body.paused === 'boolean') search.paused = body.paused;
+  if (typeof body.email_digest === 'boolean') search.email_digest = body.email_digest;
+  return json(serializeSavedSearch(db, search));
+});
+
+// Opening a search clears its new-job count
+route('POST', '/saved-searches/:id/seen', ({ db, user, params }) => {
+  const search = findSavedSearch(db, user, params.id);
+  if (!search) return fail(404, 'Saved search not found');
+  search.last_seen_at = new Date().toISOString();
+  return json(serializeSavedSearch(db, search));
+});
+
+route('DELETE', '/saved-searches/:id', ({ db, user, params }) => {
+  const search = findSavedSearch(db, user, params.id);
+  if (!search) return fail(404, 'Saved search not found');
+  db.saved_searches = db.saved_searches.filter((s) => s.id !== search.id);
+  return json({ message: 'Saved search deleted' });
+});
+
+// Applications
+route('GET', '/user-jobs/applications/recruiter', ({ db, user, query }) => {
+  const denied = requireRole(user, 'recruiter');
+  if (denied) return denied;
+  const jobId = query.get('job_id');
+  const myJobIds = new Set(db.jobs.filter((j) => j.recruiter_id === user.id).map((j) => j.id));
+  const received = db.applications
+    .filter((a) => myJobIds.has(a.job_id) && (!jobId || a.job_id === jobId))
+    .sort(newestFirst)
+    .map((a) => serializeApplication(db, a, true));
+  const { items, ...meta } = paginate(received, query);
+  return json({ applications: items, ...meta });
+});
+
+route('GET', '/user-jobs/applications', ({ db, user, query }) => {
+  const mine = db.applications
+    .filter((a) => a.candidate_id === user.id)
+    .sort(newestFirst)
+    .map((a) => serializeApplication(db, a, false));
+  const { items, ...meta } = paginate(mine, query);
+  return json({ applications: items, ...meta });
+});
+
+route('POST', '/user-jobs/applications', ({ db, user, body }) => {
+  const denied = requireRole(user, 'candidate');
+  if (denied) return denied;
+  if (user.email_verified === false) return fail(403, 'Verify your email address before applying.');
+  const jobId = String(body.job_id || '');
+  if (!db.jobs.some((j) => j.id === jobId)) return fail(404, 'Job not found');
+  if (!body.resume_url) return invalid('Resume is required.', { resume_url: 'Upload your resume or provide a link to it.' });
+  if (db.applications.some((a) => a.candidate_id === user.id && a.job_id === jobId)) {
+    return fail(409, 'You have already applied for this job');
+  }
+  const now = new Date().toISOString();
+  const application: MockApplication = {
+    id: createId('mock-application'),
+    job_id: jobId,
+    candidate_id: user.id,
+    resume_url: String(body.resume_url),
+    cover_letter: body.cover_letter ? String(body.cover_letter) : undefined,
+    status: 'applied',
+    applied_at: now,
+    updated_at: now,
+  };
+  db.applications.push(application);
+  return json(serializeApplication(db, application, false), 201);
+});
+
+route('PATCH', '/user-jobs/applications/:id', ({ db, user, params, body }) => {
+  const application = db.applications.find((a) => a.id === params.id);
+  if (!application) return fail(404, 'Application not found');
+
+  if (user.role === 'recruiter') {
+    const job = db.jobs.find((j) => j.id === application.job_id);
+    if (job?.recruiter_id !== user.id) return fail(403, 'Not your job listing');
+    if (body.status) application.status = body.status as MockApplication['status'];
+  } else {
+    if (application.candidate_id !== user.id) return fail(403, 'Not your application');
+    if (application.status !== 'applied') return fail(400, 'Only applications in applied status can be edited');
+    if (body.resume_url !== undefined) application.resume_url = String(body.resume_url);
+    if (body.cover_letter !== undefined) application.cover_letter = String(body.cover_letter);
+  }
+  application.updated_at = new Date().toISOString();
+  return json(serializeApplication(db, application, user.role === 'recruiter'));
+});
+
+route('DELETE', '/user-jobs/applications/:id', ({ db, user, params }) => {
+  const application = db.applications.find((a) => a.id === params.id && a.candidate_id === user.id);
+  if (!application) return fail(404, 'Application not found');
+  db.applications = db.applications.filter((a) => a.id !== application.id);
+  return json({ message: 'Application withdrawn' });
+});
+
+// --- Entry point ---
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    });
+  });
+}
+
+/**
+ * Drop-in replacement for fetch() against the API base URL.
+ * `endpoint` is the path after the base URL, e.g. `/jobs/?page=1`.
+ */
+export async function mockFetch(endpoint: string, init: RequestInit = {}, latencyMs = 300): Promise<Response> {
+  await delay(latencyMs, init.signal);
+
+  const method = (init.method || 'GET').toUpperCase();
+  const url = new URL(endpoint, 'http://mock.local');
+  const path = url.pathname.replace(/\/$/, '') || '/';
+
+  const db = loadMockDatabase();
+  const headers = new Headers(init.headers);
+
+  for (const r of routes) {
+    if (r.method !== method) continue;
+    const match = path.match(r.pattern);
+    if (!match) continue;
+
+    const user = userFromToken(db, headers.get('Authorization'));
+    if (r.auth && !user) return fail(401, 'Missing or invalid token');
+
+    const params = Object.fromEntries(r.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]));
+    let body: Record<string, unknown> = {};
+    if (typeof init.body === 'string' && init.body) {
+      try {
+        body = JSON.parse(init.body);
+      } catch {
+        return fail(400, 'Request body must be valid JSON');
+      }
+    }
+
+    const response = await r.handler({ db, params, query: url.searchParams, body, user });
+    if (method !== 'GET') {
+      saveMockDatabase(db);
+    }
+    return response;
+  }
+
+  return fail(404, `Mock backend has no route for ${method} ${url.pathname}`);
+}
@@ -0,0 +1,385 @@
+// src/lib/mockData.ts
+// Seed data and localStorage persistence for the in-browser mock backend (see mockBackend.ts).
+// Records use the Flask shapes (company_name, skills_required, salary_range) so the
+// normalization in schemas.ts runs exactly as it does against the real server.
+
+import type { UserRole } from '@/hooks/useAuth';
+
+export interface MockUser {
+  id: string;
+  email: string;
+  password: string;
+  first_name: string;
+  last_name: string;
+  role: UserRole;
+  // Missing on users stored before verification existed; they count as verified
+  email_verified?: boolean;
+  two_factor?: MockTwoFactor;
+  notification_preferences?: MockNotificationPreferences;
+  // Candidates only; missing until the profile is first saved
+  candidate_profile?: MockCandidateProfile;
+  // When the last saved-search digest email went out
+  search_digest_sent_at?: string;
+}
+
+export interface MockCandidateProfile {
+  headline: string;
+  summary: string;
+  skills: string[];
+  experience: MockWorkExperience[];
+  education: MockEducation[];
+  links: MockProfileLink[];
+  resume_url: string; // default resume used by one-click apply
+  updated_at: string;
+}
+
+export interface MockWorkExperience {
+  title: string;
+  company: string;
+  start_date: string; // YYYY-MM
+  end_date?: string; // YYYY-MM; missing for the current role
+  description?: string;
+}
+
+export interface MockEducation {
+  school: string;
+  degree: string;
+  field_of_study?: string;
+  start_year?: number;
+  end_year?: number;
+}
+
+export interface MockProfileLink {
+  label: string;
+  url: string;
+}
+
+export interface MockNotificationPreferences {
+  application_updates: boolean;
+  job_recommendations: boolean;
+  product_news: boolean;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: MockNotificationPreferences = {
+  application_updates: true,
+  job_recommendations: true,
+  product_news: false,
+};
+
+export interface MockTwoFactor {
+  secret: string; // base32 TOTP secret
+  enabled: boolean; // false until the first code is confirmed during setup
+  backup_codes: string[]; // unused codes; each works once
+}
+
+export interface MockJob {
+  id: string;
+  title: string;
+  company_name: string;
+  location: string;
+  salary_range: string;
+  job_type: string;
+  experience_level: string;
+  description: string;
+  skills_required: string[];
+  recruiter_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MockSavedJob {
+  id: string;
+  job_id: string;
+  user_id: string;
+  saved_at: string;
+}
+
+export interface MockApplication {
+  id: string;
+  job_id: string;
+  candidate_id: string;
+  resume_url: string;
+  cover_letter?: string;
+  status: 'applied' | 'shortlisted' | 'rejected' | 'interview' | 'selected';
+  applied_at: string;
+  updated_at: string;
+}
+
+// A candidate's saved job search; `query` holds the filters as the jobs endpoint's query string
+export interface MockSavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string;
+  paused: boolean;
+  email_digest: boolean;
+  created_at: string;
+  // Jobs posted after this count as new; moves forward when the candidate opens the search
+  last_seen_at: string;
+  // Jobs posted after this haven't been in a digest yet
+  last_notified_at: string;
+}
+
+// One-time token from a verification or password reset email, or a pending two-factor sign-in
+export interface MockAuthToken {
+  token: string;
+  user_id: string;
+  purpose: 'verify_email' | 'reset_password' | 'two_factor';
+  expires_at: string;
+}
+
+export interface MockDatabase {
+  users: MockUser[];
+  jobs: MockJob[];
+  saved_jobs: MockSavedJob[];
+  applications: MockApplication[];
+  auth_tokens: MockAuthToken[];
+  saved_searches: MockSavedSearch[];
+}
+
+const STORAGE_KEY = 'hirify_mock_db';
+
+export const MOCK_RECRUITER_ID = 'mock-recruiter-1';
+export const MOCK_CANDIDATE_ID = 'mock-candidate-1';
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+export function createId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function seedJobs(): MockJob[] {
+  const jobs: Omit<MockJob, 'id' | 'recruiter_id' | 'created_at' | 'updated_at'>[] = [
+    {
+      title: 'Senior Frontend Engineer',
+      company_name: 'Acme Corp',
+      location: 'Bengaluru',
+      salary_range: '25-35 LPA',
+      job_type: 'full-time',
+      experience_level: 'Senior',
+      description: 'Build and own the candidate-facing React application. You will work closely with design and backend teams to ship features end to end.',
+      skills_required: ['React', 'TypeScript', 'Tailwind CSS', 'Testing'],
+    },
+    {
+      title: 'Backend Developer (Python)',
+      company_name: 'Globex',
+      location: 'Pune',
+      salary_range: '12-18 LPA',
+      job_type: 'full-time',
+      experience_level: 'Mid-level',
+      description: 'Design REST APIs with Flask and PostgreSQL. Experience with background jobs and caching is a plus.',
+      skills_required: ['Python', 'Flask', 'PostgreSQL', 'Docker'],
+    },
+    {
+      title: 'Junior React Developer',
+      company_name: 'Initech',
+      location: 'Remote',
+      salary_range: '6-9 LPA',
+      job_type: 'remote',
+      experience_level: 'Entry-level',
+      description: 'Join a small product team and help us build internal tools. Mentorship provided.',
+      skills_required: ['React', 'JavaScript', 'HTML', 'CSS'],
+    },
+    {
+      title: 'Data Analyst Intern',
+      company_name: 'Umbrella Analytics',
+      location: 'Hyderabad',
+      salary_range: '3 LPA',
+      job_type: 'internship',
+      experience_level: 'Entry-level',
+      description: 'Six-month internship working on dashboards and reporting pipelines.',
+      skills_required: ['SQL', 'Excel', 'Python'],
+    },
+    {
+      title: 'DevOps Engineer',
+      company_name: 'Stark Industries',
+      location: 'Mumbai',
+      salary_range: '18-26 LPA',
+      job_type: 'hybrid',
+      experience_level: 'Senior',
+      description: 'Own our CI/CD pipelines and Kubernetes clusters. On-call rotation shared across the team.',
+      skills_required: ['Kubernetes', 'AWS', 'Terraform', 'CI/CD'],
+    },
+    {
+      title: 'Product Designer',
+      company_name: 'Acme Corp',
+      location: 'Bengaluru',
+      salary_range: '14-20 LPA',
+      job_type: 'full-time',
+      experience_level: 'Mid-level',
+      description: 'Shape the end-to-end hiring experience for candidates and recruiters.',
+      skills_required: ['Figma', 'User Research', 'Prototyping'],
+    },
+    {
+      title: 'Full Stack Developer',
+      company_name: 'Wayne Enterprises',
+      location: 'Chennai',
+      salary_range: '15-22 LPA',
+      job_type: 'full-time',
+      experience_level: 'Mid-level',
+      description: 'Work across a React frontend and a Node.js/Python backend on our logistics platform.',
+      skills_required: ['React', 'Node.js', 'Python', 'PostgreSQL'],
+    },
+    {
+      title: 'QA Automation Engineer',
+      company_name: 'Globex',
+      location: 'Remote',
+      salary_range: 'USD 60-80k per year',
+      job_type: 'contract',
+      experience_level: 'Mid-level',
+      description: 'Build and maintain end-to-end test suites for web and mobile apps.',
+      skills_required: ['Playwright', 'TypeScript', 'Testing'],
+    },
+    {
+      title: 'Engineering Manager',
+      company_name: 'Stark Industries',
+      location: 'Delhi',
+      salary_range: '45-60 LPA',
+      job_type: 'full-time',
+      experience_level: 'Lead',
+      description: 'Lead a team of eight engineers building our payments platform.',
+      skills_required: ['Leadership', 'System Design', 'Hiring'],
+    },
+    {
+      title: 'Part-time Technical Writer',
+      company_name: 'Initech',
+      location: 'Remote',
+      salary_range: 'EUR 30-40 per hour',
+      job_type: 'part-time',
+      experience_level: 'Mid-level',
+      description: 'Write API documentation and developer guides.',
+      skills_required: ['Technical Writing', 'Markdown', 'REST APIs'],
+    },
+    {
+      title: 'Machine Learning Engineer',
+      company_name: 'Umbrella Analytics',
+      location: 'Bengaluru',
+      salary_range: '28-40 LPA',
+      job_type: 'hybrid',
+      experience_level: 'Senior',
+      description: 'Train and deploy ranking models for our recommendations product.',
+      skills_required: ['Python', 'PyTorch', 'MLOps', 'SQL'],
+    },
+    {
+      title: 'Mobile Developer (React Native)',
+      company_name: 'Wayne Enterprises',
+      location: 'Pune',
+      salary_range: '12-16 LPA',
+      job_type: 'full-time',
+      experience_level: 'Mid-level',
+      description: 'Ship features for our customer app on iOS and Android.',
+      skills_required: ['React Native', 'TypeScript', 'Redux'],
+    },
+  ];
+
+  return jobs.map((job, index) => ({
+    ...job,
+    id: `mock-job-${index + 1}`,
+    recruiter_id: MOCK_RECRUITER_ID,
+    created_at: daysAgo(index * 2 + 1),
+    updated_at: daysAgo(index * 2 + 1),
+  }));
+}
+
+export function createSeedDatabase(): MockDatabase {
+  return {
+    users: [
+      {
+        id: MOCK_RECRUITER_ID,
+        email: 'recruiter@demo.dev',
+        password: 'password',
+        first_name: 'Riya',
+        last_name: 'Recruiter',
+        role: 'recruiter',
+        email_verified: true,
+      },
+      {
+        id: MOCK_CANDIDATE_ID,
+        email: 'candidate@demo.dev',
+        password: 'password',
+        first_name: 'Chris',
+        last_name: 'Candidate',
+        role: 'candidate',
+        email_verified: true,
+        candidate_profile: {
+          headline: 'Frontend engineer focused on React and design systems',
+          summary: 'Five years building customer-facing web apps, most recently a component library used by four product teams.',
+          skills: ['React', 'TypeScript', 'Tailwind CSS', 'Testing', 'Node.js'],
+          experience: [
+            {
+              title: 'Frontend Engineer',
+              company: 'Hooli',
+              start_date: '2021-06',
+              description: 'Own the shared component library and the checkout flow.',
+            },
+            { title: 'Web Developer', company: 'Pied Piper', start_date: '2019-01', end_date: '2021-05' },
+          ],
+          education: [
+            { school: 'University of Pune', degree: 'B.E.', field_of_study: 'Computer Engineering', start_year: 2015, end_year: 2019 },
+          ],
+          links: [{ label: 'GitHub', url: 'https://github.com/chris-candidate' }],
+          resume_url: 'https://example.com/resume.pdf',
+          updated_at: daysAgo(5),
+        },
+      },
+    ],
+    jobs: seedJobs(),
+    saved_jobs: [
+      { id: 'mock-saved-1', job_id: 'mock-job-2', user_id: MOCK_CANDIDATE_ID, saved_at: daysAgo(1) },
+    ],
+    applications: [
+      {
+        id: 'mock-application-1',
+        job_id: 'mock-job-1',
+        candidate_id: MOCK_CANDIDATE_ID,
+        resume_url: 'https://example.com/resume.pdf',
+        cover_letter: 'I have five years of React experience and would love to join Acme.',
+        status: 'shortlisted',
+        applied_at: daysAgo(3),
+        updated_at: daysAgo(2),
+      },
+    ],
+    auth_tokens: [],
+    saved_searches: [
+      {
+        id: 'mock-saved-search-1',
+        user_id: MOCK_CANDIDATE_ID,
+        name: 'React in Bengaluru',
+        query: 'q=react&location=Bengaluru',
+        paused: false,
+        email_digest: true,
+        created_at: daysAgo(30),
+        last_seen_at: daysAgo(8),
+        last_notified_at: daysAgo(8),
+      },
+    ],
+  };
+}
+
+export function loadMockDatabase(): MockDatabase {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const db = JSON.parse(stored) as MockDatabase;
+      // Databases saved before a table was added get it empty
+      db.auth_tokens ??= [];
+      db.saved_searches ??= [];
+      return db;
+    }
+  } catch {
+    console.warn('Mock database in localStorage is corrupt. Reseeding.');
+  }
+  const seeded = createSeedDatabase();
+  saveMockDatabase(seeded);
+  return seeded;
+}
+
+export function saveMockDatabase(db: MockDatabase): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+}
+
+export function resetMockDatabase(): MockDatabase {
+  const seeded = createSeedDatabase();
+  saveMockDatabase(seeded);
+  return seeded;
+}
@@ -0,0 +1,76 @@
+// src/lib/notifier.ts
+// Delivery for the daily saved-search digest that the mock backend sends (the Flask backend
+// mails its own). Like storage.ts it sits behind a small adapter interface: by default the
+// digest is written to the console next to the other mock emails; with VITE_DIGEST_WEBHOOK_URL
+// set each digest is POSTed there as JSON instead (a mail relay, a request bin), and
+// setDigestNotifier() plugs in anything else.
+
+import { getConfig } from './config';
+
+export interface DigestJob {
+  title: string;
+  company: string;
+  location: string;
+  url: string;
+}
+
+export interface DigestSearch {
+  name: string;
+  // Opens the Jobs page with the saved filters
+  url: string;
+  newJobs: DigestJob[];
+}
+
+export interface SearchDigest {
+  to: { email: string; name: string };
+  searches: DigestSearch[];
+}
+
+export interface DigestNotifier {
+  name: string;
+  /** Rejects when the digest couldn't be delivered; the same jobs are offered again next time. */
+  send(digest: SearchDigest): Promise<void>;
+}
+
+export function digestSubject({ searches }: SearchDigest): string {
+  const total = searches.reduce((sum, search) => sum + search.newJobs.length, 0);
+  return `${total} new ${total === 1 ? 'job matches' : 'jobs match'} your saved ${searches.length === 1 ? 'search' : 'searches'}`;
+}
+
+const consoleNotifier: DigestNotifier = {
+  name: 'console',
+  async send(digest) {
+    const body = digest.searches.map((search) => [
+      `${search.name} (${search.newJobs.length} new): ${search.url}`,
+      ...search.newJobs.map((job) => `  - ${job.title} at ${job.company}, ${job.location}: ${job.url}`),
+    ].join('\n'));
+    console.info(`[mock email] To: ${digest.to.email}\n${digestSubject(digest)}\n${body.join('\n')}`);
+  },
+};
+
+function createWebhookNotifier(url: string): DigestNotifier {
+  return {
+    name: 'webhook',
+    async send(digest) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subject: digestSubject(digest), ...digest }),
+      });
+      if (!response.ok) throw new Error(`Digest webhook answered ${response.status}`);
+    },
+  };
+}
+
+let customNotifier: DigestNotifier | null = null;
+
+/** Replaces the configured notifier (pass null to go back to it), e.g. from a test or devtools. */
+export function setDigestNotifier(notifier: DigestNotifier | null) {
+  customNotifier = notifier;
+}
+
+export function getDigestNotifier(): DigestNotifier {
+  if (customNotifier) return customNotifier;
+  const { digestWebhookUrl } = getConfig();
+  return digestWebhookUrl ? createWebhookNotifier(digestWebhookUrl) : consoleNotifier;
+}
@@ -0,0 +1,64 @@
+// src/lib/resumeDocument.ts
+// Loads a stored resume for the in-app viewer (ResumeViewerSheet). PDFs and plain text
+// render inline; anything else (Word files, links to sites that block cross-origin reads
+// such as Google Drive) falls back to opening the file in a new tab.
+
+import { resolveFileUrl } from './storage';
+
+export type ResumeDocument =
+  | { kind: 'pdf'; url: string; data: Uint8Array }
+  | { kind: 'text'; url: string; text: string }
+  | { kind: 'unsupported'; url: string; reason: string };
+
+const TEXT_EXTENSIONS = /\.(txt|md|text)(\?|#|$)/i;
+const DOCX_EXTENSION = /\.docx(\?|#|$)/i;
+
+function startsWithPdfMagic(bytes: Uint8Array): boolean {
+  // "%PDF"
+  return bytes[0] === 0x25 && bytes[1] === 0x50 && bytes[2] === 0x44 && bytes[3] === 0x46;
+}
+
+export async function loadResumeDocument(reference: string, signal?: AbortSignal): Promise<ResumeDocument> {
+  const url = await resolveFileUrl(reference);
+
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return {
+      kind: 'unsupported',
+      url,
+      reason: "This resume is hosted on a site that doesn't allow previews here.",
+    };
+  }
+  if (!response.ok) {
+    return { kind: 'unsupported', url, reason: `The resume could not be loaded (HTTP ${response.status}).` };
+  }
+
+  const contentType = response.headers.get('Content-Type')?.toLowerCase() ?? '';
+  const bytes = new Uint8Array(await response.arrayBuffer());
+
+  if (contentType.includes('pdf') || startsWithPdfMagic(bytes)) {
+    return { kind: 'pdf', url, data: bytes };
+  }
+  if (contentType.startsWith('text/plain') || (TEXT_EXTENSIONS.test(reference) && !contentType.startsWith('text/html'))) {
+    return { kind: 'text', url, text: new TextDecoder().decode(bytes) };
+  }
+  if (contentType.includes('wordprocessingml') || DOCX_EXTENSION.test(reference)) {
+    return { kind: 'unsupported', url, reason: "Word documents can't be previewed here yet." };
+  }
+  return { kind: 'unsupported', url, reason: "This file type can't be previewed here." };
+}
+
+/** Start offsets of every case-insensitive occurrence of `query` in `text`. */
+export function findMatchOffsets(text: string, query: string): number[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const haystack = text.toLowerCase();
+  const offsets: number[] = [];
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + needle.length)) {
+    offsets.push(index);
+  }
+  return offsets;
+}
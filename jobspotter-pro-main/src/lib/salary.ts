@@ -0,0 +1,228 @@
+// src/lib/salary.ts
+// Salary model shared by the API layer, the job form and every screen that shows pay.
+// The backend stores a free-text salary_range ("10-12 LPA", "USD 80-100k per year");
+// parseSalaryRange reads it into a Salary and createSalaryRangeString writes it back,
+// so a job opened in JobFormModal and saved unchanged keeps the same string.
+
+export const CURRENCIES = ['INR', 'USD', 'EUR', 'GBP'] as const;
+export type CurrencyCode = (typeof CURRENCIES)[number];
+
+export const SALARY_PERIODS = ['year', 'month', 'hour'] as const;
+export type SalaryPeriod = (typeof SALARY_PERIODS)[number];
+
+// Scale the amounts are written in: 12 lakh, 80 thousand or plain 4500
+export type SalaryUnit = 'lakh' | 'thousand' | 'one';
+
+export interface Salary {
+  min?: number; // in `unit`s of `currency` per `period`, e.g. 10 for "10 LPA"
+  max?: number;
+  currency: CurrencyCode;
+  period: SalaryPeriod;
+  unit: SalaryUnit;
+}
+
+const UNIT_MULTIPLIER: Record<SalaryUnit, number> = { lakh: 100_000, thousand: 1_000, one: 1 };
+const UNIT_SUFFIX: Record<SalaryUnit, string> = { lakh: 'L', thousand: 'k', one: '' };
+const PERIOD_SUFFIX: Record<SalaryPeriod, string> = { year: 'yr', month: 'mo', hour: 'hr' };
+// Full-time hours, for comparing hourly pay with yearly
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = { year: 1, month: 12, hour: 2080 };
+
+const CURRENCY_SYMBOLS: Record<string, CurrencyCode> = { '₹': 'INR', $: 'USD', '€': 'EUR', '£': 'GBP' };
+
+// Indicative rates (per 1 USD) used only to show salaries in a candidate's display currency.
+// Converted amounts are always marked as approximate.
+const USD_RATES: Record<CurrencyCode, number> = { USD: 1, INR: 83, EUR: 0.92, GBP: 0.79 };
+
+export const CURRENCY_LABELS: Record<CurrencyCode, string> = {
+  INR: 'Indian Rupee (₹)',
+  USD: 'US Dollar ($)',
+  EUR: 'Euro (€)',
+  GBP: 'British Pound (£)',
+};
+
+export const UNIT_LABELS: Record<SalaryUnit, string> = { lakh: 'lakh', thousand: 'thousand', one: '' };
+
+/** The scale recruiters usually quote in: lakh per annum in India, thousands per year elsewhere. */
+export function defaultSalaryUnit(currency: CurrencyCode, period: SalaryPeriod): SalaryUnit {
+  if (period !== 'year') return 'one';
+  return currency === 'INR' ? 'lakh' : 'thousand';
+}
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && (CURRENCIES as readonly string[]).includes(value);
+}
+
+/** Converts a plain amount between currencies using the indicative rates above. */
+export function convertAmount(amount: number, from: CurrencyCode, to: CurrencyCode): number {
+  if (from === to) return amount;
+  return (amount / USD_RATES[from]) * USD_RATES[to];
+}
+
+// --- Parsing ---
+
+// "10-12 LPA", "10 LPA", "Up to 12 LPA" - the format every existing job uses
+const LPA_PATTERN = /^(up to\s+)?(\d+(?:\.\d+)?)(?:\s*-\s*(\d+(?:\.\d+)?))?\s*LPA$/i;
+// "USD 80-100k per year", "Up to EUR 4500 per month" - written by createSalaryRangeString
+const CANONICAL_PATTERN =
+  /^(up to\s+)?([A-Z]{3})\s+(\d+(?:\.\d+)?)(?:\s*-\s*(\d+(?:\.\d+)?))?\s*(k|L)?\s+per\s+(year|month|hour)$/i;
+
+function toNumber(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+function rangeFrom(upTo: boolean, first: number, second?: number): Pick<Salary, 'min' | 'max'> {
+  if (upTo) return { max: second ?? first };
+  return { min: first, max: second };
+}
+
+// Best effort for hand-entered strings such as "$80k - $100k/month" or "₹6,00,000"
+function parseLooseSalary(text: string): Salary | undefined {
+  const numbers = [...text.replace(/,/g, '').matchAll(/(\d+(?:\.\d+)?)\s*(k|l|lakh|lpa)?\b/gi)];
+  if (numbers.length === 0) return undefined;
+
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find((s) => text.includes(s));
+  const code = text.toUpperCase().match(/\b(INR|USD|EUR|GBP)\b/)?.[1];
+  const currency: CurrencyCode = isCurrencyCode(code) ? code : symbol ? CURRENCY_SYMBOLS[symbol] : 'INR';
+
+  const lower = text.toLowerCase();
+  const period: SalaryPeriod = /hour|hr\b/.test(lower) ? 'hour' : /month|\bmo\b|pm\b/.test(lower) ? 'month' : 'year';
+
+  const suffix = numbers.find((n) => n[2])?.[2]?.toLowerCase();
+  const first = Number(numbers[0][1]);
+  let unit: SalaryUnit = suffix === 'k' ? 'thousand' : suffix ? 'lakh' : 'one';
+  // Bare small numbers are the old "10-12" lakh shorthand
+  if (!suffix && currency === 'INR' && period === 'year' && first < 1000) {
+    unit = 'lakh';
+  }
+
+  return {
+    ...rangeFrom(/up to/i.test(text), first, toNumber(numbers[1]?.[1])),
+    currency,
+    period,
+    unit,
+  };
+}
+
+/**
+ * Parses the backend's salary_range string into a Salary.
+ * Returns undefined when the string has no amount in it.
+ */
+export function parseSalaryRange(salaryRange: string | null | undefined): Salary | undefined {
+  if (!salaryRange || typeof salaryRange !== 'string') {
+    return undefined;
+  }
+  const text = salaryRange.trim();
+
+  const lpa = text.match(LPA_PATTERN);
+  if (lpa) {
+    return {
+      ...rangeFrom(!!lpa[1], Number(lpa[2]), toNumber(lpa[3])),
+      currency: 'INR',
+      period: 'year',
+      unit: 'lakh',
+    };
+  }
+
+  const canonical = text.match(CANONICAL_PATTERN);
+  if (canonical && isCurrencyCode(canonical[2].toUpperCase())) {
+    const suffix = canonical[5];
+    return {
+      ...rangeFrom(!!canonical[1], Number(canonical[3]), toNumber(canonical[4])),
+      currency: canonical[2].toUpperCase() as CurrencyCode,
+      period: canonical[6].toLowerCase() as SalaryPeriod,
+      unit: suffix === 'L' || suffix === 'l' ? 'lakh' : suffix ? 'thousand' : 'one',
+    };
+  }
+
+  return parseLooseSalary(text);
+}
+
+// --- Serializing ---
+
+function hasAmount(value: number | undefined): value is number {
+  return value !== undefined && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Writes a Salary back in the backend's salary_range format. INR lakh-per-annum keeps
+ * the "10-12 LPA" form; everything else uses "USD 80-100k per year".
+ * Returns undefined when neither bound is set, since the backend requires a salary.
+ */
+export function createSalaryRangeString(salary: Salary | undefined): string | undefined {
+  if (!salary) return undefined;
+  const { min, max, currency, period, unit } = salary;
+  const hasMin = hasAmount(min);
+  const hasMax = hasAmount(max);
+  if (!hasMin && !hasMax) return undefined;
+
+  const range = hasMin && hasMax ? `${min}-${max}` : hasMin ? `${min}` : `${max}`;
+  const upTo = !hasMin ? 'Up to ' : '';
+
+  if (currency === 'INR' && period === 'year' && unit === 'lakh') {
+    return `${upTo}${range} LPA`;
+  }
+  return `${upTo}${currency} ${range}${UNIT_SUFFIX[unit]} per ${period}`;
+}
+
+// --- Comparing ---
+
+/** A salary's bounds as yearly amounts in `currency`, so jobs posted in different scales can be compared. */
+export function annualSalaryRange(salary: Salary, currency: CurrencyCode): { min?: number; max?: number } {
+  const annual = (amount: number | undefined) =>
+    hasAmount(amount)
+      ? convertAmount(amount * UNIT_MULTIPLIER[salary.unit] * PERIODS_PER_YEAR[salary.period], salary.currency, currency)
+      : undefined;
+  return { min: annual(salary.min), max: annual(salary.max) };
+}
+
+// --- Display ---
+
+export interface FormatSalaryOptions {
+  // Convert to this currency before formatting (the candidate's display currency)
+  displayCurrency?: CurrencyCode | null;
+  locale?: string;
+}
+
+function defaultLocale(): string {
+  return typeof navigator !== 'undefined' && navigator.language ? navigator.language : 'en-US';
+}
+
+function compactCurrencyFormatter(currency: CurrencyCode, locale?: string): Intl.NumberFormat {
+  return new Intl.NumberFormat(locale ?? defaultLocale(), {
+    style: 'currency',
+    currency,
+    notation: 'compact',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 1,
+  });
+}
+
+/** A plain amount in compact form, e.g. "₹12L" or "$80K". */
+export function formatAmount(amount: number, currency: CurrencyCode, locale?: string): string {
+  return compactCurrencyFormatter(currency, locale).format(amount);
+}
+
+/**
+ * Locale-aware compact salary, e.g. "₹10L – ₹12L / yr" or "≈ $12K – $14K / yr" when converted.
+ * Returns null when the job has no salary.
+ */
+export function formatSalary(salary: Salary | undefined, options: FormatSalaryOptions = {}): string | null {
+  if (!salary || (!hasAmount(salary.min) && !hasAmount(salary.max))) return null;
+
+  const target = options.displayCurrency ?? salary.currency;
+  const converted = target !== salary.currency;
+  const formatter = compactCurrencyFormatter(target, options.locale);
+  const format = (amount: number) =>
+    formatter.format(convertAmount(amount * UNIT_MULTIPLIER[salary.unit], salary.currency, target));
+
+  let range: string;
+  if (hasAmount(salary.min) && hasAmount(salary.max)) {
+    range = `${format(salary.min)} – ${format(salary.max)}`;
+  } else if (hasAmount(salary.min)) {
+    range = `From ${format(salary.min)}`;
+  } else {
+    range = `Up to ${format(salary.max!)}`;
+  }
+
+  return `${converted ? '≈ ' : ''}${range} / ${PERIOD_SUFFIX[salary.period]}`;
+}
@@ -0,0 +1,381 @@
+// src/lib/schemas.ts
+// Runtime validation of backend payloads. Every response body api.ts passes on goes through
+// one of these schemas (writes whose body the app ignores are left unchecked and typed
+// unknown), which also map the Flask field names onto the frontend types in one place
+// (company_name -> company, skills_required -> requirements, salary_range -> salary).
+// When the backend changes shape the mismatch is logged with the exact field paths and
+// surfaced as an 'invalid_response' ApiError, instead of rendering placeholders or crashing.
+import { z } from 'zod';
+import type {
+  ApiResponse,
+  Application,
+  BackendApplicationResponse,
+  BackendJobResponse,
+  BackendSavedJobResponse,
+  CandidateProfile,
+  Job,
+  JobSuggestion,
+  LoginResponse,
+  NewApplication,
+  NotificationPreferences,
+  SavedJob,
+  SavedSearch,
+  SignedDownload,
+  SignedUpload,
+  TwoFactorChallenge,
+  TwoFactorSetup,
+} from './api';
+import type { FlaskUser } from '../hooks/useAuth';
+import { ApiError } from './errors';
+import { parseSalaryRange } from './salary';
+import { isJobSort } from './jobSort';
+import { jobFiltersFromApiParams } from './jobFilters';
+
+// Output type T, any input (the raw JSON)
+export type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// What the compiler can check of a schema's output here: zod only infers required keys
+// with strictNullChecks, which this project has off, so every key, at every level, comes
+// out optional. The types of the keys are still checked against T; whether they're present is not.
+type OptionalKeys<T> = T extends readonly (infer Item)[]
+  ? OptionalKeys<Item>[]
+  : T extends object
+    ? { [K in keyof T]?: OptionalKeys<T[K]> }
+    : T;
+
+// Pins each exported schema to the interface it produces. This is a compile-time check
+// on the key types only, and the one place a schema's output is widened to T; the
+// runtime validation is the schema itself.
+function typed<T>(schema: z.ZodType<OptionalKeys<T>, z.ZodTypeDef, unknown>): Schema<T> {
+  return schema as Schema<T>;
+}
+
+// --- Drift reporting ---
+
+const reportedDrift = new Set<string>();
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+// Logged once per distinct mismatch so a refetching query doesn't flood the console
+function reportSchemaDrift(context: string, error: z.ZodError) {
+  const issues = formatIssues(error);
+  const key = `${context}|${issues.join(';')}`;
+  if (reportedDrift.has(key)) return;
+  reportedDrift.add(key);
+  console.error(`[api] Response from ${context} does not match the expected schema:\n  ${issues.join('\n  ')}`);
+}
+
+// --- Field helpers ---
+
+// Flask/Postgres ids can come back as numbers or UUID strings; the frontend always uses strings
+const id = z.union([z.string(), z.number()]).transform(String);
+// null and missing are the same thing to the UI
+const optionalString = z.string().nullish().transform((value) => value ?? undefined);
+const optionalStringList = z.array(z.string()).nullish().transform((value) => value ?? undefined);
+
+// --- Job ---
+
+// Accepts both the Flask keys and the frontend keys (nested jobs on applications carry both)
+const rawJobFields = {
+  id,
+  title: z.string(),
+  company_name: optionalString,
+  company: optionalString,
+  location: z.string(),
+  salary_range: optionalString,
+  job_type: z.string(),
+  experience_level: z.string(),
+  description: z.string(),
+  skills_required: optionalStringList,
+  requirements: optionalStringList,
+  benefits: optionalStringList,
+  recruiter_id: id,
+  recruiter: z
+    .object({ name: z.string(), email: z.string(), company: z.string() })
+    .nullish()
+    .transform((value) => value ?? undefined),
+  created_at: z.string(),
+  updated_at: z.string(),
+};
+
+type RawJob = z.output<z.ZodObject<typeof rawJobFields>>;
+
+function normalizeJob(raw: Partial<RawJob>): Partial<Job> {
+  return {
+    id: raw.id,
+    title: raw.title,
+    company: raw.company_name ?? raw.company,
+    location: raw.location,
+    salary: parseSalaryRange(raw.salary_range),
+    job_type: raw.job_type,
+    experience_level: raw.experience_level,
+    description: raw.description,
+    requirements: raw.skills_required ?? raw.requirements,
+    benefits: raw.benefits,
+    recruiter_id: raw.recruiter_id,
+    recruiter: raw.recruiter as Job['recruiter'],
+    created_at: raw.created_at,
+    updated_at: raw.updated_at,
+  };
+}
+
+export const jobSchema = typed<Job>(
+  z
+    .object(rawJobFields)
+    .refine((raw) => !!(raw.company_name ?? raw.company), {
+      message: 'Expected company_name',
+      path: ['company_name'],
+    })
+    .transform(normalizeJob)
+);
+
+// Jobs embedded in other records may only carry a few fields
+export const partialJobSchema = typed<Partial<Job>>(z.object(rawJobFields).partial().transform(normalizeJob));
+
+// --- Saved job / Application ---
+
+export const savedJobSchema = typed<SavedJob>(z.object({
+  id,
+  job_id: id,
+  user_id: id,
+  saved_at: z.string(),
+  jobs: partialJobSchema.nullish().transform((value) => value ?? {}),
+}));
+
+const applicationStatus = z.enum(['applied', 'shortlisted', 'rejected', 'interview', 'selected']);
+
+export const applicationSchema = typed<Application>(z.object({
+  id,
+  job_id: id,
+  candidate_id: id,
+  resume_url: z.string(),
+  cover_letter: optionalString,
+  status: applicationStatus,
+  applied_at: z.string(),
+  updated_at: z.string(),
+  job: partialJobSchema.nullish().transform((value) => value ?? undefined),
+  candidate_name: optionalString,
+  candidate_email: optionalString,
+}));
+
+// Never fails: a field that's missing or malformed is just left out (see NewApplication)
+export const newApplicationSchema = typed<NewApplication>(z
+  .object({
+    id: id.optional().catch(undefined),
+    status: applicationStatus.optional().catch(undefined),
+  })
+  .catch({}));
+
+// --- Users ---
+
+const userFields = {
+  id,
+  name: optionalString,
+  first_name: z.string(),
+  last_name: z.string(),
+  email: z.string(),
+  role: z.enum(['candidate', 'recruiter']),
+  email_verified: z.boolean().nullish().transform((value) => value ?? undefined),
+  two_factor_enabled: z.boolean().nullish().transform((value) => value ?? undefined),
+};
+
+export const flaskUserSchema = typed<FlaskUser>(z.object(userFields));
+
+// /auth/profile/:id omits the email; getMyProfile takes it from /auth/protected
+export const profileSchema = typed<Omit<FlaskUser, 'email'>>(z.object(userFields).omit({ email: true }));
+
+export const protectedSchema = typed<{ message: string; user_id: string; email: string }>(z.object({
+  message: z.string(),
+  user_id: id,
+  email: z.string(),
+}));
+
+// Acknowledgements from endpoints that only report success (password reset, verification)
+export const messageSchema = typed<{ message: string }>(z.object({ message: z.string() }));
+
+export const loginSchema = typed<LoginResponse>(z.object({
+  access_token: z.string(),
+  user: flaskUserSchema,
+}));
+
+export const accessTokenSchema = typed<{ access_token: string }>(z.object({ access_token: z.string() }));
+
+// POST /auth/login answers with a challenge instead of a token when two-factor is on
+export const twoFactorChallengeSchema = typed<TwoFactorChallenge>(z.object({
+  two_factor_required: z.literal(true),
+  challenge_token: z.string(),
+}));
+
+export const loginResultSchema = typed<LoginResponse | TwoFactorChallenge>(
+  z.union([twoFactorChallengeSchema, loginSchema])
+);
+
+export const twoFactorSetupSchema = typed<TwoFactorSetup>(z.object({
+  secret: z.string(),
+  otpauth_url: z.string(),
+}));
+
+export const backupCodesSchema = typed<{ backup_codes: string[] }>(z.object({
+  backup_codes: z.array(z.string()),
+}));
+
+// --- Account settings ---
+
+export const notificationPreferencesSchema = typed<NotificationPreferences>(z.object({
+  application_updates: z.boolean(),
+  job_recommendations: z.boolean(),
+  product_news: z.boolean(),
+}));
+
+// The export is handed to the user as-is, so only its top level is checked
+export const accountExportSchema = typed<Record<string, unknown>>(z.record(z.unknown()));
+
+// --- Candidate profile ---
+
+const emptyList = <T extends z.ZodTypeAny>(item: T) => z.array(item).nullish().transform((value) => value ?? []);
+
+export const candidateProfileSchema = typed<CandidateProfile>(z.object({
+  candidate_id: id,
+  name: z.string(),
+  headline: z.string().nullish().transform((value) => value ?? ''),
+  summary: z.string().nullish().transform((value) => value ?? ''),
+  skills: emptyList(z.string()),
+  experience: emptyList(z.object({
+    title: z.string(),
+    company: z.string(),
+    start_date: z.string(),
+    end_date: optionalString,
+    description: optionalString,
+  })),
+  education: emptyList(z.object({
+    school: z.string(),
+    degree: z.string(),
+    field_of_study: optionalString,
+    start_year: z.number().nullish().transform((value) => value ?? undefined),
+    end_year: z.number().nullish().transform((value) => value ?? undefined),
+  })),
+  links: emptyList(z.object({ label: z.string(), url: z.string() })),
+  resume_url: z.string().nullish().transform((value) => value ?? ''),
+  updated_at: optionalString,
+}));
+
+// --- Paged lists ---
+
+// Records that fail validation are dropped and reported, so one malformed record
+// doesn't take down the whole page
+function listOf<T>(item: Schema<T>, label: string): Schema<T[]> {
+  return z.array(z.unknown()).transform((items) =>
+    items.flatMap((raw, index) => {
+      const result = item.safeParse(raw);
+      if (result.success) return [result.data];
+      reportSchemaDrift(`${label}[${index}]`, result.error);
+      return [];
+    })
+  );
+}
+
+const pageFields = {
+  total: z.number(),
+  page: z.number(),
+  page_size: z.number(),
+};
+
+const facetCounts = z.record(z.number());
+
+export const jobPageSchema = typed<BackendJobResponse>(z.object({
+  jobs: listOf(jobSchema, 'jobs'),
+  ...pageFields,
+  facets: z
+    .object({
+      job_type: facetCounts,
+      experience_level: facetCounts,
+      location: facetCounts,
+      posted_within: facetCounts,
+    })
+    .nullish()
+    .transform((value) => value ?? undefined),
+  // An order this client doesn't know counts as not sorted, so the page gets sorted locally
+  sort: z
+    .string()
+    .nullish()
+    .transform((value) => (isJobSort(value) ? value : undefined)),
+}));
+
+export const savedJobPageSchema = typed<BackendSavedJobResponse>(z.object({
+  saved_jobs: listOf(savedJobSchema, 'saved_jobs'),
+  ...pageFields,
+}));
+
+export const applicationPageSchema = typed<BackendApplicationResponse>(z.object({
+  applications: listOf(applicationSchema, 'applications'),
+  ...pageFields,
+}));
+
+// Suggestions of an unknown type are dropped rather than failing the whole list
+export const jobSuggestionsSchema = typed<JobSuggestion[]>(z
+  .object({
+    suggestions: z.array(z.object({ type: z.string(), value: z.string() })),
+  })
+  .transform(({ suggestions }) =>
+    suggestions.filter((suggestion): suggestion is JobSuggestion =>
+      ['title', 'company', 'location', 'skill'].includes(suggestion.type)
+    )
+  ));
+
+// The filters come back as the query string they were saved with
+export const savedSearchSchema = typed<SavedSearch>(z
+  .object({
+    id,
+    name: z.string(),
+    query: z.string().nullish(),
+    paused: z.boolean().nullish(),
+    email_digest: z.boolean().nullish(),
+    new_job_count: z.number().nullish(),
+    created_at: z.string(),
+    last_seen_at: z.string().nullish(),
+  })
+  .transform(({ query, paused, email_digest, new_job_count, last_seen_at, ...search }) => ({
+    ...search,
+    filters: jobFiltersFromApiParams(new URLSearchParams(query ?? '')),
+    paused: paused ?? false,
+    email_digest: email_digest ?? false,
+    new_job_count: new_job_count ?? 0,
+    last_seen_at: last_seen_at ?? search.created_at,
+  })));
+
+export const savedSearchListSchema = typed<SavedSearch[]>(z
+  .object({ saved_searches: listOf(savedSearchSchema, 'saved_searches') })
+  .transform(({ saved_searches }) => saved_searches));
+
+export const candidateProfileListSchema = typed<CandidateProfile[]>(z
+  .object({ profiles: listOf(candidateProfileSchema, 'profiles') })
+  .transform(({ profiles }) => profiles));
+
+// --- Files ---
+
+export const signedUploadSchema = typed<SignedUpload>(z.object({
+  path: z.string().min(1),
+  upload_url: z.string().url(),
+}));
+
+export const signedDownloadSchema = typed<SignedDownload>(z.object({
+  url: z.string().url(),
+  expires_in: z.number().positive(),
+}));
+
+// GET /jobs/:id wraps the job
+export const singleJobSchema = typed<Job>(z.object({ job: jobSchema }).transform(({ job }) => job));
+
+// --- Decoding ---
+
+/** Validates a successful response body, turning a mismatch into an 'invalid_response' error. */
+export function decodeResponse<T>(schema: Schema<T>, data: unknown, endpoint: string): ApiResponse<T> {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return { data: result.data, error: null };
+  }
+  reportSchemaDrift(endpoint, result.error);
+  return { data: null, error: ApiError.invalidResponse(endpoint) };
+}
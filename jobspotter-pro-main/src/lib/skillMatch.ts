@@ -0,0 +1,95 @@
+// src/lib/skillMatch.ts
+// Scores a job's requirements (skills_required) against a candidate's profile skills.
+// Both sides are free text typed by people, so names are normalised before comparing:
+// "ReactJS", "React.js" and "react" are the same skill, as are "Postgres" and "PostgreSQL".
+// Requirements written as sentences ("3+ years of Python") match on the skill inside them.
+
+export interface SkillMatch {
+  // Share of the job's requirements the candidate covers, 0-100
+  score: number;
+  // Requirements as the job lists them
+  matched: string[];
+  missing: string[];
+}
+
+export type MatchTier = 'strong' | 'partial' | 'weak';
+
+// Spellings that name the same skill; keys and values are already normalised
+const ALIASES: Record<string, string> = {
+  js: 'javascript',
+  ecmascript: 'javascript',
+  ts: 'typescript',
+  golang: 'go',
+  postgres: 'postgresql',
+  psql: 'postgresql',
+  k8s: 'kubernetes',
+  'amazon web services': 'aws',
+  'google cloud': 'gcp',
+  'google cloud platform': 'gcp',
+  tailwind: 'tailwind css',
+  'ci cd': 'ci/cd',
+  cicd: 'ci/cd',
+  'continuous integration': 'ci/cd',
+  ml: 'machine learning',
+  'rest api': 'rest apis',
+  rest: 'rest apis',
+};
+
+// Requirements with at least this many words are read as sentences rather than skill names
+const SENTENCE_WORDS = 4;
+
+export function normalizeSkill(skill: string): string {
+  const cleaned = skill
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/\bci\s*\/\s*cd\b/g, 'ci cd')
+    // "react.js", "reactjs", "node js" all name the library itself
+    .replace(/(\w)\s*\.?\s*js\b/g, '$1')
+    // Keep the characters that carry meaning in skill names (C++, C#, .NET)
+    .replace(/[^a-z0-9+#.]+/g, ' ')
+    .replace(/(^|\s)\.(?!net\b)/g, '$1')
+    .replace(/\.(\s|$)/g, '$1')
+    .trim()
+    .replace(/\s+/g, ' ');
+  return ALIASES[cleaned] ?? cleaned;
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  return ` ${text} `.includes(` ${phrase} `);
+}
+
+function requirementMet(requirement: string, skills: Set<string>): boolean {
+  const normalized = normalizeSkill(requirement);
+  if (skills.has(normalized)) return true;
+  if (normalized.split(' ').length < SENTENCE_WORDS) return false;
+  // Aliases only apply to whole names, so sentences are checked word by word as well
+  const words = normalized.split(' ').map((word) => ALIASES[word] ?? word).join(' ');
+  return [...skills].some((skill) => containsPhrase(normalized, skill) || containsPhrase(words, skill));
+}
+
+/** Null when there is nothing to compare: the job lists no requirements or the candidate no skills. */
+export function matchSkills(skills: string[] | undefined, requirements: string[] | undefined): SkillMatch | null {
+  const wanted = (requirements ?? []).filter((requirement) => requirement.trim());
+  if (wanted.length === 0 || !skills || skills.length === 0) return null;
+
+  const have = new Set(skills.map(normalizeSkill).filter(Boolean));
+  const matched: string[] = [];
+  const missing: string[] = [];
+  for (const requirement of wanted) {
+    (requirementMet(requirement, have) ? matched : missing).push(requirement);
+  }
+  return { score: Math.round((matched.length / wanted.length) * 100), matched, missing };
+}
+
+export function matchTier(score: number): MatchTier {
+  if (score >= 75) return 'strong';
+  if (score >= 40) return 'partial';
+  return 'weak';
+}
+
+/** Best fit first; jobs that can't be scored keep their order after the scored ones. */
+export function sortByMatch<T extends { requirements?: string[] }>(jobs: T[], skills: string[] | undefined): T[] {
+  const scores = new Map(jobs.map((job) => [job, matchSkills(skills, job.requirements)?.score ?? -1]));
+  // Array.prototype.sort is stable, so ties stay newest first
+  return [...jobs].sort((a, b) => scores.get(b)! - scores.get(a)!);
+}
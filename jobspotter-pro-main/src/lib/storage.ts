@@ -0,0 +1,286 @@
+// src/lib/storage.ts
+// File uploads (resumes) behind a small adapter interface, so the UI doesn't care where
+// files end up. Two adapters ship: Supabase storage for real deployments and a local
+// stand-in that keeps files in this browser's IndexedDB for mock mode. Either way the
+// upload resolves to a reference string that is stored in resume_url:
+//   storage://<bucket>/<user id>/<timestamp>-<file name>   (Supabase)
+//   local-file://<id>/<file name>                          (local)
+// Resumes are personal data, so the Supabase bucket is private: the backend hands out a
+// signed URL for each upload and a short-lived signed URL each time a file is opened,
+// after checking the user may see it. References are never URLs anyone could reuse.
+// Old applications keep their pasted Drive/Dropbox links, which pass through unchanged.
+
+import { getResumeDownloadUrl, getResumeUploadUrl } from './api';
+import { getConfig, StorageProvider } from './config';
+import { ApiError } from './errors';
+
+export interface UploadOptions {
+  // Called with 0..1 as the upload advances
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface StorageAdapter {
+  provider: StorageProvider;
+  /** Stores the file under `path` and resolves to the reference to save in the record. */
+  upload(file: File, path: string, options?: UploadOptions): Promise<string>;
+  /** A URL the browser can open for a reference returned by upload(). */
+  resolveUrl(reference: string): Promise<string>;
+}
+
+// --- Resume rules ---
+
+export const MAX_RESUME_SIZE_BYTES = 5 * 1024 * 1024;
+
+const RESUME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+// For <input type="file" accept>
+export const RESUME_ACCEPT = [...Object.keys(RESUME_TYPES).map((ext) => `.${ext}`), ...Object.values(RESUME_TYPES)].join(',');
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${Number((bytes / (1024 * 1024)).toFixed(1))} MB`;
+}
+
+/** Returns why the file can't be used as a resume, or null when it's fine. */
+export function validateResumeFile(file: File): string | null {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  // Some browsers report an empty type for .docx, so the extension decides when type is missing
+  const typeOk = file.type ? Object.values(RESUME_TYPES).includes(file.type) : extension in RESUME_TYPES;
+  if (!typeOk || !(extension in RESUME_TYPES)) {
+    return 'Upload a PDF or Word (.docx) file.';
+  }
+  if (file.size === 0) {
+    return 'That file is empty.';
+  }
+  if (file.size > MAX_RESUME_SIZE_BYTES) {
+    return `Keep your resume under ${formatFileSize(MAX_RESUME_SIZE_BYTES)} (this one is ${formatFileSize(file.size)}).`;
+  }
+  return null;
+}
+
+// --- Supabase adapter ---
+
+const STORAGE_PREFIX = 'storage://';
+// A signed URL is used again while it has at least this long left
+const SIGNED_URL_MARGIN_MS = 30 * 1000;
+
+// Bucket and object path of a storage:// reference. Anything else, Supabase URLs included,
+// is a link the candidate pasted and opens as it is.
+function parseStorageReference(reference: string): { bucket: string; path: string } | null {
+  if (!reference.startsWith(STORAGE_PREFIX)) return null;
+  const [bucket, ...path] = reference.slice(STORAGE_PREFIX.length).split('/');
+  return bucket && path.length > 0 ? { bucket, path: path.join('/') } : null;
+}
+
+const signedUrls = new Map<string, { url: string; expiresAt: number }>();
+
+// supabase-js doesn't report upload progress, so the object is PUT to the signed URL with XHR.
+// The signed URL authorizes the write; the anon key only gets the request through the gateway.
+function createSupabaseStorageAdapter(): StorageAdapter {
+  return {
+    provider: 'supabase',
+    async upload(file, path, { onProgress, signal } = {}) {
+      const bucket = getConfig().resumeBucket;
+      // The backend picks the folder from the signed-in user; only the file name is ours
+      const { data: target, error } = await getResumeUploadUrl(path.split('/').pop() ?? file.name, file.type, { signal });
+      if (error || !target) throw error ?? new ApiError('Could not start the upload.');
+
+      return new Promise<string>((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        xhr.open('PUT', target.upload_url);
+        xhr.setRequestHeader('apikey', import.meta.env.VITE_SUPABASE_ANON_KEY);
+        xhr.setRequestHeader('Content-Type', file.type || 'application/octet-stream');
+        xhr.setRequestHeader('x-upsert', 'false');
+
+        xhr.upload.onprogress = (event) => {
+          if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+        };
+        xhr.onload = () => {
+          if (xhr.status >= 200 && xhr.status < 300) {
+            onProgress?.(1);
+            resolve(`${STORAGE_PREFIX}${bucket}/${target.path}`);
+            return;
+          }
+          let body: Record<string, unknown> = {};
+          try {
+            body = JSON.parse(xhr.responseText);
+          } catch {
+            // Not JSON; fall back to the status text
+          }
+          reject(ApiError.fromResponse(new Response(null, { status: xhr.status, statusText: xhr.statusText }), body));
+        };
+        xhr.onerror = () => reject(ApiError.from(new TypeError('Upload failed')));
+        xhr.onabort = () => reject(ApiError.aborted());
+
+        signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+        xhr.send(file);
+      });
+    },
+    async resolveUrl(reference) {
+      const cached = signedUrls.get(reference);
+      if (cached && cached.expiresAt - SIGNED_URL_MARGIN_MS > Date.now()) return cached.url;
+
+      const object = parseStorageReference(reference);
+      if (!object) throw new ApiError('This is not a stored file.', { code: 'not_found' });
+      const { data, error } = await getResumeDownloadUrl(object.bucket, object.path);
+      if (error || !data) throw error ?? new ApiError('Could not open the file.');
+      signedUrls.set(reference, { url: data.url, expiresAt: Date.now() + data.expires_in * 1000 });
+      return data.url;
+    },
+  };
+}
+
+// --- Local stand-in (IndexedDB) ---
+
+const LOCAL_PREFIX = 'local-file://';
+const LOCAL_DB_NAME = 'hirify_files';
+const LOCAL_STORE = 'files';
+
+interface LocalFileRecord {
+  id: string;
+  path: string;
+  name: string;
+  type: string;
+  size: number;
+  blob: Blob;
+}
+
+function openLocalDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(LOCAL_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(LOCAL_STORE, { keyPath: 'id' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withLocalStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openLocalDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(LOCAL_STORE, mode).objectStore(LOCAL_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Reading the file gives real progress events, which is as close to an upload as it gets locally
+function readWithProgress(file: File, { onProgress, signal }: UploadOptions): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+    };
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(new ApiError('Could not read the file.'));
+    reader.onabort = () => reject(ApiError.aborted());
+    signal?.addEventListener('abort', () => reader.abort(), { once: true });
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+const localIdFromReference = (reference: string) => reference.slice(LOCAL_PREFIX.length).split('/')[0];
+
+// Object URLs stay valid for the page's lifetime, so each file is only read once
+const localUrls = new Map<string, string>();
+
+function createLocalStorageAdapter(): StorageAdapter {
+  return {
+    provider: 'local',
+    async upload(file, path, options = {}) {
+      const contents = await readWithProgress(file, options);
+      const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+      const record: LocalFileRecord = {
+        id,
+        path,
+        name: file.name,
+        type: file.type,
+        size: file.size,
+        blob: new Blob([contents], { type: file.type }),
+      };
+      await withLocalStore('readwrite', (store) => store.put(record));
+      options.onProgress?.(1);
+      return `${LOCAL_PREFIX}${id}/${encodeURIComponent(file.name)}`;
+    },
+    async resolveUrl(reference) {
+      const id = localIdFromReference(reference);
+      const cached = localUrls.get(id);
+      if (cached) return cached;
+      const record = await withLocalStore<LocalFileRecord | undefined>('readonly', (store) => store.get(id));
+      if (!record) {
+        throw new ApiError('This file was uploaded in another browser and is not available here.', { code: 'not_found' });
+      }
+      const url = URL.createObjectURL(record.blob);
+      localUrls.set(id, url);
+      return url;
+    },
+  };
+}
+
+// --- Adapter selection ---
+
+const adapters: Record<StorageProvider, () => StorageAdapter> = {
+  supabase: createSupabaseStorageAdapter,
+  local: createLocalStorageAdapter,
+};
+
+let customAdapter: StorageAdapter | null = null;
+
+/** Replaces the configured adapter, e.g. with another provider. Pass null to go back to the config. */
+export function setStorageAdapter(adapter: StorageAdapter | null) {
+  customAdapter = adapter;
+}
+
+export function getStorageAdapter(): StorageAdapter {
+  if (customAdapter) return customAdapter;
+  const { storageProvider, useMockApi } = getConfig();
+  return adapters[storageProvider ?? (useMockApi ? 'local' : 'supabase')]();
+}
+
+// --- References ---
+
+export function isLocalFileReference(reference: string): boolean {
+  return reference.startsWith(LOCAL_PREFIX);
+}
+
+/** Whether the reference is a file in Supabase storage, which is opened through a signed URL. */
+export function isStoredFileReference(reference: string): boolean {
+  return parseStorageReference(reference) !== null;
+}
+
+/** Uploads a validated resume under resumes/<userId>/ and resolves to its reference. */
+export async function uploadResume(file: File, userId: string, options: UploadOptions = {}): Promise<string> {
+  const problem = validateResumeFile(file);
+  if (problem) throw ApiError.validation(problem, { resume_url: problem });
+  const safeName = file.name.replace(/[^\w.-]+/g, '-');
+  return getStorageAdapter().upload(file, `${userId}/${Date.now()}-${safeName}`, options);
+}
+
+/**
+ * A URL to open a resume: an object URL for local files, a short-lived signed URL for
+ * Supabase ones. Pasted links come back unchanged.
+ */
+export async function resolveFileUrl(reference: string): Promise<string> {
+  if (isLocalFileReference(reference)) return adapters.local().resolveUrl(reference);
+  if (isStoredFileReference(reference)) return adapters.supabase().resolveUrl(reference);
+  return reference;
+}
+
+/** The original file name for an uploaded file, or null for a pasted link. */
+export function fileNameFromReference(reference: string): string | null {
+  if (isLocalFileReference(reference)) {
+    return decodeURIComponent(reference.slice(LOCAL_PREFIX.length).split('/').slice(1).join('/')) || null;
+  }
+  // Supabase object names are "<timestamp>-<name>"
+  const object = parseStorageReference(reference);
+  const match = object?.path.match(/\/\d+-([^/?]+)$/);
+  return match ? match[1] : null;
+}
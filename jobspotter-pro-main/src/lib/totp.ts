@@ -0,0 +1,97 @@
+// src/lib/totp.ts
+// RFC 6238 time-based one-time passwords (the codes authenticator apps show).
+// The real check happens on the Flask server; the mock backend uses these helpers
+// so two-factor sign-in can be tried end to end with an actual authenticator app.
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(text: string): Uint8Array {
+  const clean = text.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character "${char}"`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/** A random 160-bit secret, base32 encoded as authenticator apps expect. */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+/** The otpauth:// URI that authenticator apps read from the enrollment QR code. */
+export function totpAuthUri(secret: string, account: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&digits=${DIGITS}&period=${STEP_SECONDS}`;
+}
+
+async function hotp(secret: string, counter: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+  const digest = new Uint8Array(await crypto.subtle.sign('HMAC', key, message.buffer));
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = digest[digest.length - 1] & 15;
+  const binary =
+    ((digest[offset] & 127) << 24) |
+    (digest[offset + 1] << 16) |
+    (digest[offset + 2] << 8) |
+    digest[offset + 3];
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+/** The code an authenticator app shows right now (or at `timeMs`). */
+export function generateTotp(secret: string, timeMs = Date.now()): Promise<string> {
+  return hotp(secret, Math.floor(timeMs / 1000 / STEP_SECONDS));
+}
+
+/**
+ * Checks a code against the current step and one step either side,
+ * to allow for clock drift and codes typed just as they roll over.
+ */
+export async function verifyTotp(secret: string, code: string, timeMs = Date.now()): Promise<boolean> {
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(normalized)) return false;
+  const counter = Math.floor(timeMs / 1000 / STEP_SECONDS);
+  for (const drift of [0, -1, 1]) {
+    if ((await hotp(secret, counter + drift)) === normalized) return true;
+  }
+  return false;
+}
@@ -0,0 +1,53 @@
+import { Header } from '@/components/Header';
+import { DataExportSettings } from '@/components/DataExportSettings';
+import { DeleteAccountSettings } from '@/components/DeleteAccountSettings';
+import { EmailSettings } from '@/components/EmailSettings';
+import { NotificationSettings } from '@/components/NotificationSettings';
+import { PasswordSettings } from '@/components/PasswordSettings';
+import { ProfileSettings } from '@/components/ProfileSettings';
+import { TwoFactorSettings } from '@/components/TwoFactorSettings';
+
+// Settings for the signed-in user (guarded by RequireAuth in App.tsx)
+export default function Account() {
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container max-w-3xl py-8">
+        <div className="mb-8">
+          <h1 className="font-display text-3xl font-bold text-foreground">
+            Account settings
+          </h1>
+          <p className="mt-2 text-muted-foreground">
+            Manage your profile, how you sign in and what we email you
+          </p>
+        </div>
+
+        <div className="space-y-10">
+          <section className="space-y-4">
+            <h2 className="font-display text-xl font-semibold text-foreground">Profile</h2>
+            <ProfileSettings />
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="font-display text-xl font-semibold text-foreground">Sign-in & security</h2>
+            <EmailSettings />
+            <PasswordSettings />
+            <TwoFactorSettings />
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="font-display text-xl font-semibold text-foreground">Notifications</h2>
+            <NotificationSettings />
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="font-display text-xl font-semibold text-foreground">Your data</h2>
+            <DataExportSettings />
+            <DeleteAccountSettings />
+          </section>
+        </div>
+      </main>
+    </div>
+  );
+}
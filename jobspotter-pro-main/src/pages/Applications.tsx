@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Header } from '@/components/Header';
 import { ApplicationCard } from '@/components/ApplicationCard';
 import { EditApplicationModal } from '@/components/EditApplicationModal';
@@ -6,14 +6,15 @@ import { Pagination } from '@/components/Pagination';
 import { LoadingCard } from '@/components/LoadingState';
 import { EmptyState } from '@/components/EmptyState';
 import { ErrorBanner } from '@/components/ErrorBanner';
-import { 
-  getMyApplications, 
-  updateApplication, 
-  withdrawApplication, 
-  Application 
-} from '@/lib/api';
-import { useAuth, useRequireAuth } from '@/hooks/useAuth';
+import { Application } from '@/lib/api';
+import {
+  useMyApplicationsQuery,
+  useUpdateApplicationMutation,
+  useWithdrawApplicationMutation,
+} from '@/hooks/use-api-queries';
 import { toast } from '@/hooks/use-toast';
+import { usePageParam } from '@/hooks/use-list-params';
+import { describeApiError } from '@/lib/errors';
 import { FileText } from 'lucide-react';
 import {
   AlertDialog,
@@ -31,53 +32,22 @@ import {
 const NON_EDITABLE_STATUSES = ['shortlisted', 'rejected', 'interview', 'selected'];
 
 export default function Applications() {
-  useRequireAuth('candidate');
-  const { role, loading: authLoading } = useAuth();
-  
-  const [applications, setApplications] = useState<Application[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [page, setPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
+  // ?page=N, so refresh and Back keep the place in the list
+  const [page, setPage] = usePageParam();
   
   // Edit modal
   const [selectedApplication, setSelectedApplication] = useState<Application | null>(null);
   const [editModalOpen, setEditModalOpen] = useState(false);
-  const [isSubmitting, setIsSubmitting] = useState(false);
   
   // Withdraw confirmation
   const [withdrawId, setWithdrawId] = useState<string | null>(null);
 
-  const fetchApplications = async () => {
-    if (authLoading || role !== 'candidate') return; // Stop unauthorized calls
-    setLoading(true);
-    setError(null);
-    
-    // NOTE: If you were fetching jobs, the search query would be passed here.
-    const { data, error } = await getMyApplications(page, 10);
-    
-    if (error) {
-      setError(error);
-    } else if (data) {
-      setApplications(data.applications || []);
-      setTotalPages(Math.ceil(data.total / data.page_size));
-    }else {
-        // Handle case where no error but data is null
-        setApplications([]);
-        setTotalPages(0);
-    }
-    
-    setLoading(false);
-  };
+  const { data, isPending: loading, error, refetch: refetchApplications } = useMyApplicationsQuery(page, 10);
+  const applications = data?.applications ?? [];
+  const totalPages = data ? Math.ceil(data.total / data.page_size) : 0;
 
-  // useEffect(() => {
-  //   fetchApplications();
-  // }, [page]);
-  useEffect(() => {
-    if (!authLoading && role === 'candidate') {
-      fetchApplications();
-    }
-  }, [page, role, authLoading]);
+  const updateApplicationMutation = useUpdateApplicationMutation();
+  const withdrawApplicationMutation = useWithdrawApplicationMutation();
 
   // 🔥 CRITICAL CHANGE: Check status before allowing edit
   const handleEdit = (application: Application) => {
@@ -95,50 +65,40 @@ export default function Applications() {
     setEditModalOpen(true);
   };
 
+  // Throws the ApiError on failure so EditApplicationModal can show it
   const handleUpdateApplication = async (resumeUrl: string, coverLetter?: string) => {
     if (!selectedApplication) return;
     
-    setIsSubmitting(true);
-    const { error } = await updateApplication(selectedApplication.id, {
-      resume_url: resumeUrl,
-      cover_letter: coverLetter,
-    });
-    setIsSubmitting(false);
-    
-    if (error) {
-      throw new Error(error);
-    }
+    await updateApplicationMutation.mutateAsync({ id: selectedApplication.id, resumeUrl, coverLetter });
     
     toast({
       title: 'Application updated',
       description: 'Your application has been updated successfully',
     });
-    // Close modal and refresh list
+    // Close modal; the list refreshes through query invalidation
     setEditModalOpen(false);
-    fetchApplications();
   };
 
-  const handleWithdraw = async () => {
+  const handleWithdraw = () => {
     if (!withdrawId) return;
     
     // Optional: Check status before withdrawing if you want to prevent withdrawing 'selected' or 'interview'
     // For now, we allow withdrawal for any status as per the original requirement.
     
-    const { error } = await withdrawApplication(withdrawId);
-    
-    if (error) {
-      toast({
-        title: 'Error',
-        description: error,
-        variant: 'destructive',
-      });
-    } else {
-      toast({
-        title: 'Application withdrawn',
-        description: 'Your application has been withdrawn',
-      });
-      fetchApplications();
-    }
+    withdrawApplicationMutation.mutate(withdrawId, {
+      onError: (error) => {
+        toast({
+          ...describeApiError(error),
+          variant: 'destructive',
+        });
+      },
+      onSuccess: () => {
+        toast({
+          title: 'Application withdrawn',
+          description: 'Your application has been withdrawn',
+        });
+      },
+    });
     
     setWithdrawId(null);
   };
@@ -159,7 +119,7 @@ export default function Applications() {
 
         {error && (
           <div className="mb-6">
-            <ErrorBanner message={error} onRetry={fetchApplications} />
+            <ErrorBanner error={error} onRetry={() => refetchApplications()} />
           </div>
         )}
 
@@ -219,7 +179,7 @@ export default function Applications() {
         isOpen={editModalOpen}
         onClose={() => setEditModalOpen(false)}
         onSubmit={handleUpdateApplication}
-        isSubmitting={isSubmitting}
+        isSubmitting={updateApplicationMutation.isPending}
       />
 
       <AlertDialog open={!!withdrawId} onOpenChange={() => setWithdrawId(null)}>
@@ -1,12 +1,22 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, Location, useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useAuth, UserRole } from '@/hooks/useAuth';
-import { Briefcase, Loader2, Mail, Lock, User, Building2 } from 'lucide-react';
+import { AuthLayout } from '@/components/AuthLayout';
+import { TwoFactorChallengeForm } from '@/components/TwoFactorChallengeForm';
+import { Loader2, Mail, Lock, User, Building2 } from 'lucide-react';
+
+interface AuthLocationState {
+  from?: Location;
+  // Shown above the form, e.g. after a password reset
+  message?: string;
+}
 
 export default function Auth() {
+  const location = useLocation();
+  const locationState = location.state as AuthLocationState | null;
   const [isLogin, setIsLogin] = useState(true);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -14,16 +24,22 @@ export default function Auth() {
   const [role, setRole] = useState<UserRole>('candidate');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-  const [message, setMessage] = useState('');
+  const [message, setMessage] = useState(locationState?.message ?? '');
+  // Set after a correct password on a two-factor account; switches the page to the code step
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<string | null>(null);
   
   const { signIn, signUp, user } = useAuth();
   const navigate = useNavigate();
 
+  // RequireAuth passes the page the visitor originally asked for; go back there after signing in
+  const from = locationState?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}${from.hash}` : '/jobs';
+
   useEffect(() => {
     if (user) {
-      navigate('/jobs');
+      navigate(redirectTo, { replace: true });
     }
-  }, [user, navigate]);
+  }, [user, navigate, redirectTo]);
 
 // Inside src/pages/Auth.tsx
 
@@ -36,14 +52,16 @@ const handleSubmit = async (e: React.FormEvent) => {
     try {
       if (isLogin) {
        // 🔥 FIX: Destructure the user and error from the signIn response
-        const { user: signedInUser, error: signInError } = await signIn(email, password);
+        const { user: signedInUser, error: signInError, twoFactorChallenge: challenge } = await signIn(email, password);
         if (signInError) {
-          setError(signInError); 
+          setError(signInError.message); 
+        } else if (challenge) {
+          setTwoFactorChallenge(challenge);
         } else if (signedInUser) {
           // If user object is returned (success), navigate to jobs page.
           // NOTE: The useEffect at the top of Auth.tsx should handle this navigation,
           // but explicitly navigating here ensures a smooth transition.
-          navigate('/jobs'); 
+          navigate(redirectTo, { replace: true }); 
         } else {
           // Should not happen if signIn is implemented correctly, but good for guardrails
           setError('Sign in failed. Please try again.');
@@ -81,13 +99,15 @@ const handleSubmit = async (e: React.FormEvent) => {
         // The signUp hook/function will need to be updated next.
         const { error: signUpError } = await signUp(email, password, role, firstName, lastName);
         if (signUpError) {
-          if (signUpError.includes('already registered')) {
+          if (signUpError.code === 'conflict' || signUpError.message.includes('already registered')) {
             setError('This email is already registered. Please sign in.');
+          } else if (signUpError.isNetworkError) {
+            setError('You appear to be offline. Check your connection and try again.');
           } else {
-            setError(signUpError);
+            setError(signUpError.message);
           }
         } else {
-          setMessage('Check your email to confirm your account!');
+          setMessage(`We sent a verification link to ${email}. You can sign in now, but you need to verify your email before applying to jobs.`);
         }
       }
     } catch (err) {
@@ -105,132 +125,56 @@ const handleSubmit = async (e: React.FormEvent) => {
     }
   };
 
+  if (twoFactorChallenge) {
+    return (
+      <AuthLayout>
+        <TwoFactorChallengeForm
+          challengeToken={twoFactorChallenge}
+          onSuccess={() => navigate(redirectTo, { replace: true })}
+          onCancel={() => {
+            setTwoFactorChallenge(null);
+            setPassword('');
+          }}
+        />
+      </AuthLayout>
+    );
+  }
+
   return (
-    <div className="flex min-h-screen">
-      {/* Left Side - Branding */}
-      <div className="hidden gradient-hero lg:flex lg:w-1/2 lg:flex-col lg:justify-center lg:p-12">
-        <div className="mx-auto max-w-md">
-          <div className="mb-8 flex items-center gap-3">
-            <div className="rounded-xl bg-primary-foreground/20 p-3">
-              <Briefcase className="h-8 w-8 text-primary-foreground" />
-            </div>
-            <span className="font-display text-3xl font-bold text-primary-foreground">
-              JobBoard
-            </span>
-          </div>
-          <h1 className="font-display text-4xl font-bold leading-tight text-primary-foreground">
-            Find your dream job or the perfect candidate
-          </h1>
-          <p className="mt-4 text-lg text-primary-foreground/80">
-            Connect with top companies and talented professionals. 
-            Your next opportunity is just a click away.
-          </p>
-          <div className="mt-8 grid grid-cols-2 gap-4">
-            <div className="rounded-lg bg-primary-foreground/10 p-4">
-              <p className="text-3xl font-bold text-primary-foreground">10k+</p>
-              <p className="text-sm text-primary-foreground/70">Active Jobs</p>
-            </div>
-            <div className="rounded-lg bg-primary-foreground/10 p-4">
-              <p className="text-3xl font-bold text-primary-foreground">5k+</p>
-              <p className="text-sm text-primary-foreground/70">Companies</p>
-            </div>
-          </div>
-        </div>
-      </div>
+    <AuthLayout>
+      <h2 className="font-display text-2xl font-bold text-foreground">
+        {isLogin ? 'Welcome back' : 'Create an account'}
+      </h2>
+      <p className="mt-2 text-muted-foreground">
+        {isLogin 
+          ? 'Enter your credentials to access your account' 
+          : 'Get started by creating your account'}
+      </p>
 
-      {/* Right Side - Auth Form */}
-      <div className="flex w-full flex-col justify-center p-8 lg:w-1/2">
-        <div className="mx-auto w-full max-w-md">
-          <div className="mb-8 lg:hidden">
-            <div className="flex items-center gap-2">
-              <div className="gradient-hero rounded-lg p-2">
-                <Briefcase className="h-5 w-5 text-primary-foreground" />
-              </div>
-              <span className="font-display text-xl font-bold text-foreground">JobBoard</span>
-            </div>
+      <form onSubmit={handleSubmit} className="mt-8 space-y-4">
+        {error && (
+          <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive">
+            {error}
           </div>
+        )}
+        {message && (
+          <div className="rounded-lg bg-success/10 p-3 text-sm text-success">
+            {message}
+          </div>
+        )}
 
-          <h2 className="font-display text-2xl font-bold text-foreground">
-            {isLogin ? 'Welcome back' : 'Create an account'}
-          </h2>
-          <p className="mt-2 text-muted-foreground">
-            {isLogin 
-              ? 'Enter your credentials to access your account' 
-              : 'Get started by creating your account'}
-          </p>
-
-          <form onSubmit={handleSubmit} className="mt-8 space-y-4">
-            {error && (
-              <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive">
-                {error}
-              </div>
-            )}
-            {message && (
-              <div className="rounded-lg bg-success/10 p-3 text-sm text-success">
-                {message}
-              </div>
-            )}
-
-            {!isLogin && (
-              <>
-                <div className="space-y-2">
-                  <Label htmlFor="name">Full Name</Label>
-                  <div className="relative">
-                    <User className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                    <Input
-                      id="name"
-                      type="text"
-                      placeholder="John Doe"
-                      value={name}
-                      onChange={(e) => setName(e.target.value)}
-                      className="pl-10"
-                      required
-                    />
-                  </div>
-                </div>
-
-                <div className="space-y-2">
-                  <Label>I am a</Label>
-                  <div className="grid grid-cols-2 gap-3">
-                    <button
-                      type="button"
-                      onClick={() => setRole('candidate')}
-                      className={`flex items-center justify-center gap-2 rounded-lg border-2 p-4 transition-all ${
-                        role === 'candidate'
-                          ? 'border-primary bg-primary/5 text-primary'
-                          : 'border-border text-muted-foreground hover:border-primary/50'
-                      }`}
-                    >
-                      <User className="h-5 w-5" />
-                      <span className="font-medium">Candidate</span>
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => setRole('recruiter')}
-                      className={`flex items-center justify-center gap-2 rounded-lg border-2 p-4 transition-all ${
-                        role === 'recruiter'
-                          ? 'border-primary bg-primary/5 text-primary'
-                          : 'border-border text-muted-foreground hover:border-primary/50'
-                      }`}
-                    >
-                      <Building2 className="h-5 w-5" />
-                      <span className="font-medium">Recruiter</span>
-                    </button>
-                  </div>
-                </div>
-              </>
-            )}
-
+        {!isLogin && (
+          <>
             <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
+              <Label htmlFor="name">Full Name</Label>
               <div className="relative">
-                <Mail className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <User className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
                 <Input
-                  id="email"
-                  type="email"
-                  placeholder="you@example.com"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
+                  id="name"
+                  type="text"
+                  placeholder="John Doe"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
                   className="pl-10"
                   required
                 />
@@ -238,50 +182,103 @@ const handleSubmit = async (e: React.FormEvent) => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="••••••••"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="pl-10"
-                  required
-                  minLength={6}
-                />
+              <Label>I am a</Label>
+              <div className="grid grid-cols-2 gap-3">
+                <button
+                  type="button"
+                  onClick={() => setRole('candidate')}
+                  className={`flex items-center justify-center gap-2 rounded-lg border-2 p-4 transition-all ${
+                    role === 'candidate'
+                      ? 'border-primary bg-primary/5 text-primary'
+                      : 'border-border text-muted-foreground hover:border-primary/50'
+                  }`}
+                >
+                  <User className="h-5 w-5" />
+                  <span className="font-medium">Candidate</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setRole('recruiter')}
+                  className={`flex items-center justify-center gap-2 rounded-lg border-2 p-4 transition-all ${
+                    role === 'recruiter'
+                      ? 'border-primary bg-primary/5 text-primary'
+                      : 'border-border text-muted-foreground hover:border-primary/50'
+                  }`}
+                >
+                  <Building2 className="h-5 w-5" />
+                  <span className="font-medium">Recruiter</span>
+                </button>
               </div>
             </div>
+          </>
+        )}
 
-            <Button type="submit" className="w-full" size="lg" disabled={loading}>
-              {loading ? (
-                <>
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                  {isLogin ? 'Signing in...' : 'Creating account...'}
-                </>
-              ) : (
-                isLogin ? 'Sign In' : 'Create Account'
-              )}
-            </Button>
-          </form>
+        <div className="space-y-2">
+          <Label htmlFor="email">Email</Label>
+          <div className="relative">
+            <Mail className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              id="email"
+              type="email"
+              placeholder="you@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="pl-10"
+              required
+            />
+          </div>
+        </div>
 
-          <p className="mt-6 text-center text-sm text-muted-foreground">
-            {isLogin ? "Don't have an account?" : 'Already have an account?'}{' '}
-            <button
-              type="button"
-              onClick={() => {
-                setIsLogin(!isLogin);
-                setError('');
-                setMessage('');
-              }}
-              className="font-medium text-primary hover:underline"
-            >
-              {isLogin ? 'Sign up' : 'Sign in'}
-            </button>
-          </p>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="password">Password</Label>
+            {isLogin && (
+              <Link to="/auth/forgot-password" className="text-sm font-medium text-primary hover:underline">
+                Forgot password?
+              </Link>
+            )}
+          </div>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              id="password"
+              type="password"
+              placeholder="••••••••"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="pl-10"
+              required
+              minLength={6}
+            />
+          </div>
         </div>
-      </div>
-    </div>
+
+        <Button type="submit" className="w-full" size="lg" disabled={loading}>
+          {loading ? (
+            <>
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {isLogin ? 'Signing in...' : 'Creating account...'}
+            </>
+          ) : (
+            isLogin ? 'Sign In' : 'Create Account'
+          )}
+        </Button>
+      </form>
+
+      <p className="mt-6 text-center text-sm text-muted-foreground">
+        {isLogin ? "Don't have an account?" : 'Already have an account?'}{' '}
+        <button
+          type="button"
+          onClick={() => {
+            setIsLogin(!isLogin);
+            setError('');
+            setMessage('');
+          }}
+          className="font-medium text-primary hover:underline"
+        >
+          {isLogin ? 'Sign up' : 'Sign in'}
+        </button>
+      </p>
+    </AuthLayout>
   );
 }
@@ -0,0 +1,36 @@
+import { Header } from '@/components/Header';
+import { CandidateProfileForm } from '@/components/CandidateProfileForm';
+import { ErrorBanner } from '@/components/ErrorBanner';
+import { LoadingState } from '@/components/LoadingState';
+import { useMyCandidateProfileQuery } from '@/hooks/use-api-queries';
+
+// The candidate's reusable profile: pre-fills applications and is shown to recruiters
+// (guarded by RequireAuth role="candidate" in App.tsx)
+export default function CandidateProfile() {
+  const { data: profile, isLoading, error, refetch } = useMyCandidateProfileQuery();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container max-w-3xl py-8">
+        <div className="mb-8">
+          <h1 className="font-display text-3xl font-bold text-foreground">
+            My Profile
+          </h1>
+          <p className="mt-2 text-muted-foreground">
+            Fill this in once and apply to jobs in one click. Recruiters see it with your applications.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <LoadingState message="Loading your profile..." />
+        ) : error ? (
+          <ErrorBanner error={error} onRetry={() => refetch()} />
+        ) : profile ? (
+          <CandidateProfileForm profile={profile} />
+        ) : null}
+      </main>
+    </div>
+  );
+}
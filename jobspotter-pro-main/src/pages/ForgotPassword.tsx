@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AuthLayout } from '@/components/AuthLayout';
+import { requestPasswordReset } from '@/lib/api';
+import { ArrowLeft, Loader2, Mail } from 'lucide-react';
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [sentTo, setSentTo] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    const { error: resetError } = await requestPasswordReset(email.trim());
+    setLoading(false);
+
+    if (resetError) {
+      if (resetError.isNetworkError) {
+        setError('You appear to be offline. Check your connection and try again.');
+      } else {
+        setError(resetError.fieldErrors.email || resetError.message);
+      }
+      return;
+    }
+    setSentTo(email.trim());
+  };
+
+  return (
+    <AuthLayout>
+      <h2 className="font-display text-2xl font-bold text-foreground">Reset your password</h2>
+      <p className="mt-2 text-muted-foreground">
+        Enter the email you signed up with and we'll send you a link to choose a new password.
+      </p>
+
+      {sentTo ? (
+        <div className="mt-8 rounded-lg bg-success/10 p-3 text-sm text-success">
+          If an account exists for {sentTo}, a reset link is on its way. Check your inbox and spam folder.
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="mt-8 space-y-4">
+          {error && (
+            <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <div className="relative">
+              <Mail className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                id="email"
+                type="email"
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="pl-10"
+                required
+              />
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full" size="lg" disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Sending link...
+              </>
+            ) : (
+              'Send reset link'
+            )}
+          </Button>
+        </form>
+      )}
+
+      <p className="mt-6 text-center text-sm text-muted-foreground">
+        <Link to="/auth" className="inline-flex items-center gap-1 font-medium text-primary hover:underline">
+          <ArrowLeft className="h-4 w-4" />
+          Back to sign in
+        </Link>
+      </p>
+    </AuthLayout>
+  );
+}
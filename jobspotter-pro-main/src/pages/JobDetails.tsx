@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { Header } from '@/components/Header';
 import { ApplyModal } from '@/components/ApplyModal';
@@ -7,9 +7,14 @@ import { ErrorBanner } from '@/components/ErrorBanner';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'; // Import Alert components
-import { getJob, saveJob, applyJob, Job } from '@/lib/api';
+import { SkillMatchBadge } from '@/components/SkillMatchBadge';
+import { useApplyMutation, useJobQuery, useMyCandidateProfileQuery, useSaveJobMutation } from '@/hooks/use-api-queries';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
+import { useDisplayCurrency } from '@/hooks/use-display-currency';
+import { useJobMatch } from '@/hooks/use-skill-match';
+import { ApiError, describeApiError } from '@/lib/errors';
+import { formatSalary } from '@/lib/salary';
 import { 
   ArrowLeft, 
   MapPin, 
@@ -19,7 +24,8 @@ import {
   Bookmark,
   Share2,
   CheckCircle2,
-  AlertCircle
+  AlertCircle,
+  XCircle
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { useApplicationStatus } from '@/hooks/use-application-status';
@@ -64,46 +70,27 @@ const ApplicationStatusAlert: React.FC<{ status: string }> = ({ status }) => {
 export default function JobDetails() {
   const { id } = useParams<{ id: string }>();
   const { user, isCandidate } = useAuth();
-  const [job, setJob] = useState<Job | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [applyModalOpen, setApplyModalOpen] = useState(false);
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  
-  // 🔥 Use hook for application status
-  const { status, isApplied, isLoading, error: statusError, refetch: refetchStatus } = useApplicationStatus(id);
 
-  const fetchJob = async () => {
-    if (!id) {
-        setError("Job ID is missing.");
-        setLoading(false);
-        return;
-    }
-    
-    setLoading(true);
-    setError(null);
-    
-    // The getJob function now returns the clean Job object directly (or null/error)
-    const { data, error } = await getJob(id); 
-    
-    if (error) {
-      setError(error);
-    } else if (data) { // Ensure data exists before setting
-      setJob(data);
-    } else {
-      // Handles case where error is null but data is null (e.g., 404 handled by API wrapper)
-      setError("Job not found.");
-    }
-    
-    setLoading(false);
-  };
+  const { data: job, isLoading: loading, error: jobError, refetch: refetchJob } = useJobQuery(id);
+  const error = id ? jobError : new ApiError("Job ID is missing.", { code: 'not_found' });
+
+  const { displayCurrency } = useDisplayCurrency();
+  const salary = formatSalary(job?.salary, { displayCurrency });
+  const postedSalary = formatSalary(job?.salary);
+
+  // Requirements are marked against the candidate's profile skills
+  const match = useJobMatch(job);
+  const { data: candidateProfile } = useMyCandidateProfileQuery({ enabled: isCandidate });
+  const missingSkills = new Set(match?.missing ?? []);
+  
+  // 🔥 Use hook for application status (refreshed automatically after applying)
+  const { status, isApplied, isLoading } = useApplicationStatus(id);
 
-  useEffect(() => {
-    fetchJob();
-    // Since we use the refetch function from the hook, we don't need to manually call it here
-  }, [id]);
+  const saveJobMutation = useSaveJobMutation();
+  const applyMutation = useApplyMutation();
 
-  const handleSaveJob = async () => {
+  const handleSaveJob = () => {
     if (!job) return;
     
     if (!user) {
@@ -115,32 +102,28 @@ export default function JobDetails() {
       return;
     }
 
-    const { error } = await saveJob(job.id);
-    if (error) {
-      toast({
-        title: 'Error',
-        description: error,
-        variant: 'destructive',
-      });
-    } else {
-      toast({
-        title: 'Job saved',
-        description: 'Job has been added to your saved list',
-      });
-    }
+    saveJobMutation.mutate(job.id, {
+      onError: (error) => {
+        toast({
+          ...describeApiError(error),
+          variant: 'destructive',
+        });
+      },
+      onSuccess: () => {
+        toast({
+          title: 'Job saved',
+          description: 'Job has been added to your saved list',
+        });
+      },
+    });
   };
   
-  // 🔥 Update handleSubmitApplication to refetch status
+  // Throws the ApiError on failure so ApplyModal can show it. The mutation invalidates
+  // applications, which refreshes the status shown on this page and in My Applications.
   const handleSubmitApplication = async (resumeUrl: string, coverLetter?: string) => {
     if (!job) return;
     
-    setIsSubmitting(true);
-    const { error } = await applyJob(job.id, resumeUrl, coverLetter);
-    setIsSubmitting(false);
-    
-    if (error) {
-      throw new Error(error);
-    }
+    await applyMutation.mutateAsync({ jobId: job.id, resumeUrl, coverLetter });
     
     toast({
       title: 'Application submitted',
@@ -148,11 +131,6 @@ export default function JobDetails() {
     });
     
     setApplyModalOpen(false);
-    // 🔥 CRITICAL: Refresh the application status after successful application
-    // We use refetch provided by the custom hook.
-    // If the hook doesn't provide refetch, setting the page state to trigger a re-render is an alternative.
-    // Assuming useApplicationStatus has a refetch capability or state changes trigger a re-run.
-    refetchStatus(); 
   };
   
   const handleApplyClick = () => {
@@ -184,12 +162,6 @@ export default function JobDetails() {
     setApplyModalOpen(true);
   };
 
-  const formatSalary = (min?: number, max?: number) => {
-    if (!min && !max) return null;
-    if (min && max) return `$${(min / 1000).toFixed(0)}k - $${(max / 1000).toFixed(0)}k`;
-    if (min) return `From $${(min / 1000).toFixed(0)}k`;
-    if (max) return `Up to $${(max / 1000).toFixed(0)}k`;
-  };
 
   const handleShare = async () => {
     try {
@@ -222,7 +194,7 @@ export default function JobDetails() {
 
         {error && (
           <div className="mb-6">
-            <ErrorBanner message={error} onRetry={fetchJob} />
+            <ErrorBanner error={error} onRetry={() => refetchJob()} />
           </div>
         )}
 
@@ -251,10 +223,13 @@ export default function JobDetails() {
                     <MapPin className="h-5 w-5" />
                     {job.location}
                   </span>
-                  {formatSalary(job.salary_min, job.salary_max) && (
+                  {salary && (
                     <span className="flex items-center gap-2 text-success">
                       {/* <DollarSign className="h-5 w-5" /> */}
-                      {formatSalary(job.salary_min, job.salary_max)}
+                      {salary}
+                      {salary !== postedSalary && (
+                        <span className="text-xs text-muted-foreground">(posted as {postedSalary})</span>
+                      )}
                     </span>
                   )}
                 </div>
@@ -275,13 +250,31 @@ export default function JobDetails() {
 
                 {job.requirements && job.requirements.length > 0 && (
                   <div className="mt-8 border-t border-border pt-8">
-                    <h2 className="font-display text-xl font-semibold text-foreground">
-                      Requirements
-                    </h2>
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <h2 className="font-display text-xl font-semibold text-foreground">
+                        Requirements
+                      </h2>
+                      <SkillMatchBadge match={match} />
+                    </div>
+                    {match ? (
+                      <p className="mt-2 text-sm text-muted-foreground">
+                        You have {match.matched.length} of {job.requirements.length} required skills
+                        {match.missing.length > 0 && '. Missing skills are marked below.'}
+                      </p>
+                    ) : isCandidate && candidateProfile && (
+                      <p className="mt-2 text-sm text-muted-foreground">
+                        <Link to="/profile" className="text-primary hover:underline">Add skills to your profile</Link>
+                        {' '}to see how well you match this job.
+                      </p>
+                    )}
                     <ul className="mt-4 space-y-2">
                       {job.requirements.map((req, index) => (
                         <li key={index} className="flex items-start gap-2 text-muted-foreground">
-                          <CheckCircle2 className="h-5 w-5 text-success shrink-0 mt-0.5" />
+                          {missingSkills.has(req) ? (
+                            <XCircle className="h-5 w-5 text-muted-foreground/60 shrink-0 mt-0.5" aria-label="Missing" />
+                          ) : (
+                            <CheckCircle2 className="h-5 w-5 text-success shrink-0 mt-0.5" />
+                          )}
                           {req}
                         </li>
                       ))}
@@ -396,11 +389,11 @@ export default function JobDetails() {
       </main>
 
       <ApplyModal
-        job={job}
+        job={job ?? null}
         isOpen={applyModalOpen}
         onClose={() => setApplyModalOpen(false)}
         onSubmit={handleSubmitApplication}
-        isSubmitting={isSubmitting}
+        isSubmitting={applyMutation.isPending}
       />
     </div>
   );
@@ -1,68 +1,127 @@
-import { useState, useEffect } from 'react';
+import { useMemo, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { BackToTopButton } from '@/components/BackToTopButton';
 import { Header } from '@/components/Header';
 import { JobCard } from '@/components/JobCard';
+import { JobTable } from '@/components/JobTable';
+import { LoadMoreFooter } from '@/components/LoadMoreFooter';
 import { Pagination } from '@/components/Pagination';
 import { ApplyModal } from '@/components/ApplyModal';
 import { LoadingCard, LoadingState } from '@/components/LoadingState';
 import { EmptyState } from '@/components/EmptyState';
 import { ErrorBanner } from '@/components/ErrorBanner';
-// NOTE: getJobs now returns BackendJobResponse structure
-import { getJobs, saveJob, getSavedJobs, applyJob, Job, SavedJob } from '@/lib/api';
+import { JobFiltersPanel } from '@/components/JobFiltersPanel';
+import { JobSearchBox } from '@/components/JobSearchBox';
+import { SavedSearchDialog } from '@/components/SavedSearchDialog';
+import { VirtualJobGrid } from '@/components/VirtualJobGrid';
+import { Job, JobOrder, JobSort } from '@/lib/api';
+import {
+  useApplyMutation,
+  useInfiniteJobsQuery,
+  useJobsQuery,
+  useSaveJobMutation,
+  useSavedJobsQuery,
+} from '@/hooks/use-api-queries';
 import { useAuth } from '@/hooks/useAuth';
+import { useCandidateSkills } from '@/hooks/use-skill-match';
+import { useJobListParams } from '@/hooks/use-list-params';
+import { JobListMode, useJobListMode } from '@/hooks/use-job-list-mode';
+import { JobViewMode, useJobViewMode } from '@/hooks/use-job-view-mode';
+import { useCurrentPosition } from '@/hooks/use-current-position';
+import { useDisplayCurrency } from '@/hooks/use-display-currency';
 import { toast } from '@/hooks/use-toast';
-import { Briefcase, Search } from 'lucide-react';
-import { Input } from '@/components/ui/input';
+import { describeApiError } from '@/lib/errors';
+import { countActiveFilters } from '@/lib/jobFilters';
+import { JOB_SORT_OPTIONS, sortJobs } from '@/lib/jobSort';
+import { BellPlus, Briefcase, LayoutGrid, ListEnd, ListOrdered, MapPinOff, SlidersHorizontal, Table2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+
+const PAGE_SIZE = 9;
 
 export default function Jobs() {
   const { user, isCandidate } = useAuth();
-  const [jobs, setJobs] = useState<Job[]>([]);
-  const [savedJobs, setSavedJobs] = useState<SavedJob[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [page, setPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
-  const [searchQuery, setSearchQuery] = useState('');
-  
+  // Search text, filters, sort and page live in the URL (use-list-params)
+  const { filters, sort: sortBy, page, setFilters: updateFilters, setSort: setSortBy, setPage } = useJobListParams();
+  const searchQuery = filters.search ?? '';
+  const activeFilterCount = countActiveFilters(filters);
+  const location = useLocation();
+
+  // Numbered pages or one list that loads more as you scroll (use-job-list-mode)
+  const [listMode, setListMode] = useJobListMode();
+  const infinite = listMode === 'infinite';
+  // Cards or a compact table (use-job-view-mode)
+  const [viewMode, setViewMode] = useJobViewMode();
+
   // Apply modal
   const [selectedJob, setSelectedJob] = useState<Job | null>(null);
   const [applyModalOpen, setApplyModalOpen] = useState(false);
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [saveSearchOpen, setSaveSearchOpen] = useState(false);
 
-  const fetchJobs = async () => {
-    setLoading(true);
-    setError(null);
-    
-// 🔥 FIX 1: Pass searchQuery to the API function
-    const { data, error } = await getJobs(page, 9, searchQuery);
-    
-    if (error) {
-      setError(error);
-    } else if (data) {
-      // 🔥 FIX: The data payload is stored in the 'jobs' property from the backend
-      setJobs(data.jobs); 
-      setTotalPages(Math.ceil(data.total / data.page_size));
-    }
-    
-    setLoading(false);
-  };
+  // "Best match" needs profile skills and "Closest" the browser's location; until then
+  // the list stays newest first
+  const skills = useCandidateSkills();
+  const canSortByMatch = skills.length > 0;
+  const { data: position, error: positionError } = useCurrentPosition({ enabled: sortBy === 'closest' });
+  const appliedSort: JobSort =
+    (sortBy === 'match' && !canSortByMatch) || (sortBy === 'closest' && !position) ? 'newest' : sortBy;
+  const order: JobOrder = appliedSort === 'closest' ? { sort: appliedSort, near: position } : { sort: appliedSort };
+  const sortOptions = JOB_SORT_OPTIONS.filter((option) => option.value !== 'match' || canSortByMatch);
 
-  const fetchSavedJobs = async () => {
-    if (!user || !isCandidate) return;
-    
-    const { data } = await getSavedJobs(1, 100);
-    if (data) {
-      // NOTE: This assumes getSavedJobs still returns data.data (PaginatedResponse)
-      setSavedJobs(data.saved_jobs);
-    }
+  // 🔥 FIX 1: the filters are part of the query key, so each search is cached separately
+  // and a stale response can never overwrite a newer one
+  const pagedQuery = useJobsQuery({
+    page,
+    pageSize: PAGE_SIZE,
+    filters,
+    order,
+  }, { enabled: !infinite });
+  const infiniteQuery = useInfiniteJobsQuery({ pageSize: PAGE_SIZE, filters, order }, { enabled: infinite });
+  const { isLoading: loading, refetch: refetchJobs } = infinite ? infiniteQuery : pagedQuery;
+  // A failed "load more" is offered again at the end of the list rather than above it
+  const error = infinite ? (infiniteQuery.isFetchNextPageError ? null : infiniteQuery.error) : pagedQuery.error;
+  // Total and facets describe the whole result, so any loaded page will do
+  const jobsData = infinite ? infiniteQuery.data?.pages[0] : pagedQuery.data;
+  const totalPages = jobsData ? Math.ceil(jobsData.total / jobsData.page_size) : 1;
+
+  // The backend sorts the whole listing and echoes the order. A Flask build without sorting
+  // leaves it to us: only the loaded pages can be reordered, each on its own, so rows already
+  // on screen don't move when the next page arrives
+  const displayedJobs = useMemo(() => {
+    const pages = (infinite ? infiniteQuery.data?.pages : pagedQuery.data && [pagedQuery.data]) ?? [];
+    return pages.flatMap((loaded) =>
+      loaded.sort === appliedSort ? loaded.jobs : sortJobs(loaded.jobs, appliedSort, { skills, near: position })
+    );
+  }, [infinite, infiniteQuery.data, pagedQuery.data, appliedSort, skills, position]);
+
+  const handleListModeChange = (mode: JobListMode) => {
+    setListMode(mode);
+    // The scrolling list always starts from the first page
+    if (mode === 'infinite' && page > 1) setPage(1);
   };
 
- // 2. 🔥 FIX 2: Trigger fetchJobs when searchQuery changes, and reset page to 1
-useEffect(() => {
-    fetchJobs();
-    fetchSavedJobs();
-}, [page, user, searchQuery]); // Add searchQuery as a dependency
+  const { data: savedJobsData } = useSavedJobsQuery(1, 100, { enabled: !!user && isCandidate });
+  const savedJobs = savedJobsData?.saved_jobs ?? [];
+
+  // INR is what most listings are posted in, so the salary filter starts there
+  const { displayCurrency } = useDisplayCurrency();
+
+  const renderFiltersPanel = (idPrefix: string) => (
+    <JobFiltersPanel
+      filters={filters}
+      facets={jobsData?.facets}
+      currency={displayCurrency ?? 'INR'}
+      onChange={updateFilters}
+      idPrefix={idPrefix}
+    />
+  );
+
+  const saveJobMutation = useSaveJobMutation();
+  const applyMutation = useApplyMutation();
 
-  const handleSaveJob = async (jobId: string) => {
+  const handleSaveJob = (jobId: string) => {
     if (!user) {
       toast({
         title: 'Sign in required',
@@ -72,20 +131,20 @@ useEffect(() => {
       return;
     }
 
-    const { error } = await saveJob(jobId);
-    if (error) {
-      toast({
-        title: 'Error',
-        description: error,
-        variant: 'destructive',
-      });
-    } else {
-      toast({
-        title: 'Job saved',
-        description: 'Job has been added to your saved list',
-      });
-      fetchSavedJobs();
-    }
+    saveJobMutation.mutate(jobId, {
+      onError: (error) => {
+        toast({
+          ...describeApiError(error),
+          variant: 'destructive',
+        });
+      },
+      onSuccess: () => {
+        toast({
+          title: 'Job saved',
+          description: 'Job has been added to your saved list',
+        });
+      },
+    });
   };
 
   const handleApply = (job: Job) => {
@@ -101,16 +160,11 @@ useEffect(() => {
     setApplyModalOpen(true);
   };
 
+  // Throws the ApiError on failure so ApplyModal can show it
   const handleSubmitApplication = async (resumeUrl: string, coverLetter?: string) => {
     if (!selectedJob) return;
     
-    setIsSubmitting(true);
-    const { error } = await applyJob(selectedJob.id, resumeUrl, coverLetter);
-    setIsSubmitting(false);
-    
-    if (error) {
-      throw new Error(error);
-    }
+    await applyMutation.mutateAsync({ jobId: selectedJob.id, resumeUrl, coverLetter });
     
     toast({
       title: 'Application submitted',
@@ -125,6 +179,16 @@ useEffect(() => {
     return savedJobs.some(saved => saved.job_id === jobId);
   };
 
+  const renderJob = (job: Job) => (
+    <JobCard
+      job={job}
+      highlight={searchQuery}
+      isSaved={isJobSaved(job.id)}
+      onSave={isCandidate ? handleSaveJob : undefined}
+      onApply={isCandidate ? handleApply : undefined}
+    />
+  );
+
   // const filteredJobs = jobs.filter(job => 
   //   job.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
   //   job.company.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -147,67 +211,198 @@ useEffect(() => {
         </div>
 
         {/* Search */}
-        <div className="mb-8 flex justify-center">
-          <div className="relative w-full max-w-xl">
-            <Search className="absolute left-4 top-1/2 h-5 w-5 -translate-y-1/2 text-muted-foreground" />
-            <Input
-              type="text"
-              placeholder="Search by title, company, or location..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="h-12 pl-12 text-base"
-            />
+        <div className="mb-8 flex flex-col items-center justify-center gap-3 sm:flex-row">
+          <JobSearchBox
+            value={searchQuery}
+            onSearch={(search) => updateFilters({ ...filters, search: search || undefined })}
+            className="w-full max-w-xl"
+          />
+          <div className="flex w-full gap-3 sm:w-auto">
+            {/* The sidebar collapses into a sheet on small screens */}
+            <Sheet>
+              <SheetTrigger asChild>
+                <Button variant="outline" className="h-12 flex-1 lg:hidden">
+                  <SlidersHorizontal className="h-4 w-4" />
+                  Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}
+                </Button>
+              </SheetTrigger>
+              <SheetContent side="left" className="w-full overflow-y-auto sm:max-w-sm">
+                <SheetHeader className="sr-only">
+                  <SheetTitle>Filters</SheetTitle>
+                </SheetHeader>
+                {renderFiltersPanel('filters-sheet')}
+              </SheetContent>
+            </Sheet>
+            <Select
+              value={sortOptions.some((option) => option.value === sortBy) ? sortBy : 'newest'}
+              onValueChange={(value) => setSortBy(value as JobSort)}
+            >
+              <SelectTrigger className="h-12 flex-1 sm:w-[180px]" aria-label="Sort jobs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sortOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isCandidate && (
+              <Button
+                variant="outline"
+                className="h-12 flex-1 sm:flex-none"
+                onClick={() => setSaveSearchOpen(true)}
+                disabled={!searchQuery && activeFilterCount === 0}
+                title={!searchQuery && activeFilterCount === 0 ? 'Search or pick a filter first' : 'Get alerted about new jobs for this search'}
+              >
+                <BellPlus className="h-4 w-4" />
+                Save search
+              </Button>
+            )}
           </div>
         </div>
 
-        {error && (
-          <div className="mb-6">
-            <ErrorBanner message={error} onRetry={fetchJobs} />
-          </div>
-        )}
-
-        {loading ? (
-          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {[...Array(6)].map((_, i) => (
-              <LoadingCard key={i} />
-            ))}
-          </div>
-        ) : jobs.length === 0 ? (
-          <EmptyState
-            icon={Briefcase}
-            title="No jobs found"
-            description={searchQuery 
-              ? "Try adjusting your search terms" 
-              : "There are no job listings available at the moment"}
-          />
-        ) : (
-          <>
-            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-              {jobs.map((job, index) => (
-                <div
-                  key={job.id}
-                  className="animate-fade-in"
-                  style={{ animationDelay: `${index * 50}ms` }}
-                >
-                  <JobCard
-                    job={job}
-                    isSaved={isJobSaved(job.id)}
-                    onSave={isCandidate ? handleSaveJob : undefined}
-                    onApply={isCandidate ? handleApply : undefined}
-                  />
-                </div>
-              ))}
+        <div className="grid gap-8 lg:grid-cols-[260px_1fr]">
+          <aside className="hidden lg:block">
+            <div className="sticky top-24 rounded-xl border border-border bg-card p-5 shadow-card">
+              {renderFiltersPanel('filters-sidebar')}
             </div>
+          </aside>
+
+          <div className="min-w-0">
+            {error && (
+              <div className="mb-6">
+                <ErrorBanner error={error} onRetry={() => refetchJobs()} />
+              </div>
+            )}
 
-            <div className="mt-8">
-              <Pagination
-                currentPage={page}
-                totalPages={totalPages}
-                onPageChange={setPage}
+            {loading ? (
+              <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
+                {[...Array(6)].map((_, i) => (
+                  <LoadingCard key={i} />
+                ))}
+              </div>
+            ) : displayedJobs.length === 0 ? (
+              <EmptyState
+                icon={Briefcase}
+                title="No jobs found"
+                description={searchQuery || activeFilterCount > 0
+                  ? "Try adjusting your search terms or filters"
+                  : "There are no job listings available at the moment"}
+                actionLabel={activeFilterCount > 0 ? 'Clear filters' : undefined}
+                onAction={() => updateFilters({ search: filters.search })}
               />
-            </div>
-          </>
-        )}
+            ) : (
+              <>
+                <div className="mb-4 flex items-center justify-between gap-4">
+                  <p className="text-sm text-muted-foreground">
+                    {jobsData.total} {jobsData.total === 1 ? 'job' : 'jobs'} found
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <ToggleGroup
+                      type="single"
+                      size="sm"
+                      variant="outline"
+                      value={viewMode}
+                      onValueChange={(value) => value && setViewMode(value as JobViewMode)}
+                      aria-label="Show jobs as"
+                    >
+                      <ToggleGroupItem value="grid" aria-label="Cards" title="Cards">
+                        <LayoutGrid className="h-4 w-4" />
+                      </ToggleGroupItem>
+                      <ToggleGroupItem value="table" aria-label="Table" title="Table">
+                        <Table2 className="h-4 w-4" />
+                      </ToggleGroupItem>
+                    </ToggleGroup>
+                    <ToggleGroup
+                      type="single"
+                      size="sm"
+                      variant="outline"
+                      value={listMode}
+                      onValueChange={(value) => value && handleListModeChange(value as JobListMode)}
+                      aria-label="How to show more jobs"
+                    >
+                      <ToggleGroupItem value="paged" aria-label="Pages" title="Pages">
+                        <ListOrdered className="h-4 w-4" />
+                      </ToggleGroupItem>
+                      <ToggleGroupItem value="infinite" aria-label="Continuous scroll" title="Continuous scroll">
+                        <ListEnd className="h-4 w-4" />
+                      </ToggleGroupItem>
+                    </ToggleGroup>
+                  </div>
+                </div>
+                {sortBy === 'closest' && positionError && (
+                  <p className="mb-4 flex items-center gap-2 text-sm text-muted-foreground">
+                    <MapPinOff className="h-4 w-4 shrink-0" />
+                    {positionError.message} Showing newest first.
+                  </p>
+                )}
+
+                {viewMode === 'table' ? (
+                  <>
+                    <JobTable
+                      jobs={displayedJobs}
+                      restoreKey={infinite ? location.key : undefined}
+                      highlight={searchQuery}
+                      isJobSaved={isJobSaved}
+                      onSave={isCandidate ? handleSaveJob : undefined}
+                      onApply={isCandidate ? handleApply : undefined}
+                    />
+                    {infinite ? (
+                      <>
+                        <LoadMoreFooter
+                          hasNextPage={infiniteQuery.hasNextPage}
+                          isFetchingNextPage={infiniteQuery.isFetchingNextPage}
+                          loadMoreFailed={infiniteQuery.isFetchNextPageError}
+                          fetchNextPage={() => infiniteQuery.fetchNextPage()}
+                          itemCount={displayedJobs.length}
+                        />
+                        <BackToTopButton />
+                      </>
+                    ) : (
+                      <div className="mt-8">
+                        <Pagination currentPage={page} totalPages={totalPages} onPageChange={setPage} />
+                      </div>
+                    )}
+                  </>
+                ) : infinite ? (
+                  <VirtualJobGrid
+                    jobs={displayedJobs}
+                    renderJob={renderJob}
+                    hasNextPage={infiniteQuery.hasNextPage}
+                    isFetchingNextPage={infiniteQuery.isFetchingNextPage}
+                    loadMoreFailed={infiniteQuery.isFetchNextPageError}
+                    fetchNextPage={() => infiniteQuery.fetchNextPage()}
+                    restoreKey={location.key}
+                  />
+                ) : (
+                  <>
+                    <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
+                      {displayedJobs.map((job, index) => (
+                        <div
+                          key={job.id}
+                          className="animate-fade-in"
+                          style={{ animationDelay: `${index * 50}ms` }}
+                        >
+                          {renderJob(job)}
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="mt-8">
+                      <Pagination
+                        currentPage={page}
+                        totalPages={totalPages}
+                        onPageChange={setPage}
+                      />
+                    </div>
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        </div>
       </main>
 
       <ApplyModal
@@ -215,8 +410,10 @@ useEffect(() => {
         isOpen={applyModalOpen}
         onClose={() => setApplyModalOpen(false)}
         onSubmit={handleSubmitApplication}
-        isSubmitting={isSubmitting}
+        isSubmitting={applyMutation.isPending}
       />
+
+      <SavedSearchDialog isOpen={saveSearchOpen} filters={filters} onClose={() => setSaveSearchOpen(false)} />
     </div>
   );
 }
\ No newline at end of file
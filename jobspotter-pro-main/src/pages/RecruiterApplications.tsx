@@ -1,34 +1,27 @@
-import { useState, useEffect } from 'react';
 import { Header } from '@/components/Header';
 import { ApplicationCard } from '@/components/ApplicationCard';
 import { Pagination } from '@/components/Pagination';
 import { LoadingCard } from '@/components/LoadingState';
 import { EmptyState } from '@/components/EmptyState';
 import { ErrorBanner } from '@/components/ErrorBanner';
-import { 
-  getRecruiterApplications, 
-  updateApplicationStatus, 
-  Application 
-} from '@/lib/api';
-import { useRequireAuth } from '@/hooks/useAuth';
+import {
+  useCandidateProfilesQuery,
+  useRecruiterApplicationsQuery,
+  useUpdateApplicationStatusMutation,
+} from '@/hooks/use-api-queries';
 import { toast } from '@/hooks/use-toast';
+import { usePageParam } from '@/hooks/use-list-params';
+import { describeApiError } from '@/lib/errors';
 import { FileText } from 'lucide-react';
 // 🔥 ADD: Import useParams to read the job ID from the URL
 import { useParams } from 'react-router-dom';
-import { useAuth } from '@/hooks/useAuth'; // 🔥 Add this import if not there
 
 export default function RecruiterApplications() {
-  useRequireAuth('recruiter');
-  
-  const [applications, setApplications] = useState<Application[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [page, setPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
+  // ?page=N, so refresh and Back keep the place in the list
+  const [page, setPage] = usePageParam();
   // 🔥 ADD: Get the jobId from the route parameters
   // Assuming your route is /recruiter/applications/:jobId. It can be undefined if you hit /recruiter/applications directly.
   const { jobId } = useParams<{ jobId: string }>();
-  const { role, loading: authLoading } = useAuth(); // 🔥 Get auth state
 
   // --- New Helper Variables for Empty State ---
   // Check if the user is currently viewing a specific job's applicants
@@ -43,57 +36,35 @@ export default function RecruiterApplications() {
     : 'You have not yet received any applications for any of your job listings.'; // Description when viewing all
 
 
-  const fetchApplications = async () => {
-    // 🛑 STOP: If auth is still loading or user isn't a recruiter, don't call the API
-    if (authLoading || role !== 'recruiter') {
-      return;
-    }
-    setLoading(true);
-    setError(null);
-    
-    const { data, error } = await getRecruiterApplications(page, 10, jobId);
-    
-    if (error) {
-      setError(error);
-    } else if (data) {
-      setApplications(data.applications);
-      setTotalPages(Math.ceil(data.total / data.page_size));
-    }
-    
-    setLoading(false);
-  };
+  // RequireAuth only renders this page for a signed-in recruiter, so it can fetch straight away
+  const { data, isPending: loading, error, refetch: refetchApplications } = useRecruiterApplicationsQuery(page, 10, jobId);
+  const applications = data?.applications ?? [];
+  const totalPages = data ? Math.ceil(data.total / data.page_size) : 1;
+  // Applicants' profiles for the match badges, one request for the whole page
+  const { data: profiles } = useCandidateProfilesQuery(applications.map((application) => application.candidate_id));
 
-  // useEffect(() => {
-  //   fetchApplications();
-  // }, [page, jobId]);
-  useEffect(() => {
-    // 🔥 Only fetch if auth is finished and we know the user is a recruiter
-    if (!authLoading && role === 'recruiter') {
-      fetchApplications();
-    }
-  }, [page, jobId, role, authLoading]); // 🔥 Add role and authLoading to dependencies
+  const updateStatusMutation = useUpdateApplicationStatusMutation();
 
   // 🔥 FIX 1: Narrow the type parameter to match the recruiter actions.
   // We assume the API accepts 'shortlisted', 'rejected', 'interview', 'selected' 
   // based on your ApplicationCard buttons. If 'under-review' is required by API, 
   // you must use that instead of 'shortlisted' here.
 
-  const handleStatusChange = async (id: string, status: 'shortlisted' | 'rejected' | 'interview' | 'selected') => {
-    const { error } = await updateApplicationStatus(id, status);
-    
-    if (error) {
-      toast({
-        title: 'Error',
-        description: error,
-        variant: 'destructive',
-      });
-    } else {
-      toast({
-        title: 'Status updated',
-        description: `Application has been marked as ${status.replace('-', ' ')}`,
-      });
-      fetchApplications();
-    }
+  const handleStatusChange = (id: string, status: 'shortlisted' | 'rejected' | 'interview' | 'selected') => {
+    updateStatusMutation.mutate({ id, status }, {
+      onError: (error) => {
+        toast({
+          ...describeApiError(error),
+          variant: 'destructive',
+        });
+      },
+      onSuccess: () => {
+        toast({
+          title: 'Status updated',
+          description: `Application has been marked as ${status.replace('-', ' ')}`,
+        });
+      },
+    });
   };
 
   return (
@@ -113,7 +84,7 @@ export default function RecruiterApplications() {
 
         {error && (
           <div className="mb-6">
-            <ErrorBanner message={error} onRetry={fetchApplications} />
+            <ErrorBanner error={error} onRetry={() => refetchApplications()} />
           </div>
         )}
 
@@ -144,6 +115,7 @@ export default function RecruiterApplications() {
                   <ApplicationCard
                     application={application}
                     isRecruiter={true}
+                    applicantProfile={profiles?.find((profile) => profile.candidate_id === application.candidate_id)}
                     // 🔥 FIX 2: Add the required 'canEdit' prop
                     canEdit={false}
                     onStatusChange={handleStatusChange}
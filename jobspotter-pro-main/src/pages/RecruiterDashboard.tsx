@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { Header } from '@/components/Header';
 import { Pagination } from '@/components/Pagination';
@@ -8,9 +8,12 @@ import { ErrorBanner } from '@/components/ErrorBanner';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 // import { getJobs, deleteJob, Job } from '@/lib/api';
-import { getRecruiterJobs, deleteJob, Job } from '@/lib/api';
-import { useRequireAuth } from '@/hooks/useAuth';
+import { Job } from '@/lib/api';
+import { useDeleteJobMutation, useRecruiterJobsQuery } from '@/hooks/use-api-queries';
 import { toast } from '@/hooks/use-toast';
+import { usePageParam } from '@/hooks/use-list-params';
+import { describeApiError } from '@/lib/errors';
+import { formatSalary } from '@/lib/salary';
 import { 
   Plus, 
   Briefcase, 
@@ -35,13 +38,8 @@ import {
 import { JobFormModal } from '@/components/JobFormModal';
 
 export default function RecruiterDashboard() {
-  useRequireAuth('recruiter');
-  
-  const [jobs, setJobs] = useState<Job[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [page, setPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
+  // ?page=N, so refresh and Back keep the place in the list
+  const [page, setPage] = usePageParam();
   
   // Delete confirmation
   const [deleteId, setDeleteId] = useState<string | null>(null);
@@ -50,44 +48,29 @@ export default function RecruiterDashboard() {
   const [jobFormOpen, setJobFormOpen] = useState(false);
   const [editingJob, setEditingJob] = useState<Job | null>(null);
 
-  const fetchJobs = async () => {
-    setLoading(true);
-    setError(null);
-    
-    const { data, error } = await getRecruiterJobs(page, 10);
-    
-    if (error) {
-      setError(error);
-    } else if (data) {
-      setJobs(data.jobs);
-      setTotalPages(Math.ceil(data.total / data.page_size));
-    }
-    
-    setLoading(false);
-  };
+  const { data, isPending: loading, error, refetch: refetchJobs } = useRecruiterJobsQuery(page, 10);
+  const jobs = data?.jobs ?? [];
+  const totalPages = data ? Math.ceil(data.total / data.page_size) : 1;
 
-  useEffect(() => {
-    fetchJobs();
-  }, [page]);
+  const deleteJobMutation = useDeleteJobMutation();
 
-  const handleDelete = async () => {
+  const handleDelete = () => {
     if (!deleteId) return;
     
-    const { error } = await deleteJob(deleteId);
-    
-    if (error) {
-      toast({
-        title: 'Error',
-        description: error,
-        variant: 'destructive',
-      });
-    } else {
-      toast({
-        title: 'Job deleted',
-        description: 'The job listing has been deleted',
-      });
-      fetchJobs();
-    }
+    deleteJobMutation.mutate(deleteId, {
+      onError: (error) => {
+        toast({
+          ...describeApiError(error),
+          variant: 'destructive',
+        });
+      },
+      onSuccess: () => {
+        toast({
+          title: 'Job deleted',
+          description: 'The job listing has been deleted',
+        });
+      },
+    });
     
     setDeleteId(null);
   };
@@ -102,13 +85,6 @@ export default function RecruiterDashboard() {
     setJobFormOpen(true);
   };
 
-  const formatSalary = (min?: number, max?: number) => {
-    if (!min && !max) return null;
-    if (min && max) return `$${(min / 1000).toFixed(0)}k - $${(max / 1000).toFixed(0)}k`;
-    if (min) return `From $${(min / 1000).toFixed(0)}k`;
-    if (max) return `Up to $${(max / 1000).toFixed(0)}k`;
-  };
-
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -131,7 +107,7 @@ export default function RecruiterDashboard() {
 
         {error && (
           <div className="mb-6">
-            <ErrorBanner message={error} onRetry={fetchJobs} />
+            <ErrorBanner error={error} onRetry={() => refetchJobs()} />
           </div>
         )}
 
@@ -174,10 +150,11 @@ export default function RecruiterDashboard() {
                           <MapPin className="h-4 w-4" />
                           {job.location}
                         </span>
-                        {formatSalary(job.salary_min, job.salary_max) && (
+                        {/* Recruiters always see the salary as they posted it */}
+                        {formatSalary(job.salary) && (
                           <span className="flex items-center gap-1 text-success">
                             {/* <DollarSign className="h-4 w-4" /> */}
-                            {formatSalary(job.salary_min, job.salary_max)}
+                            {formatSalary(job.salary)}
                           </span>
                         )}
                         <span className="flex items-center gap-1">
@@ -237,7 +214,7 @@ export default function RecruiterDashboard() {
           setEditingJob(null);
         }}
         onSuccess={() => {
-          fetchJobs();
+          // The list refreshes through query invalidation in the job mutations
           setJobFormOpen(false);
           setEditingJob(null);
         }}
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AuthLayout } from '@/components/AuthLayout';
+import { resetPassword } from '@/lib/api';
+import { Loader2, Lock } from 'lucide-react';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+// Opened from the link in the password reset email (/auth/reset-password?token=...)
+export default function ResetPassword() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [passwordError, setPasswordError] = useState('');
+  const navigate = useNavigate();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setPasswordError('');
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setPasswordError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setPasswordError('Passwords do not match.');
+      return;
+    }
+
+    setLoading(true);
+    const { error: resetError } = await resetPassword(token, password);
+    setLoading(false);
+
+    if (resetError) {
+      if (resetError.isNetworkError) {
+        setError('You appear to be offline. Check your connection and try again.');
+      } else if (resetError.fieldErrors.password) {
+        setPasswordError(resetError.fieldErrors.password);
+      } else {
+        setError(resetError.message);
+      }
+      return;
+    }
+
+    navigate('/auth', {
+      replace: true,
+      state: { message: 'Your password has been updated. Sign in with your new password.' },
+    });
+  };
+
+  if (!token) {
+    return (
+      <AuthLayout>
+        <h2 className="font-display text-2xl font-bold text-foreground">Link incomplete</h2>
+        <p className="mt-2 text-muted-foreground">
+          This password reset link is missing its token. Open the link from the email again, or request a new one.
+        </p>
+        <Button asChild className="mt-8 w-full" size="lg">
+          <Link to="/auth/forgot-password">Request a new link</Link>
+        </Button>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout>
+      <h2 className="font-display text-2xl font-bold text-foreground">Choose a new password</h2>
+      <p className="mt-2 text-muted-foreground">You'll use it to sign in from now on.</p>
+
+      <form onSubmit={handleSubmit} className="mt-8 space-y-4">
+        {error && (
+          <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive">
+            {error}{' '}
+            <Link to="/auth/forgot-password" className="font-medium underline">
+              Request a new link
+            </Link>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="password">New password</Label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              id="password"
+              type="password"
+              placeholder="••••••••"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="pl-10"
+              autoComplete="new-password"
+              required
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="confirmPassword">Confirm new password</Label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              id="confirmPassword"
+              type="password"
+              placeholder="••••••••"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className="pl-10"
+              autoComplete="new-password"
+              required
+            />
+          </div>
+          {passwordError && <p className="text-xs text-destructive">{passwordError}</p>}
+        </div>
+
+        <Button type="submit" className="w-full" size="lg" disabled={loading}>
+          {loading ? (
+            <>
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Updating password...
+            </>
+          ) : (
+            'Update password'
+          )}
+        </Button>
+      </form>
+    </AuthLayout>
+  );
+}
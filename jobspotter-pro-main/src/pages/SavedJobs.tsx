@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Header } from '@/components/Header';
 import { JobCard } from '@/components/JobCard';
 import { Pagination } from '@/components/Pagination';
@@ -6,95 +6,44 @@ import { ApplyModal } from '@/components/ApplyModal';
 import { LoadingCard } from '@/components/LoadingState';
 import { EmptyState } from '@/components/EmptyState';
 import { ErrorBanner } from '@/components/ErrorBanner';
-// 🔥 FIX: Import getJob here
-import { getSavedJobs, removeSavedJob, applyJob, SavedJob, Job, getJob } from '@/lib/api';
-import { useRequireAuth } from '@/hooks/useAuth';
+import { Job } from '@/lib/api';
+import { useApplyMutation, useRemoveSavedJobMutation, useSavedJobsWithDetailsQuery } from '@/hooks/use-api-queries';
 import { toast } from '@/hooks/use-toast';
+import { describeApiError } from '@/lib/errors';
 import { Bookmark } from 'lucide-react';
 
 
 export default function SavedJobs() {
-  useRequireAuth('candidate');
-  
-  const [savedJobs, setSavedJobs] = useState<SavedJob[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [page, setPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
   
   // Apply modal
   const [selectedJob, setSelectedJob] = useState<Job | null>(null);
   const [applyModalOpen, setApplyModalOpen] = useState(false);
-  const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const fetchSavedJobs = async () => {
-    setLoading(true);
-    setError(null);
-    
-    const { data, error } = await getSavedJobs(page, 10);
-    
-    if (error) {
-        setError(error);
-        setLoading(false);
-        return;
-    }
-    
-    if (data && data.saved_jobs.length > 0) {
-        // 🔥 CRITICAL FIX: Fetch full job details for each saved job entry
-        const fetchDetailsPromises = data.saved_jobs.map(async (savedJob) => {
-            // Get the ID from the saved job record
-            const jobId = savedJob.job_id;
-            
-            // Call the getJob function (which returns the full Job object)
-            const jobResult = await getJob(jobId);
-
-            if (jobResult.data) {
-                // If job details are successfully fetched, replace the partial 'jobs' object 
-                // with the full Job object data, but preserve the savedJob's metadata (id, saved_at).
-                return {
-                    ...savedJob,
-                    // The returned jobResult.data is a complete Job, 
-                    // which overwrites the incomplete `savedJob.jobs`.
-                    jobs: { ...jobResult.data, id: jobId } as Job, 
-                };
-            }
-            // If fetching fails, return the original incomplete savedJob
-            return savedJob;
+  // 🔥 CRITICAL FIX: Saved jobs come back with full job details attached (see useSavedJobsWithDetailsQuery)
+  // The route is guarded by RequireAuth, so a candidate is always signed in here
+  const { data, isLoading: loading, error, refetch: refetchSavedJobs } = useSavedJobsWithDetailsQuery(page, 10);
+  const savedJobs = data?.saved_jobs ?? [];
+  const totalPages = data ? Math.ceil(data.total / data.page_size) : 0;
+
+  const removeSavedJobMutation = useRemoveSavedJobMutation();
+  const applyMutation = useApplyMutation();
+
+  const handleRemoveSaved = (savedJobId: string) => {
+    removeSavedJobMutation.mutate(savedJobId, {
+      onError: (error) => {
+        toast({
+          ...describeApiError(error),
+          variant: 'destructive',
         });
-
-        // Wait for all detail fetches to complete
-        const savedJobsWithDetails = await Promise.all(fetchDetailsPromises);
-
-        setSavedJobs(savedJobsWithDetails);
-        setTotalPages(Math.ceil(data.total / data.page_size));
-    } else {
-        setSavedJobs([]);
-        setTotalPages(0);
-    }
-    
-    setLoading(false);
-};
-
-  useEffect(() => {
-    fetchSavedJobs();
-  }, [page]);
-
-  const handleRemoveSaved = async (savedJobId: string) => {
-    const { error } = await removeSavedJob(savedJobId);
-    
-    if (error) {
-      toast({
-        title: 'Error',
-        description: error,
-        variant: 'destructive',
-      });
-    } else {
-      toast({
-        title: 'Job removed',
-        description: 'Job has been removed from your saved list',
-      });
-      fetchSavedJobs();
-    }
+      },
+      onSuccess: () => {
+        toast({
+          title: 'Job removed',
+          description: 'Job has been removed from your saved list',
+        });
+      },
+    });
   };
 
   const handleApply = (job: Job) => {
@@ -102,16 +51,11 @@ export default function SavedJobs() {
     setApplyModalOpen(true);
   };
 
+  // Throws the ApiError on failure so ApplyModal can show it
   const handleSubmitApplication = async (resumeUrl: string, coverLetter?: string) => {
     if (!selectedJob) return;
     
-    setIsSubmitting(true);
-    const { error } = await applyJob(selectedJob.id, resumeUrl, coverLetter);
-    setIsSubmitting(false);
-    
-    if (error) {
-      throw new Error(error);
-    }
+    await applyMutation.mutateAsync({ jobId: selectedJob.id, resumeUrl, coverLetter });
     
     toast({
       title: 'Application submitted',
@@ -135,7 +79,7 @@ export default function SavedJobs() {
 
         {error && (
           <div className="mb-6">
-            <ErrorBanner message={error} onRetry={fetchSavedJobs} />
+            <ErrorBanner error={error} onRetry={() => refetchSavedJobs()} />
           </div>
         )}
 
@@ -205,7 +149,7 @@ export default function SavedJobs() {
         isOpen={applyModalOpen}
         onClose={() => setApplyModalOpen(false)}
         onSubmit={handleSubmitApplication}
-        isSubmitting={isSubmitting}
+        isSubmitting={applyMutation.isPending}
       />
     </div>
   );
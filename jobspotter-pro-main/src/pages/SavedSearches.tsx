@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { Header } from '@/components/Header';
+import { LoadingCard } from '@/components/LoadingState';
+import { EmptyState } from '@/components/EmptyState';
+import { ErrorBanner } from '@/components/ErrorBanner';
+import { SavedSearchDialog } from '@/components/SavedSearchDialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  useDeleteSavedSearchMutation,
+  useSavedSearchesQuery,
+  useUpdateSavedSearchMutation,
+} from '@/hooks/use-api-queries';
+import { useOpenSavedSearch } from '@/hooks/use-saved-search-alerts';
+import { toast } from '@/hooks/use-toast';
+import { SavedSearch, SavedSearchChanges } from '@/lib/api';
+import { describeApiError } from '@/lib/errors';
+import { describeJobFilters } from '@/lib/jobFilters';
+import { cn } from '@/lib/utils';
+import { BellRing, Pencil, Search, Trash2 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface SavedSearchRowProps {
+  search: SavedSearch;
+  onOpen: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+  onChange: (changes: SavedSearchChanges) => void;
+  isUpdating: boolean;
+}
+
+function SavedSearchRow({ search, onOpen, onEdit, onDelete, onChange, isUpdating }: SavedSearchRowProps) {
+  const labels = describeJobFilters(search.filters);
+  return (
+    <div className={cn('rounded-xl border border-border bg-card p-5 shadow-card', search.paused && 'opacity-75')}>
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <h2 className="truncate font-display text-lg font-semibold text-foreground">{search.name}</h2>
+            {search.paused ? (
+              <Badge variant="pending">Paused</Badge>
+            ) : search.new_job_count > 0 ? (
+              <Badge variant="under-review">{search.new_job_count} new</Badge>
+            ) : null}
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {labels.length > 0 ? (
+              labels.map((label) => (
+                <Badge key={label} variant="secondary" className="font-normal">
+                  {label}
+                </Badge>
+              ))
+            ) : (
+              <span className="text-sm text-muted-foreground">All jobs</span>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Saved {new Date(search.created_at).toLocaleDateString()}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Button variant="outline" size="sm" onClick={onOpen}>
+            <Search className="h-4 w-4" />
+            View jobs
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onEdit} aria-label={`Edit ${search.name}`}>
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onDelete}
+            className="text-destructive hover:text-destructive"
+            aria-label={`Delete ${search.name}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-x-6 gap-y-3 border-t border-border pt-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            id={`alerts-${search.id}`}
+            checked={!search.paused}
+            onCheckedChange={(checked) => onChange({ paused: !checked })}
+            disabled={isUpdating}
+          />
+          <Label htmlFor={`alerts-${search.id}`} className="font-normal">Alerts</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id={`digest-${search.id}`}
+            checked={search.email_digest}
+            onCheckedChange={(checked) => onChange({ email_digest: checked })}
+            disabled={isUpdating || search.paused}
+          />
+          <Label htmlFor={`digest-${search.id}`} className="font-normal">Daily email</Label>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function SavedSearches() {
+  const { data: searches = [], isLoading, error, refetch } = useSavedSearchesQuery();
+  const updateSearch = useUpdateSavedSearchMutation();
+  const deleteSearch = useDeleteSavedSearchMutation();
+  const openSearch = useOpenSavedSearch();
+
+  const [editing, setEditing] = useState<SavedSearch | null>(null);
+  const [deleting, setDeleting] = useState<SavedSearch | null>(null);
+
+  const handleChange = (search: SavedSearch, changes: SavedSearchChanges) => {
+    updateSearch.mutate({ id: search.id, changes }, {
+      onError: (error) => {
+        toast({
+          ...describeApiError(error),
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  const handleDelete = () => {
+    if (!deleting) return;
+    deleteSearch.mutate(deleting.id, {
+      onError: (error) => {
+        toast({
+          ...describeApiError(error),
+          variant: 'destructive',
+        });
+      },
+      onSuccess: () => {
+        toast({
+          title: 'Saved search deleted',
+          description: "You won't get alerts for it any more",
+        });
+      },
+    });
+    setDeleting(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container max-w-3xl py-8">
+        <div className="mb-8">
+          <h1 className="font-display text-3xl font-bold text-foreground">
+            Saved Searches
+          </h1>
+          <p className="mt-2 text-muted-foreground">
+            Get alerted when new jobs match the searches you run often
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6">
+            <ErrorBanner error={error} onRetry={() => refetch()} />
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <LoadingCard key={i} />
+            ))}
+          </div>
+        ) : searches.length === 0 ? (
+          <EmptyState
+            icon={BellRing}
+            title="No saved searches"
+            description="Search or filter on the Jobs page, then choose Save search to be told about new matches"
+            actionLabel="Browse Jobs"
+            actionHref="/jobs"
+          />
+        ) : (
+          <div className="space-y-4">
+            {searches.map((search) => (
+              <SavedSearchRow
+                key={search.id}
+                search={search}
+                onOpen={() => openSearch(search)}
+                onEdit={() => setEditing(search)}
+                onDelete={() => setDeleting(search)}
+                onChange={(changes) => handleChange(search, changes)}
+                isUpdating={updateSearch.isPending && updateSearch.variables?.id === search.id}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+
+      <SavedSearchDialog isOpen={!!editing} search={editing} onClose={() => setEditing(null)} />
+
+      <AlertDialog open={!!deleting} onOpenChange={() => setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Saved Search</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete "{deleting?.name}"? You'll stop getting alerts and emails for it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
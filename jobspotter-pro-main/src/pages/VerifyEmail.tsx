@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { AuthLayout } from '@/components/AuthLayout';
+import { LoadingState } from '@/components/LoadingState';
+import { VerifyEmailNotice } from '@/components/VerifyEmailNotice';
+import { verifyEmail } from '@/lib/api';
+import { useAuth } from '@/hooks/useAuth';
+import { CheckCircle2 } from 'lucide-react';
+
+type VerifyState = { status: 'verifying' } | { status: 'verified' } | { status: 'failed'; message: string };
+
+// Opened from the link in the verification email (/auth/verify-email?token=...).
+// Without a token it shows where the signed-in user stands and lets them resend the email.
+export default function VerifyEmail() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const { user, loading: authLoading, reloadUser } = useAuth();
+  const [state, setState] = useState<VerifyState>({ status: 'verifying' });
+
+  // Tokens are single use, so make sure a re-run of the effect doesn't send it twice
+  const submittedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!token || submittedToken.current === token) return;
+    submittedToken.current = token;
+
+    verifyEmail(token).then(({ error }) => {
+      if (error) {
+        setState({
+          status: 'failed',
+          message: error.isNetworkError
+            ? 'You appear to be offline. Check your connection and reload this page.'
+            : error.message,
+        });
+        return;
+      }
+      setState({ status: 'verified' });
+      // Signed in on this device: pick up the new status so applying unlocks straight away
+      reloadUser();
+    });
+  }, [token, reloadUser]);
+
+  const unverified = user?.email_verified === false;
+  const continueTo = user ? '/jobs' : '/auth';
+  const continueLabel = user ? 'Browse jobs' : 'Sign in';
+
+  if (token && state.status === 'verifying') {
+    return (
+      <AuthLayout>
+        <LoadingState message="Verifying your email..." />
+      </AuthLayout>
+    );
+  }
+
+  if (token && state.status === 'verified') {
+    return (
+      <AuthLayout>
+        <CheckCircle2 className="h-10 w-10 text-success" />
+        <h2 className="mt-4 font-display text-2xl font-bold text-foreground">Email verified</h2>
+        <p className="mt-2 text-muted-foreground">Thanks for confirming your address. You can now apply to jobs.</p>
+        <Button asChild className="mt-8 w-full" size="lg">
+          <Link to={continueTo}>{continueLabel}</Link>
+        </Button>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout>
+      <h2 className="font-display text-2xl font-bold text-foreground">
+        {token ? "We couldn't verify your email" : 'Verify your email'}
+      </h2>
+      {state.status === 'failed' && (
+        <div className="mt-4 rounded-lg bg-destructive/10 p-3 text-sm text-destructive">
+          {state.message}
+        </div>
+      )}
+
+      <div className="mt-8">
+        {authLoading ? (
+          <LoadingState message="Checking your session..." />
+        ) : unverified ? (
+          <VerifyEmailNotice />
+        ) : user ? (
+          <p className="text-muted-foreground">Your email address {user.email} is already verified.</p>
+        ) : (
+          <p className="text-muted-foreground">
+            Sign in to send yourself a new verification link.
+          </p>
+        )}
+      </div>
+
+      {!unverified && (
+        <Button asChild className="mt-8 w-full" size="lg">
+          <Link to={continueTo}>{continueLabel}</Link>
+        </Button>
+      )}
+    </AuthLayout>
+  );
+}
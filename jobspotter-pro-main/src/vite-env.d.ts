@@ -1 +1,23 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_APP_ENV?: 'development' | 'staging' | 'production';
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_API_TIMEOUT_MS?: string;
+  readonly VITE_API_MAX_RETRIES?: string;
+  readonly VITE_API_RETRY_BASE_DELAY_MS?: string;
+  readonly VITE_API_DEFAULT_HEADERS?: string;
+  readonly VITE_USE_MOCK_API?: string;
+  readonly VITE_MOCK_LATENCY_MS?: string;
+  readonly VITE_MOCK_TOKEN_LIFETIME_SECONDS?: string;
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_ANON_KEY: string;
+  readonly VITE_SUPABASE_RESUME_BUCKET?: string;
+  readonly VITE_STORAGE_PROVIDER?: 'supabase' | 'local';
+  readonly VITE_DIGEST_WEBHOOK_URL?: string;
+  readonly VITE_ALLOW_RUNTIME_CONFIG?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}